@@ -49,8 +49,6 @@ export function mongoCollection<
   // Build indexes
   const indexes: IndexDef[] = [];
   if (options.indexes) {
-    // Create a simple index builder for now
-    // In a full implementation, we'd properly map field builders to field names
     const idx = createSimpleIndexBuilder(schema);
     const indexDefs = options.indexes(idx as any, schema);
     indexes.push(...indexDefs);
@@ -62,6 +60,7 @@ export function mongoCollection<
       const indexConfig = fieldBuilder._config.index;
       indexes.push({
         fields: [fieldName],
+        type: indexConfig.type,
         options: {
           unique: indexConfig.unique,
           sparse: indexConfig.sparse,
@@ -104,6 +103,8 @@ export function mongoCollection<
     audit,
     hooks,
     middlewares,
+    validation: options.validation,
+    bulkWrites: options.bulkWrites,
   };
 
   // Create collection definition
@@ -122,9 +123,19 @@ export function mongoCollection<
 
 /**
  * Simple index builder for compound indexes
+ * Accepts field builders from the schema (or plain field names) and resolves them to field names
  */
-function createSimpleIndexBuilder<TSchema extends SchemaDefinition>(_schema: TSchema) {
-  return (...fieldNames: string[]) => {
+function createSimpleIndexBuilder<TSchema extends SchemaDefinition>(schema: TSchema) {
+  const resolveFieldName = (field: unknown): string => {
+    if (typeof field === 'string') return field;
+    for (const [fieldName, fieldBuilder] of Object.entries(schema)) {
+      if (fieldBuilder === field) return fieldName;
+    }
+    throw new Error('Index field must be a field of the collection schema');
+  };
+
+  return (...fields: unknown[]) => {
+    const fieldNames = fields.map(resolveFieldName);
     return {
       unique(): IndexDef {
         return {
@@ -162,6 +173,13 @@ function createSimpleIndexBuilder<TSchema extends SchemaDefinition>(_schema: TSc
           options: { background: true },
         };
       },
+      type(type: NonNullable<IndexDef['type']>): IndexDef {
+        return {
+          fields: fieldNames,
+          type,
+          options: {},
+        };
+      },
       // Allow chaining to end with no modifier
       fields: fieldNames,
       options: {},
@@ -7,6 +7,7 @@ import type {
   ReferenceRelation,
   EmbedRelation,
   LookupRelation,
+  ManyToManyRelation,
   TypedRelation,
   RelationTargets,
   EmbedConfig,
@@ -78,6 +79,83 @@ export function lookup<
   } as any;
 }
 
+/**
+ * Define a MANY_TO_MANY relation - populates target documents linked through a join collection
+ *
+ * Included with a nested $lookup (source → join documents → targets); the join documents
+ * are maintained with attach(), detach() and sync(). A unique (sourceKey, targetKey) index
+ * is declared on the join collection so concurrent attach() calls cannot link a pair twice
+ *
+ * @example
+ * ```typescript
+ * const postTags = mongoCollection('post_tags', {
+ *   postId: objectId(),
+ *   tagId: objectId(),
+ * });
+ *
+ * const posts = mongoCollection('posts', {
+ *   title: string(),
+ * }, {
+ *   relations: {
+ *     tags: manyToMany(tags, {
+ *       through: postTags,
+ *       sourceKey: 'postId', // Join field pointing at the post
+ *       targetKey: 'tagId', // Join field pointing at the tag
+ *       sort: { name: 1 },
+ *     })
+ *   }
+ * });
+ * ```
+ */
+export function manyToMany<
+  TOther extends SchemaDefinition,
+  TTargets extends RelationTargets,
+  TThrough extends SchemaDefinition,
+  const TConfig extends Omit<
+    ManyToManyRelation,
+    'type' | 'targetCollection' | 'through' | '_targetCollectionDef' | '_throughCollectionDef'
+  > & { through: CollectionDefinition<any, any> },
+>(
+  targetCollection: CollectionDefinition<TOther, TTargets>,
+  config: TConfig & {
+    through: CollectionDefinition<TThrough, any>;
+    sourceKey: keyof TThrough & string; // Join keys must be fields of the join collection
+    targetKey: keyof TThrough & string;
+  },
+): TypedRelation<ManyToManyRelation, CollectionDefinition<TOther, TTargets>, TConfig> {
+  declareJoinIndex(config.through, config.sourceKey, config.targetKey);
+  return {
+    type: RelationType.MANY_TO_MANY,
+    targetCollection: targetCollection._meta.name,
+    _targetCollectionDef: targetCollection, // Store full collection definitions for runtime
+    ...config,
+    through: config.through._meta.name,
+    _throughCollectionDef: config.through,
+  } as any;
+}
+
+/**
+ * Add the unique (sourceKey, targetKey) index to a join collection unless an index on
+ * both keys or with its name is declared (created by db.syncIndexes())
+ * The join collection is shared by the relations of both sides, so this runs once per side
+ */
+function declareJoinIndex(
+  through: CollectionDefinition<any, any>,
+  sourceKey: string,
+  targetKey: string,
+): void {
+  const indexes = through._meta.indexes;
+  const name = `${sourceKey}_1_${targetKey}_1`;
+  const declared = indexes.some(
+    (def) =>
+      def.options.name === name ||
+      (def.fields.length === 2 && def.fields.includes(sourceKey) && def.fields.includes(targetKey)),
+  );
+  if (!declared) {
+    indexes.push({ fields: [sourceKey, targetKey], options: { unique: true } });
+  }
+}
+
 /**
  * Define an EMBED relation - write-time denormalization for read performance
  *
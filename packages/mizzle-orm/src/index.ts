@@ -8,7 +8,7 @@ export { mizzle, defineSchema } from './orm/orm';
 export { mongoCollection } from './collection/collection';
 
 // Relation factory functions
-export { lookup, reference, embed } from './collection/relations';
+export { lookup, reference, embed, manyToMany } from './collection/relations';
 
 // Field factory functions
 export {
@@ -29,7 +29,14 @@ export {
 } from './schema/fields';
 
 // Types
-export type { InferDocument, InferInsert, InferUpdate, InferFieldType } from './types/inference';
+export type {
+  InferDocument,
+  InferInsert,
+  InferUpdate,
+  InferFieldType,
+  UpdateOperators,
+  UpdateData,
+} from './types/inference';
 
 export type {
   FieldConfig,
@@ -44,12 +51,70 @@ export type {
   ObjectFieldBuilder,
 } from './types/field';
 
-export type { CollectionDefinition, CollectionMeta } from './types/collection';
+export type {
+  CollectionDefinition,
+  CollectionMeta,
+  IndexDef,
+  BulkWriteConfig,
+} from './types/collection';
 
-export type { OrmContext, Mizzle, MizzleConfig } from './types/orm';
+export type {
+  IndexSpec,
+  IndexAction,
+  IndexPlanEntry,
+  CollectionIndexReport,
+  SyncIndexesOptions,
+  IndexSyncReport,
+} from './types/indexes';
+
+export type {
+  OrmContext,
+  Mizzle,
+  MizzleConfig,
+  DevGuardrailsConfig,
+  FindPageOptions,
+  StreamOptions,
+  Page,
+  PageInfo,
+  PaginationConfig,
+  SoftDeleteManyOptions,
+  SoftDeleteManyResult,
+  EmbedOutboxConfig,
+  RefreshEmbedsOptions,
+  RefreshStats,
+  RefreshError,
+  RefreshProgress,
+  AttachOptions,
+  SyncRelationResult,
+  CheckEmbedsOptions,
+  EmbedCheckReport,
+  EmbedIssue,
+  EmbedIssueStatus,
+} from './types/orm';
 
 export type { IncludeConfig, NestedIncludeConfig, WithIncluded } from './types/include';
 
+export type {
+  EmbedOutboxEntry,
+  EmbedWorker,
+  EmbedWorkerOptions,
+  EmbedWorkerMetrics,
+} from './query/embed-outbox';
+export type { EmbedSync, EmbedSyncOptions, EmbedSyncMetrics } from './query/embed-sync';
+
+// Indexes
+export { planIndexSync, toIndexSpec } from './indexes/index-sync';
+
+// Errors
+export {
+  UnindexedQueryError,
+  InvalidCursorError,
+  PolicyDeniedError,
+  TenantScopeError,
+  ReferentialIntegrityError,
+} from './query/errors';
+export type { BlockingReference } from './query/errors';
+
 // Validation
 export {
   generateDocumentSchema,
@@ -82,6 +147,7 @@ export type {
   ReadOperation,
   WriteOperation,
 } from './types/middleware';
+export { READ_OPERATIONS, isReadOperation, isWriteOperation } from './types/middleware';
 
 export type {
   LoggingConfig,
@@ -0,0 +1,223 @@
+/**
+ * Index synchronization tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, number, date, geoPoint } from '../../schema/fields';
+import { planIndexSync, toIndexSpec } from '../index-sync';
+import type { Mizzle } from '../../types/orm';
+
+describe('Index Sync', () => {
+  describe('toIndexSpec()', () => {
+    it('should map field-level index configs to specs', () => {
+      const users = mongoCollection('users', {
+        email: string().unique(),
+        bio: string().index({ type: 'text' }),
+        location: geoPoint().index({ type: '2dsphere' }),
+        shard: string().index({ type: 'hashed' }),
+        expiresAt: date().index({ ttl: 3600 }),
+      });
+
+      const specs = users._meta.indexes.map(toIndexSpec);
+
+      expect(specs).toEqual([
+        { name: 'email_1', key: { email: 1 }, options: { unique: true } },
+        { name: 'bio_text', key: { bio: 'text' }, options: {} },
+        { name: 'location_2dsphere', key: { location: '2dsphere' }, options: {} },
+        { name: 'shard_hashed', key: { shard: 'hashed' }, options: {} },
+        { name: 'expiresAt_1', key: { expiresAt: 1 }, options: { expireAfterSeconds: 3600 } },
+      ]);
+    });
+
+    it('should keep unique when index() is chained after unique()', () => {
+      const users = mongoCollection('users', {
+        email: string().unique().index(),
+      });
+
+      expect(toIndexSpec(users._meta.indexes[0]!).options.unique).toBe(true);
+    });
+
+    it('should resolve field builders in compound index definitions', () => {
+      const posts = mongoCollection(
+        'posts',
+        {
+          authorId: string(),
+          score: number(),
+        },
+        {
+          indexes: (idx, fields) => [
+            idx(fields.authorId, fields.score).unique(),
+            idx(fields.score).partial({ score: { $gt: 0 } }),
+          ],
+        },
+      );
+
+      const specs = posts._meta.indexes.map(toIndexSpec);
+
+      expect(specs[0]).toEqual({
+        name: 'authorId_1_score_1',
+        key: { authorId: 1, score: 1 },
+        options: { unique: true },
+      });
+      expect(specs[1]?.options.partialFilterExpression).toEqual({ score: { $gt: 0 } });
+    });
+  });
+
+  describe('planIndexSync()', () => {
+    const existingId = { v: 2, key: { _id: 1 }, name: '_id_' };
+
+    it('should plan creation of missing indexes', () => {
+      const report = planIndexSync(
+        'users',
+        [{ fields: ['email'], options: { unique: true } }],
+        [existingId],
+      );
+
+      expect(report.entries).toHaveLength(1);
+      expect(report.entries[0]).toMatchObject({ action: 'create', name: 'email_1' });
+    });
+
+    it('should leave matching indexes unchanged', () => {
+      const report = planIndexSync(
+        'users',
+        [{ fields: ['email'], options: { unique: true } }],
+        [existingId, { v: 2, key: { email: 1 }, name: 'email_1', unique: true }],
+      );
+
+      expect(report.entries.map((e) => e.action)).toEqual(['unchanged']);
+    });
+
+    it('should match text indexes through their weights', () => {
+      const report = planIndexSync(
+        'posts',
+        [{ fields: ['title', 'body'], type: 'text', options: {} }],
+        [
+          existingId,
+          {
+            v: 2,
+            key: { _fts: 'text', _ftsx: 1 },
+            name: 'title_text_body_text',
+            weights: { body: 1, title: 1 },
+          },
+        ],
+      );
+
+      expect(report.entries.map((e) => e.action)).toEqual(['unchanged']);
+    });
+
+    it('should rebuild indexes whose options changed', () => {
+      const report = planIndexSync(
+        'sessions',
+        [{ fields: ['expiresAt'], options: { ttl: 60 } }],
+        [existingId, { v: 2, key: { expiresAt: 1 }, name: 'expiresAt_1', expireAfterSeconds: 30 }],
+      );
+
+      expect(report.entries[0]).toMatchObject({ action: 'rebuild', reason: 'ttl changed' });
+    });
+
+    it('should only drop unknown indexes when dropUnknown is set', () => {
+      const existing = [existingId, { v: 2, key: { legacy: 1 }, name: 'legacy_1' }];
+
+      const keep = planIndexSync('users', [], existing);
+      const drop = planIndexSync('users', [], existing, { dropUnknown: true });
+
+      expect(keep.entries).toEqual([
+        expect.objectContaining({ action: 'unmanaged', name: 'legacy_1' }),
+      ]);
+      expect(drop.entries).toEqual([expect.objectContaining({ action: 'drop', name: 'legacy_1' })]);
+    });
+  });
+
+  describe('db.syncIndexes()', () => {
+    const accounts = mongoCollection(
+      'index_sync_accounts',
+      {
+        email: string().unique(),
+        name: string(),
+        createdAt: date().defaultNow(),
+      },
+      {
+        indexes: (idx, fields) => [idx(fields.name, fields.createdAt).name('name_created')],
+      },
+    );
+
+    let db: Mizzle<{ accounts: typeof accounts }>;
+
+    beforeAll(async () => {
+      db = await createTestOrm({ accounts });
+    });
+
+    afterAll(async () => {
+      await teardownTestDb();
+    });
+
+    beforeEach(async () => {
+      await clearTestDb();
+      await db.client
+        .db('test')
+        .collection('index_sync_accounts')
+        .dropIndexes()
+        .catch(() => {});
+    });
+
+    it('should not touch the database in dry-run mode', async () => {
+      const report = await db.syncIndexes({ dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.summary.created).toBe(2);
+
+      const raw = db().accounts.rawCollection();
+      const indexes = await raw
+        .listIndexes()
+        .toArray()
+        .catch(() => []);
+      expect(indexes.map((i: any) => i.name)).not.toContain('email_1');
+    });
+
+    it('should create declared indexes and be idempotent', async () => {
+      const first = await db.syncIndexes();
+      expect(first.summary.created).toBe(2);
+
+      const raw = db().accounts.rawCollection();
+      const names = (await raw.listIndexes().toArray()).map((i: any) => i.name);
+      expect(names).toEqual(expect.arrayContaining(['_id_', 'email_1', 'name_created']));
+
+      const second = await db.syncIndexes();
+      expect(second.summary).toMatchObject({ created: 0, unchanged: 2 });
+    });
+
+    it('should drop unknown indexes with dropUnknown', async () => {
+      const raw = db().accounts.rawCollection();
+      await raw.createIndex({ name: -1 }, { name: 'stale_index' });
+
+      const report = await db.syncIndexes({ dropUnknown: true });
+      expect(report.summary.dropped).toBe(1);
+
+      const names = (await raw.listIndexes().toArray()).map((i: any) => i.name);
+      expect(names).not.toContain('stale_index');
+    });
+
+    it('should rebuild changed indexes and keep them when the new spec cannot be built', async () => {
+      const raw = db().accounts.rawCollection();
+      await raw.createIndex({ email: 1 }, { name: 'email_1' });
+      await raw.insertMany([
+        { email: 'dup@example.com', name: 'A', createdAt: new Date() },
+        { email: 'dup@example.com', name: 'B', createdAt: new Date() },
+      ]);
+
+      await expect(db.syncIndexes()).rejects.toThrow(/documents share the key/);
+      let email = (await raw.listIndexes().toArray()).find((i: any) => i.name === 'email_1');
+      expect(email).toBeDefined();
+      expect(email?.unique).toBeUndefined();
+
+      await raw.deleteOne({ name: 'B' });
+      const report = await db.syncIndexes();
+
+      expect(report.summary.rebuilt).toBe(1);
+      email = (await raw.listIndexes().toArray()).find((i: any) => i.name === 'email_1');
+      expect(email?.unique).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Index synchronization - applies declared collection indexes to the database
+ */
+
+import type { Collection, Db, Document, IndexDescription } from 'mongodb';
+import type { CollectionDefinition, IndexDef } from '../types/collection';
+import type {
+  CollectionIndexReport,
+  IndexKeyValue,
+  IndexPlanEntry,
+  IndexSpec,
+  IndexSyncReport,
+  SyncIndexesOptions,
+} from '../types/indexes';
+
+/**
+ * MongoDB error code for a missing collection (listIndexes on a new collection)
+ */
+const NAMESPACE_NOT_FOUND = 26;
+
+/**
+ * Convert a declared index definition to a createIndexes spec
+ */
+export function toIndexSpec(def: IndexDef): IndexSpec {
+  const keyValue = toKeyValue(def.type);
+  const key: Record<string, IndexKeyValue> = {};
+  for (const field of def.fields) {
+    key[field] = keyValue;
+  }
+
+  const options: IndexSpec['options'] = {};
+  if (def.options.unique) options.unique = true;
+  if (def.options.sparse) options.sparse = true;
+  if (def.options.ttl !== undefined) options.expireAfterSeconds = def.options.ttl;
+  if (def.options.partialFilterExpression) {
+    options.partialFilterExpression = def.options.partialFilterExpression;
+  }
+  if (def.options.background) options.background = true;
+
+  return {
+    name: def.options.name || defaultIndexName(key),
+    key,
+    options,
+  };
+}
+
+/**
+ * Compute the sync plan for one collection from its declared and existing indexes
+ *
+ * @param collectionName - Collection name (used in the report)
+ * @param declared - Declared index definitions (CollectionMeta.indexes)
+ * @param existing - Indexes as returned by listIndexes()
+ * @param options - Sync options (only dropUnknown is used)
+ */
+export function planIndexSync(
+  collectionName: string,
+  declared: IndexDef[],
+  existing: Document[],
+  options: Pick<SyncIndexesOptions, 'dropUnknown'> = {},
+): CollectionIndexReport {
+  const entries: IndexPlanEntry[] = [];
+  const matched = new Set<string>();
+
+  for (const def of declared) {
+    const spec = toIndexSpec(def);
+    const specKey = canonicalKey(spec.key);
+
+    // Match by name first, then by key pattern (MongoDB won't allow the same key twice)
+    const current =
+      existing.find((idx) => idx.name === spec.name && !matched.has(idx.name)) ||
+      existing.find(
+        (idx) => canonicalKey(normalizeExistingKey(idx)) === specKey && !matched.has(idx.name),
+      );
+
+    if (!current) {
+      entries.push({ action: 'create', name: spec.name, key: spec.key, spec });
+      continue;
+    }
+
+    matched.add(current.name);
+
+    const reason = describeDifference(spec, current);
+    entries.push({
+      action: reason ? 'rebuild' : 'unchanged',
+      name: spec.name,
+      key: spec.key,
+      spec,
+      existing: current,
+      ...(reason ? { reason } : {}),
+    });
+  }
+
+  for (const idx of existing) {
+    if (idx.name === '_id_' || matched.has(idx.name)) continue;
+
+    entries.push({
+      action: options.dropUnknown ? 'drop' : 'unmanaged',
+      name: idx.name,
+      key: idx.key,
+      existing: idx,
+    });
+  }
+
+  return { collection: collectionName, entries };
+}
+
+/**
+ * Sync the declared indexes of one collection with the database
+ */
+export async function syncCollectionIndexes(
+  db: Db,
+  collectionDef: CollectionDefinition<any, any>,
+  options: SyncIndexesOptions = {},
+): Promise<CollectionIndexReport> {
+  const collectionName = collectionDef._meta.name;
+  const collection = db.collection(collectionName);
+
+  let existing: Document[];
+  try {
+    existing = await collection.listIndexes().toArray();
+  } catch (error) {
+    if ((error as { code?: number }).code !== NAMESPACE_NOT_FOUND) {
+      throw error;
+    }
+    existing = [];
+  }
+
+  const report = planIndexSync(collectionName, collectionDef._meta.indexes, existing, options);
+
+  if (options.dryRun) {
+    return report;
+  }
+
+  const toCreate = report.entries
+    .filter((entry) => entry.action === 'create')
+    .map((entry) => ({ key: entry.spec!.key, name: entry.spec!.name, ...entry.spec!.options }));
+
+  if (toCreate.length > 0) {
+    await collection.createIndexes(toCreate);
+  }
+
+  for (const entry of report.entries) {
+    if (entry.action === 'rebuild') {
+      await rebuildIndex(collection, entry.spec!, entry.existing!);
+    }
+  }
+
+  // Undeclared indexes go last, once their declared replacements exist
+  for (const entry of report.entries) {
+    if (entry.action === 'drop') {
+      await collection.dropIndex(entry.name);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Sync the declared indexes of all given collections
+ */
+export async function syncIndexes(
+  db: Db,
+  collections: Record<string, CollectionDefinition<any, any>>,
+  options: SyncIndexesOptions = {},
+): Promise<IndexSyncReport> {
+  const report: IndexSyncReport = {
+    dryRun: options.dryRun ?? false,
+    collections: [],
+    summary: { created: 0, dropped: 0, rebuilt: 0, unchanged: 0, unmanaged: 0 },
+  };
+
+  const seen = new Set<string>();
+  for (const [key, collectionDef] of Object.entries(collections)) {
+    const name = collectionDef._meta.name;
+    if (seen.has(name)) continue;
+    const selected = options.collections;
+    if (selected && !selected.includes(key) && !selected.includes(name)) {
+      continue;
+    }
+    seen.add(name);
+
+    const collectionReport = await syncCollectionIndexes(db, collectionDef, options);
+    report.collections.push(collectionReport);
+
+    for (const entry of collectionReport.entries) {
+      switch (entry.action) {
+        case 'create':
+          report.summary.created++;
+          break;
+        case 'drop':
+          report.summary.dropped++;
+          break;
+        case 'rebuild':
+          report.summary.rebuilt++;
+          break;
+        case 'unchanged':
+          report.summary.unchanged++;
+          break;
+        case 'unmanaged':
+          report.summary.unmanaged++;
+          break;
+      }
+    }
+  }
+
+  return report;
+}
+
+// ========== Helpers ==========
+
+/**
+ * Replace an existing index with its declared spec
+ *
+ * The declared index shares its name or its key with the existing one (see planIndexSync),
+ * and MongoDB allows neither twice, so the old index is dropped before the new one is
+ * built. Unique indexes are checked for duplicate keys first, and the old index is
+ * restored if the new one still fails to build.
+ */
+async function rebuildIndex(
+  collection: Collection,
+  spec: IndexSpec,
+  existing: Document,
+): Promise<void> {
+  if (spec.options.unique) {
+    await assertNoDuplicateKeys(collection, spec);
+  }
+
+  await collection.dropIndex(existing.name);
+  try {
+    await collection.createIndex(spec.key, { name: spec.name, ...spec.options });
+  } catch (error) {
+    const { v: _version, ns: _namespace, key, ...options } = existing;
+    const restored: IndexDescription = { key, ...options };
+    await collection.createIndexes([restored]);
+    throw error;
+  }
+}
+
+/**
+ * Throw if documents share a key the unique index would reject
+ */
+async function assertNoDuplicateKeys(collection: Collection, spec: IndexSpec): Promise<void> {
+  const fields = Object.keys(spec.key);
+  const pipeline: Document[] = [];
+  if (spec.options.partialFilterExpression) {
+    pipeline.push({ $match: spec.options.partialFilterExpression });
+  }
+  if (spec.options.sparse) {
+    pipeline.push({ $match: { $or: fields.map((field) => ({ [field]: { $exists: true } })) } });
+  }
+  pipeline.push(
+    // Missing fields are indexed as null
+    {
+      $group: {
+        _id: fields.map((field) => ({ $ifNull: [`$${field}`, null] })),
+        count: { $sum: 1 },
+      },
+    },
+    { $match: { count: { $gt: 1 } } },
+    { $limit: 1 },
+  );
+
+  const [duplicate] = await collection.aggregate(pipeline).toArray();
+  if (duplicate) {
+    throw new Error(
+      `Cannot rebuild unique index '${spec.name}' on '${collection.collectionName}': ` +
+        `${duplicate.count} documents share the key ${JSON.stringify(duplicate._id)}`,
+    );
+  }
+}
+
+/**
+ * Map IndexConfig.type to an index key value
+ */
+function toKeyValue(type: IndexDef['type']): IndexKeyValue {
+  switch (type) {
+    case 'desc':
+      return -1;
+    case 'text':
+    case '2dsphere':
+    case 'hashed':
+      return type;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Build the index name MongoDB would generate (e.g. 'email_1', 'title_text')
+ */
+function defaultIndexName(key: Record<string, IndexKeyValue>): string {
+  return Object.entries(key)
+    .map(([field, value]) => `${field}_${value}`)
+    .join('_');
+}
+
+/**
+ * Normalize the key of an existing index
+ * Text indexes are reported as { _fts: 'text', _ftsx: 1 } with the fields in `weights`
+ */
+function normalizeExistingKey(idx: Document): Record<string, unknown> {
+  const key: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(idx.key || {})) {
+    if (field === '_fts') {
+      for (const textField of Object.keys(idx.weights || {})) {
+        key[textField] = 'text';
+      }
+    } else if (field !== '_ftsx') {
+      key[field] = value;
+    }
+  }
+  return key;
+}
+
+/**
+ * Canonical string form of an index key
+ * Text fields are order-independent, every other field keeps its position
+ */
+function canonicalKey(key: Record<string, unknown>): string {
+  const ordered: string[] = [];
+  const textFields: string[] = [];
+  for (const [field, value] of Object.entries(key)) {
+    if (value === 'text') {
+      textFields.push(field);
+    } else {
+      ordered.push(`${field}:${String(value)}`);
+    }
+  }
+  if (textFields.length > 0) {
+    ordered.push(`text(${textFields.sort().join(',')})`);
+  }
+  return ordered.join('|');
+}
+
+/**
+ * Describe why an existing index differs from its declared spec (undefined if identical)
+ */
+function describeDifference(spec: IndexSpec, existing: Document): string | undefined {
+  if (canonicalKey(spec.key) !== canonicalKey(normalizeExistingKey(existing))) {
+    return 'key changed';
+  }
+  if (Boolean(spec.options.unique) !== Boolean(existing.unique)) {
+    return 'unique changed';
+  }
+  if (Boolean(spec.options.sparse) !== Boolean(existing.sparse)) {
+    return 'sparse changed';
+  }
+  if (spec.options.expireAfterSeconds !== existing.expireAfterSeconds) {
+    return 'ttl changed';
+  }
+  if (
+    stableStringify(spec.options.partialFilterExpression) !==
+    stableStringify(existing.partialFilterExpression)
+  ) {
+    return 'partialFilterExpression changed';
+  }
+  return undefined;
+}
+
+/**
+ * JSON stringify with sorted object keys (for order-insensitive comparison)
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (typeof (value as { toHexString?: unknown }).toHexString === 'function') {
+    return JSON.stringify((value as { toHexString(): string }).toHexString());
+  }
+  const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+}
@@ -7,6 +7,7 @@ import { MongoClient, ObjectId } from 'mongodb';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import { mizzle, defineSchema, mongoCollection } from '../../index.js';
 import { string, objectId as objectIdField } from '../../schema/fields.js';
+import { isReadOperation, isWriteOperation } from '../../types/middleware.js';
 import type { Middleware } from '../../types/middleware.js';
 
 describe('Middleware System', () => {
@@ -451,3 +452,20 @@ describe('Middleware System', () => {
     });
   });
 });
+
+describe('Operation classification', () => {
+  it('should classify paged reads as reads', () => {
+    expect(isReadOperation('findPage')).toBe(true);
+    expect(isWriteOperation('findPage')).toBe(false);
+  });
+
+  it('should classify streams as reads', () => {
+    expect(isReadOperation('stream')).toBe(true);
+    expect(isWriteOperation('stream')).toBe(false);
+  });
+
+  it('should classify writes as writes', () => {
+    expect(isReadOperation('updateMany')).toBe(false);
+    expect(isWriteOperation('restoreMany')).toBe(true);
+  });
+});
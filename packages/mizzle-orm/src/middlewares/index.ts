@@ -2,7 +2,13 @@
  * Built-in middlewares and composition utilities for Mizzle ORM
  */
 
-import type { Middleware, MiddlewareContext, Operation } from '../types/middleware';
+import {
+  isReadOperation,
+  isWriteOperation,
+  type Middleware,
+  type MiddlewareContext,
+  type Operation,
+} from '../types/middleware';
 
 // ============================================================================
 // BUILT-IN MIDDLEWARES
@@ -397,7 +403,26 @@ export function auditMiddleware(config: AuditConfig = {}): Middleware {
 
   return async (ctx, next) => {
     // Determine if we should audit this operation
-    const writeOps: Operation[] = ['create', 'update', 'updateById', 'updateMany', 'delete', 'deleteById', 'deleteMany', 'softDelete'];
+    const writeOps: Operation[] = [
+      'create',
+      'insertMany',
+      'update',
+      'upsert',
+      'updateById',
+      'updateMany',
+      'delete',
+      'deleteById',
+      'deleteMany',
+      'softDelete',
+      'softDeleteMany',
+      'restore',
+      'restoreMany',
+      'purgeDeleted',
+      'transferOwnership',
+      'attach',
+      'detach',
+      'sync',
+    ];
     const shouldAudit = operations
       ? operations.includes(ctx.operation)
       : includeReads || writeOps.includes(ctx.operation);
@@ -724,11 +749,7 @@ export function onOperations(
  * ```
  */
 export function onReads(middleware: Middleware): Middleware {
-  return when(
-    (ctx) =>
-      ['findOne', 'findById', 'findMany', 'aggregate', 'count'].includes(ctx.operation),
-    middleware,
-  );
+  return when((ctx) => isReadOperation(ctx.operation), middleware);
 }
 
 /**
@@ -740,11 +761,7 @@ export function onReads(middleware: Middleware): Middleware {
  * ```
  */
 export function onWrites(middleware: Middleware): Middleware {
-  return when(
-    (ctx) =>
-      !['findOne', 'findById', 'findMany', 'aggregate', 'count'].includes(ctx.operation),
-    middleware,
-  );
+  return when((ctx) => isWriteOperation(ctx.operation), middleware);
 }
 
 /**
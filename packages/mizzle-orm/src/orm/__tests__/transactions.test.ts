@@ -0,0 +1,162 @@
+/**
+ * Transaction tests (db.tx)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { MongoError } from 'mongodb';
+import { teardownTestDb, clearTestDb, setupTestDb } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { embed } from '../../collection/relations';
+import { string } from '../../schema/fields';
+import { mizzle } from '../orm';
+import type { Middleware, MiddlewareContext } from '../../types/middleware';
+
+describe('Transactions', () => {
+  const authors = mongoCollection('tx_authors', {
+    name: string(),
+  });
+
+  const posts = mongoCollection(
+    'tx_posts',
+    {
+      title: string(),
+      authorId: string(),
+    },
+    {
+      relations: {
+        author: embed(authors, {
+          forward: { from: 'authorId', projection: { name: 1 } },
+          keepFresh: true,
+        }),
+      },
+    },
+  );
+
+  const seen: MiddlewareContext[] = [];
+  const capture: Middleware = async (ctx, next) => {
+    seen.push(ctx);
+    return next();
+  };
+
+  let db: any;
+
+  beforeAll(async () => {
+    const { uri } = await setupTestDb();
+    db = await mizzle({
+      uri,
+      dbName: 'test',
+      schema: { authors, posts },
+      middlewares: [capture],
+    });
+  });
+
+  afterAll(async () => {
+    await db?.close();
+    await teardownTestDb();
+  });
+
+  beforeEach(async () => {
+    await clearTestDb();
+    seen.length = 0;
+  });
+
+  it('should bind the session to every facade in the callback', async () => {
+    await db.tx({ requestId: 'outer' }, async (txDb: any) => {
+      await txDb().authors.create({ name: 'Alice' });
+      await txDb({ requestId: 'inner' }).authors.findMany({});
+    });
+
+    expect(seen).toHaveLength(2);
+    for (const ctx of seen) {
+      expect(ctx.orm.session).toBeDefined();
+    }
+    expect(seen[0]?.orm.requestId).toBe('outer');
+    expect(seen[1]?.orm.requestId).toBe('inner');
+  });
+
+  it('should roll back all writes when the callback throws', async () => {
+    await expect(
+      db.tx({}, async (txDb: any) => {
+        await txDb().authors.create({ name: 'Rolled back' });
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(await db().authors.count({})).toBe(0);
+  });
+
+  it('should roll back reverse embed propagation with the transaction', async () => {
+    const author = await db().authors.create({ name: 'Before' });
+    await db().posts.create({ title: 'Post', authorId: author._id.toHexString() });
+
+    await expect(
+      db.tx({}, async (txDb: any) => {
+        await txDb().authors.updateById(author._id, { name: 'After' });
+        throw new Error('abort');
+      }),
+    ).rejects.toThrow('abort');
+
+    const post = await db().posts.findOne({ title: 'Post' });
+    expect(post.author.name).toBe('Before');
+  });
+
+  it('should retry the callback on TransientTransactionError', async () => {
+    let attempts = 0;
+
+    const result = await db.tx(
+      {},
+      async (txDb: any) => {
+        attempts++;
+        await txDb().authors.create({ name: `Attempt ${attempts}` });
+        if (attempts < 3) {
+          const error = new MongoError('write conflict');
+          error.addErrorLabel('TransientTransactionError');
+          throw error;
+        }
+        return 'done';
+      },
+      { maxRetries: 3, backoff: () => 0 },
+    );
+
+    expect(result).toBe('done');
+    expect(attempts).toBe(3);
+
+    const names = (await db().authors.findMany({})).map((a: any) => a.name);
+    expect(names).toEqual(['Attempt 3']);
+  });
+
+  it('should give up after maxRetries', async () => {
+    let attempts = 0;
+
+    await expect(
+      db.tx(
+        {},
+        async () => {
+          attempts++;
+          const error = new MongoError('write conflict');
+          error.addErrorLabel('TransientTransactionError');
+          throw error;
+        },
+        { maxRetries: 1, backoff: () => 0 },
+      ),
+    ).rejects.toThrow('write conflict');
+
+    expect(attempts).toBe(2);
+  });
+
+  it('should accept transaction options', async () => {
+    await db.tx(
+      {},
+      async (txDb: any) => {
+        await txDb().authors.create({ name: 'Majority' });
+      },
+      {
+        readConcern: { level: 'snapshot' },
+        writeConcern: { w: 'majority' },
+        maxCommitTimeMS: 5000,
+      },
+    );
+
+    expect(await db().authors.count({})).toBe(1);
+  });
+});
@@ -2,7 +2,7 @@
  * Main ORM implementation
  */
 
-import { MongoClient } from 'mongodb';
+import { MongoClient, MongoError, type ClientSession } from 'mongodb';
 import type {
   OrmConfig,
   OrmContext,
@@ -12,11 +12,20 @@ import type {
   MizzleConfig,
   Mizzle,
   MizzleTransactionHelper,
+  MongoOrmTransaction,
 } from '../types/orm';
-import type { AnyRelation } from '../types/collection';
+import type { AnyRelation, CollectionDefinition } from '../types/collection';
 import { ObjectId } from 'mongodb';
 import { nanoid } from 'nanoid';
 import { CollectionFacade } from '../query/collection-facade';
+import { QueryGuard } from '../query/query-guard';
+import { CursorCodec } from '../query/pagination';
+import { EmbedOutbox, EmbedWorker } from '../query/embed-outbox';
+import { EmbedSync, type EmbedSyncOptions } from '../query/embed-sync';
+import type { ReverseEmbedTarget } from '../query/embed-propagation';
+import { resolveEmbedShape, type EmbedShape } from '../query/embed-shape';
+import { syncIndexes as syncDeclaredIndexes } from '../indexes/index-sync';
+import type { IndexSyncReport, SyncIndexesOptions } from '../types/indexes';
 
 /**
  * Helper function to create properly typed schema object.
@@ -83,11 +92,8 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
   }
 
   // Build reverse embed registry
-  // Maps: sourceCollectionName → Array<{ targetCollection, embedRelationName, config }>
-  const reverseEmbedRegistry = new Map<
-    string,
-    Array<{ targetCollectionName: string; relationName: string; config: any }>
-  >();
+  // Maps: sourceCollectionName → Array<{ targetCollection, embedRelationName, config, shape }>
+  const reverseEmbedRegistry = new Map<string, ReverseEmbedTarget[]>();
 
   for (const [_, targetCollectionDef] of Object.entries(config.collections)) {
     const relations = targetCollectionDef._meta.relations || {};
@@ -112,6 +118,11 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
             targetCollectionName: targetCollectionDef._meta.name,
             relationName,
             config: { ...embedRelation.forward, reverse: reverseConfig },
+            shape: resolveEmbedShape(
+              embedRelation.forward,
+              relationName,
+              targetCollectionDef._schema,
+            ),
           });
         }
       }
@@ -122,7 +133,14 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
   // Maps: sourceCollectionName → Array<{ targetCollection, relationName, deleteAction }>
   const deleteRegistry = new Map<
     string,
-    Array<{ targetCollectionName: string; relationName: string; config: any; deleteAction: string }>
+    Array<{
+      targetCollectionName: string;
+      targetCollectionDef: CollectionDefinition<any, any>;
+      relationName: string;
+      config: any;
+      shape: EmbedShape;
+      deleteAction: string;
+    }>
   >();
 
   for (const [_, targetCollectionDef] of Object.entries(config.collections)) {
@@ -141,8 +159,14 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
           }
           deleteRegistry.get(sourceCollectionName)!.push({
             targetCollectionName: targetCollectionDef._meta.name,
+            targetCollectionDef,
             relationName,
             config: embedRelation.forward,
+            shape: resolveEmbedShape(
+              embedRelation.forward,
+              relationName,
+              targetCollectionDef._schema,
+            ),
             deleteAction,
           });
         }
@@ -150,9 +174,55 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
     }
   }
 
+  // Build reference delete registry
+  // Maps: referencedCollectionName → Array<{ referencing collection, relationName, fields, onDelete }>
+  const referenceDeleteRegistry = new Map<
+    string,
+    Array<{
+      referencingCollectionDef: CollectionDefinition<any, any>;
+      relationName: string;
+      localField: string;
+      foreignField: string;
+      onDelete: 'cascade' | 'restrict' | 'set-null';
+    }>
+  >();
+
+  for (const [_, referencingCollectionDef] of Object.entries(config.collections)) {
+    const relations = referencingCollectionDef._meta.relations || {};
+    for (const [relationName, relation] of Object.entries(relations)) {
+      const typedRelation = relation as AnyRelation;
+      if (typedRelation.type === 'reference' && typedRelation.onDelete) {
+        const referencedCollectionName = typedRelation.targetCollection;
+        if (!referenceDeleteRegistry.has(referencedCollectionName)) {
+          referenceDeleteRegistry.set(referencedCollectionName, []);
+        }
+        referenceDeleteRegistry.get(referencedCollectionName)!.push({
+          referencingCollectionDef,
+          relationName,
+          localField: typedRelation.localField,
+          foreignField: typedRelation.foreignField,
+          onDelete: typedRelation.onDelete,
+        });
+      }
+    }
+  }
+
   // Collections are already in the right format
   const collections = config.collections;
 
+  // Dev guardrails (shared so each filter shape is explained once)
+  const queryGuard = new QueryGuard(config.devGuardrails);
+
+  // Pagination cursors (shared so cursors are valid across facades)
+  const cursorCodec = new CursorCodec(config.pagination?.cursorSecret);
+
+  // Async embed propagation (entries are written by facades, drained by the worker)
+  const embedOutbox = new EmbedOutbox(db, config.embedOutbox);
+  const embedWorker = new EmbedWorker(db, embedOutbox, reverseEmbedRegistry);
+
+  // Change-stream propagation (opt-in, see startEmbedSync)
+  const embedSync = new EmbedSync(db, reverseEmbedRegistry, embedOutbox);
+
   /**
    * Create a context object
    */
@@ -198,8 +268,13 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
         return new CollectionFacade(db, collectionDef, ctx, {
           reverseEmbedRegistry,
           deleteRegistry,
+          referenceDeleteRegistry,
           globalMiddlewares: config.middlewares || [],
           collectionMiddlewares: collectionDef._meta.middlewares || [],
+          queryGuard,
+          validation: config.validation,
+          cursorCodec,
+          embedOutbox,
         });
       },
     }) as DbFacade<TCollections>;
@@ -207,22 +282,61 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
 
   /**
    * Transaction helper
+   * Binds the session to every facade created in the callback and retries
+   * the callback on TransientTransactionError
    */
-  const tx: TransactionHelper = async (_ctx, fn) => {
+  const tx: TransactionHelper = async (ctx, fn, options = {}) => {
+    const {
+      maxRetries = 3,
+      backoff = (attempt: number) => 50 * Math.pow(2, attempt),
+      ...transactionOptions
+    } = options;
+
     const session = client.startSession();
+    const txOrm: MongoOrmTransaction = {
+      session,
+      withContext: (txCtx: OrmContext) => withContext({ ...ctx, ...txCtx, session }) as any,
+    };
+
     try {
-      return await session.withTransaction(async () => {
-        // const txCtx = { ...ctx, session };
-        const txOrm = {
-          withContext: (_ctx: OrmContext) => withContext(_ctx),
-        };
-        return await fn(txOrm as any);
-      });
+      for (let attempt = 0; ; attempt++) {
+        session.startTransaction(transactionOptions);
+        try {
+          const result = await fn(txOrm);
+          await commitWithRetry(session, maxRetries);
+          return result;
+        } catch (error) {
+          if (session.inTransaction()) {
+            await session.abortTransaction();
+          }
+          if (attempt < maxRetries && hasErrorLabel(error, 'TransientTransactionError')) {
+            await sleep(backoff(attempt));
+            continue;
+          }
+          throw error;
+        }
+      }
     } finally {
       await session.endSession();
     }
   };
 
+  /**
+   * Create, drop or rebuild indexes so the database matches the declared indexes
+   */
+  async function syncIndexes(options: SyncIndexesOptions = {}): Promise<IndexSyncReport> {
+    return syncDeclaredIndexes(db, config.collections, options);
+  }
+
+  /**
+   * Propagate reverse embeds from change streams on every source collection
+   * Covers writes that bypass the facades; requires a replica set
+   */
+  async function startEmbedSync(options?: EmbedSyncOptions): Promise<EmbedSync> {
+    await embedSync.start(options);
+    return embedSync;
+  }
+
   /**
    * Get raw MongoDB client
    */
@@ -235,6 +349,8 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
    * Only closes the client if it was created by this ORM instance
    */
   async function close(): Promise<void> {
+    await embedWorker.stop();
+    await embedSync.stop();
     if (clientOwned) {
       await client.close();
     }
@@ -244,12 +360,43 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
     createContext,
     withContext,
     tx,
+    syncIndexes,
+    embedWorker,
+    startEmbedSync,
     rawClient,
     close,
     collections,
   };
 }
 
+/**
+ * Commit a transaction, retrying on UnknownTransactionCommitResult
+ */
+async function commitWithRetry(session: ClientSession, maxRetries: number): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await session.commitTransaction();
+      return;
+    } catch (error) {
+      if (attempt < maxRetries && hasErrorLabel(error, 'UnknownTransactionCommitResult')) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Check whether an error carries a MongoDB error label
+ */
+function hasErrorLabel(error: unknown, label: string): boolean {
+  return error instanceof MongoError && error.hasErrorLabel(label);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 /**
  * Create a Mizzle database instance
  *
@@ -273,10 +420,13 @@ async function createMongoOrm<TCollections extends Record<string, any>>(
  * db.client        // Raw MongoClient
  * await db.close() // Cleanup
  *
- * // Transactions
+ * // Transactions (every facade created through txDb is bound to the session)
  * await db.tx({}, async (txDb) => {
  *   await txDb({}).users.create({ name: 'Bob' });
- * });
+ * }, { writeConcern: { w: 'majority' }, maxRetries: 5 });
+ *
+ * // Apply declared indexes
+ * await db.syncIndexes({ dropUnknown: true });
  * ```
  */
 export async function mizzle<TSchema extends Record<string, any>>(
@@ -291,6 +441,8 @@ export async function mizzle<TSchema extends Record<string, any>>(
     validation: config.validation,
     audit: config.audit,
     devGuardrails: config.devGuardrails,
+    pagination: config.pagination,
+    embedOutbox: config.embedOutbox,
     client: config.client,
     clientOptions: config.clientOptions,
   };
@@ -305,21 +457,28 @@ export async function mizzle<TSchema extends Record<string, any>>(
   };
 
   // Wrap the tx method to create callable transaction interface
-  const wrappedTx: MizzleTransactionHelper<TSchema> = async (ctx, fn) => {
-    return orm.tx(ctx, async (txOrm) => {
-      // Create a callable function for the transaction ORM
-      const txDbFunction = (txCtx?: Partial<OrmContext>) => {
-        const fullTxContext = orm.createContext(txCtx || {});
-        return txOrm.withContext(fullTxContext);
-      };
-      return fn(txDbFunction as any);
-    });
+  const wrappedTx: MizzleTransactionHelper<TSchema> = async (ctx, fn, options) => {
+    return orm.tx(
+      ctx as OrmContext,
+      async (txOrm) => {
+        // Create a callable function for the transaction ORM (session is bound by withContext)
+        const txDbFunction = (txCtx?: Partial<OrmContext>) => {
+          const fullTxContext = orm.createContext({ ...ctx, ...txCtx });
+          return txOrm.withContext(fullTxContext);
+        };
+        return fn(txDbFunction as any);
+      },
+      options,
+    );
   };
 
   // Attach properties to make it both callable and an object
   (dbFunction as any).schema = config.schema;
   (dbFunction as any).client = orm.rawClient();
   (dbFunction as any).tx = wrappedTx;
+  (dbFunction as any).syncIndexes = orm.syncIndexes;
+  (dbFunction as any).embedWorker = orm.embedWorker;
+  (dbFunction as any).startEmbedSync = orm.startEmbedSync;
   (dbFunction as any).close = orm.close.bind(orm);
   (dbFunction as any)._orm = orm;
 
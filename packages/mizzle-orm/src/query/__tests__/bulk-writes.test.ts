@@ -0,0 +1,189 @@
+/**
+ * Bulk write tests (hooks, policies and embed side effects of updateMany/deleteMany)
+ */
+
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, number, objectId } from '../../schema/fields';
+import { embed } from '../../collection/relations';
+import { PolicyDeniedError } from '../errors';
+
+afterAll(async () => {
+  await teardownTestDb();
+});
+
+const hookCalls: string[] = [];
+
+beforeEach(async () => {
+  await clearTestDb();
+  hookCalls.length = 0;
+});
+
+function defineCollections(mode: 'set' | 'per-document', withPolicies: boolean) {
+  const authors = mongoCollection(
+    'bulk_authors',
+    {
+      _id: objectId().internalId(),
+      name: string(),
+      rank: number().default(0),
+    },
+    {
+      bulkWrites: { mode, batchSize: 2 },
+      hooks: {
+        beforeUpdate: async (_ctx, oldDoc, update) => {
+          hookCalls.push(`beforeUpdate:${oldDoc.name}`);
+          return update;
+        },
+        afterUpdate: async (_ctx, _oldDoc, newDoc) => {
+          hookCalls.push(`afterUpdate:${newDoc.name}`);
+        },
+        afterDelete: async (_ctx, doc) => {
+          hookCalls.push(`afterDelete:${doc.name}`);
+        },
+        beforeUpdateMany: async (_ctx, _filter, update) => {
+          hookCalls.push('beforeUpdateMany');
+          return { ...update, $inc: { rank: 1 } };
+        },
+        afterUpdateMany: async (_ctx, _filter, modifiedCount) => {
+          hookCalls.push(`afterUpdateMany:${modifiedCount}`);
+        },
+        beforeDeleteMany: async () => {
+          hookCalls.push('beforeDeleteMany');
+        },
+        afterDeleteMany: async (_ctx, _filter, deletedCount) => {
+          hookCalls.push(`afterDeleteMany:${deletedCount}`);
+        },
+      },
+      policies: withPolicies
+        ? {
+            canUpdate: (_ctx, _oldDoc, update) => update.name !== 'Forbidden',
+            canDelete: (_ctx, doc) => doc.name !== 'Pinned',
+          }
+        : {},
+    },
+  );
+
+  const posts = mongoCollection(
+    'bulk_posts',
+    {
+      _id: objectId().internalId(),
+      title: string(),
+      authorId: objectId(),
+    },
+    {
+      relations: {
+        author: embed(authors, {
+          forward: { from: 'authorId', fields: ['name'] },
+          keepFresh: true,
+          onSourceDelete: 'cascade',
+        }),
+      },
+    },
+  );
+
+  return { authors, posts };
+}
+
+async function seed(mode: 'set' | 'per-document', withPolicies = mode === 'per-document') {
+  const db: any = await createTestOrm(defineCollections(mode, withPolicies));
+  for (const name of ['Alice', 'Bob', 'Carol']) {
+    const author = await db().authors.create({ name });
+    await db().posts.create({ title: `${name}'s post`, authorId: author._id });
+  }
+  hookCalls.length = 0;
+  return db;
+}
+
+describe("Bulk writes - 'set' mode (default)", () => {
+  it('should run bulk hooks once with the final update', async () => {
+    const db = await seed('set');
+
+    const modified = await db().authors.updateMany({}, { name: 'Anonymous' });
+
+    expect(modified).toBe(3);
+    expect(hookCalls).toEqual(['beforeUpdateMany', 'afterUpdateMany:3']);
+    const authors = await db().authors.findMany({});
+    expect(authors.map((a: any) => a.rank)).toEqual([1, 1, 1]);
+  });
+
+  it('should refresh reverse embeds for every updated document', async () => {
+    const db = await seed('set');
+
+    await db().authors.updateMany({ name: { $in: ['Alice', 'Carol'] } }, { name: 'Renamed' });
+
+    const posts = await db().posts.findMany({}, { sort: { title: 1 } });
+    expect(posts.map((p: any) => p.author?.name)).toEqual(['Renamed', 'Bob', 'Renamed']);
+  });
+
+  it('should apply onSourceDelete for every deleted document', async () => {
+    const db = await seed('set');
+
+    const deleted = await db().authors.deleteMany({ name: { $ne: 'Bob' } });
+
+    expect(deleted).toBe(2);
+    expect(hookCalls).toEqual(['beforeDeleteMany', 'afterDeleteMany:2']);
+    const posts = await db().posts.findMany({});
+    expect(posts.map((p: any) => p.title)).toEqual(["Bob's post"]);
+  });
+
+  it('should run per document when canUpdate or canDelete is declared', async () => {
+    const db = await seed('set', true);
+
+    await expect(db().authors.updateMany({}, { name: 'Forbidden' })).rejects.toThrow(
+      PolicyDeniedError,
+    );
+    hookCalls.length = 0;
+    await db().authors.updateMany({ name: 'Bob' }, { rank: 5 });
+    expect(hookCalls).toEqual(['beforeUpdate:Bob', 'afterUpdate:Bob']);
+
+    await db().authors.updateOne({ name: 'Bob' }, { name: 'Pinned' });
+    await expect(db().authors.deleteMany({})).rejects.toThrow('Delete not allowed by policy');
+  });
+});
+
+describe("Bulk writes - 'per-document' mode", () => {
+  it('should run update hooks for every document', async () => {
+    const db = await seed('per-document');
+
+    const modified = await db().authors.updateMany({ name: { $ne: 'Bob' } }, { rank: 5 });
+
+    expect(modified).toBe(2);
+    expect(hookCalls.sort()).toEqual([
+      'afterUpdate:Alice',
+      'afterUpdate:Carol',
+      'beforeUpdate:Alice',
+      'beforeUpdate:Carol',
+    ]);
+  });
+
+  it('should refresh reverse embeds for every updated document', async () => {
+    const db = await seed('per-document');
+
+    await db().authors.updateMany({}, { name: 'Renamed' });
+
+    const posts = await db().posts.findMany({});
+    expect(posts.map((p: any) => p.author?.name)).toEqual(['Renamed', 'Renamed', 'Renamed']);
+  });
+
+  it('should enforce canUpdate and canDelete per document', async () => {
+    const db = await seed('per-document');
+
+    await expect(db().authors.updateMany({}, { name: 'Forbidden' })).rejects.toThrow(
+      PolicyDeniedError,
+    );
+
+    await db().authors.updateOne({ name: 'Bob' }, { name: 'Pinned' });
+    await expect(db().authors.deleteMany({})).rejects.toThrow('Delete not allowed by policy');
+  });
+
+  it('should run delete hooks and cascades for every document', async () => {
+    const db = await seed('per-document');
+
+    const deleted = await db().authors.deleteMany({});
+
+    expect(deleted).toBe(3);
+    expect(hookCalls.sort()).toEqual(['afterDelete:Alice', 'afterDelete:Bob', 'afterDelete:Carol']);
+    expect(await db().posts.count({})).toBe(0);
+  });
+});
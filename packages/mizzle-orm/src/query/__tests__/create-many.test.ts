@@ -0,0 +1,184 @@
+/**
+ * createMany() bulk insert tests
+ */
+
+import { describe, it, expect, afterAll, beforeEach, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, objectId, publicId, date } from '../../schema/fields';
+import { embed, reference } from '../../collection/relations';
+
+afterAll(async () => {
+  await teardownTestDb();
+});
+
+beforeEach(async () => {
+  await clearTestDb();
+});
+
+const hookCalls: string[] = [];
+
+const authors = mongoCollection('authors', {
+  _id: objectId().internalId(),
+  id: publicId('author'),
+  name: string(),
+  email: string().unique(),
+});
+
+const posts = mongoCollection(
+  'posts',
+  {
+    _id: objectId().internalId(),
+    id: publicId('post'),
+    title: string(),
+    slug: string().optional(),
+    authorId: objectId(),
+    createdAt: date().defaultNow(),
+  },
+  {
+    relations: {
+      author: embed(authors, {
+        forward: {
+          from: 'authorId',
+          projection: { name: 1 },
+        },
+      }),
+      authorRef: reference(authors, {
+        localField: 'authorId',
+        foreignField: '_id',
+      }),
+    },
+    hooks: {
+      beforeInsert: async (_ctx, doc) => {
+        hookCalls.push(`beforeInsert:${doc.title}`);
+        return { ...doc, slug: doc.title.toLowerCase() };
+      },
+      afterInsert: async (_ctx, doc) => {
+        hookCalls.push(`afterInsert:${doc.title}`);
+      },
+    },
+    policies: {
+      canInsert: async (_ctx, doc) => doc.title !== 'Forbidden',
+    },
+  },
+);
+
+describe('createMany()', () => {
+  beforeEach(() => {
+    hookCalls.length = 0;
+  });
+
+  it('should return an empty array for no documents', async () => {
+    const db = await createTestOrm({ authors, posts });
+
+    expect(await db().authors.createMany([])).toEqual([]);
+  });
+
+  it('should insert documents with defaults and public IDs', async () => {
+    const db = await createTestOrm({ authors, posts });
+
+    const created = await db().authors.createMany([
+      { name: 'Alice', email: 'alice@example.com' },
+      { name: 'Bob', email: 'bob@example.com' },
+    ]);
+
+    expect(created).toHaveLength(2);
+    expect(created[0]!._id).toBeInstanceOf(ObjectId);
+    expect(created[0]!.id).toMatch(/^author_/);
+    expect(created[1]!.name).toBe('Bob');
+    expect(await db().authors.count({})).toBe(2);
+  });
+
+  it('should run hooks for every document', async () => {
+    const db = await createTestOrm({ authors, posts });
+    const author = await db().authors.create({ name: 'Alice', email: 'alice@example.com' });
+
+    const created = await db().posts.createMany([
+      { title: 'First', authorId: author._id },
+      { title: 'Second', authorId: author._id },
+    ]);
+
+    expect(created.map((post) => post.slug)).toEqual(['first', 'second']);
+    expect(hookCalls).toEqual([
+      'beforeInsert:First',
+      'beforeInsert:Second',
+      'afterInsert:First',
+      'afterInsert:Second',
+    ]);
+  });
+
+  it('should batch forward embed lookups into one query per relation', async () => {
+    const db = await createTestOrm({ authors, posts });
+    const [alice, bob] = await db().authors.createMany([
+      { name: 'Alice', email: 'alice@example.com' },
+      { name: 'Bob', email: 'bob@example.com' },
+    ]);
+
+    const authorsCollection = db().authors.rawCollection();
+    const findSpy = vi.spyOn(
+      Object.getPrototypeOf(authorsCollection) as { find: (...args: any[]) => any },
+      'find',
+    );
+
+    const created = await db().posts.createMany([
+      { title: 'A1', authorId: alice!._id },
+      { title: 'B1', authorId: bob!._id },
+      { title: 'A2', authorId: alice!._id },
+    ]);
+    const authorQueries = findSpy.mock.contexts.filter(
+      (collection: any) => collection.collectionName === 'authors',
+    );
+    findSpy.mockRestore();
+
+    // One for reference validation, one for the embed
+    expect(authorQueries).toHaveLength(2);
+    expect(created.map((post: any) => post.author.name)).toEqual(['Alice', 'Bob', 'Alice']);
+  });
+
+  it('should reject the batch if any reference is invalid', async () => {
+    const db = await createTestOrm({ authors, posts });
+    const author = await db().authors.create({ name: 'Alice', email: 'alice@example.com' });
+
+    await expect(
+      db().posts.createMany([
+        { title: 'Valid', authorId: author._id },
+        { title: 'Dangling', authorId: new ObjectId() },
+      ]),
+    ).rejects.toThrow('Invalid reference');
+
+    expect(await db().posts.count({})).toBe(0);
+  });
+
+  it('should reject the batch if a policy denies any document', async () => {
+    const db = await createTestOrm({ authors, posts });
+    const author = await db().authors.create({ name: 'Alice', email: 'alice@example.com' });
+
+    await expect(
+      db().posts.createMany([
+        { title: 'Allowed', authorId: author._id },
+        { title: 'Forbidden', authorId: author._id },
+      ]),
+    ).rejects.toThrow('Insert not allowed by policy');
+
+    expect(await db().posts.count({})).toBe(0);
+  });
+
+  it('should continue past duplicates with ordered: false', async () => {
+    const db = await createTestOrm({ authors, posts });
+    await db().authors.rawCollection().createIndex({ email: 1 }, { unique: true });
+
+    await expect(
+      db().authors.createMany(
+        [
+          { name: 'Alice', email: 'alice@example.com' },
+          { name: 'Duplicate', email: 'alice@example.com' },
+          { name: 'Bob', email: 'bob@example.com' },
+        ],
+        { ordered: false },
+      ),
+    ).rejects.toThrow();
+
+    expect(await db().authors.count({})).toBe(2);
+  });
+});
@@ -236,6 +236,72 @@ describe('CRUD Operations', () => {
 
       expect(updated?.name).toBe('Updated');
     });
+
+    it('should create the document with { upsert: true }', async () => {
+
+      const created = await db().users.updateOne(
+        { email: 'new@example.com' },
+        { name: 'New' },
+        { upsert: true },
+      );
+
+      expect(created?.email).toBe('new@example.com');
+      expect(created?.id).toMatch(/^user_/);
+      expect(await db().users.count({})).toBe(1);
+    });
+  });
+
+  describe('upsert()', () => {
+    it('should insert when nothing matches', async () => {
+
+      const result = await db().users.upsert(
+        { email: 'webhook@example.com' },
+        {
+          create: { name: 'Created', email: 'webhook@example.com' },
+          update: { name: 'Updated' },
+        },
+      );
+
+      expect(result.inserted).toBe(true);
+      expect(result.doc.name).toBe('Created');
+      expect(result.doc._id).toBeInstanceOf(ObjectId);
+      expect(result.doc.id).toMatch(/^user_/);
+      expect(result.doc.createdAt).toBeInstanceOf(Date);
+      expect(result.doc.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should update when a document matches', async () => {
+
+      const user = await db().users.create({ name: 'Original', email: 'webhook@example.com' });
+
+      const result = await db().users.upsert(
+        { email: 'webhook@example.com' },
+        {
+          create: { name: 'Created', email: 'webhook@example.com' },
+          update: { name: 'Updated' },
+        },
+      );
+
+      expect(result.inserted).toBe(false);
+      expect(result.doc._id.equals(user._id)).toBe(true);
+      expect(result.doc.name).toBe('Updated');
+      expect(result.doc.id).toBe(user.id);
+      expect(result.doc.createdAt).toEqual(user.createdAt);
+      expect(result.doc.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should be idempotent', async () => {
+
+      const data = {
+        create: { name: 'Once', email: 'once@example.com' },
+        update: { name: 'Once' },
+      };
+
+      await db().users.upsert({ email: 'once@example.com' }, data);
+      await db().users.upsert({ email: 'once@example.com' }, data);
+
+      expect(await db().users.count({ email: 'once@example.com' })).toBe(1);
+    });
   });
 
   describe('updateMany()', () => {
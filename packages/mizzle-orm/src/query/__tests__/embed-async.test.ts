@@ -71,8 +71,8 @@ describe('Async Propagation Strategy', () => {
     const postImmediately = await db().posts.findById(post._id);
     expect(postImmediately?.author?.name).toBe('Alice'); // Still old data
 
-    // Wait for async propagation to complete
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    // Process the embed outbox
+    await db.embedWorker.drain();
 
     // Now the embedded data should be updated
     const postAfterAsync = await db().posts.findById(post._id);
@@ -0,0 +1,122 @@
+/**
+ * Embed staleness tests (snapshot stamps, checkEmbeds and refreshEmbeds({ onlyStale }))
+ */
+
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, date, objectId } from '../../schema/fields';
+import { embed } from '../../collection/relations';
+
+afterAll(async () => {
+  await teardownTestDb();
+});
+
+beforeEach(async () => {
+  await clearTestDb();
+});
+
+const authors = mongoCollection('check_authors', {
+  _id: objectId().internalId(),
+  name: string(),
+  updatedAt: date().defaultNow().onUpdateNow(),
+});
+
+const posts = mongoCollection(
+  'check_posts',
+  {
+    _id: objectId().internalId(),
+    title: string(),
+    authorId: objectId(),
+  },
+  {
+    relations: {
+      author: embed(authors, {
+        forward: { from: 'authorId', projection: { name: 1 }, stamp: true },
+        keepFresh: true,
+      }),
+    },
+  },
+);
+
+async function seed() {
+  const db: any = await createTestOrm({ authors, posts });
+  const alice = await db().authors.create({ name: 'Alice' });
+  const bob = await db().authors.create({ name: 'Bob' });
+  const carol = await db().authors.create({ name: 'Carol' });
+  const healthy = await db().posts.create({ title: 'Healthy', authorId: alice._id });
+  const stale = await db().posts.create({ title: 'Stale', authorId: bob._id });
+  const orphaned = await db().posts.create({ title: 'Orphaned', authorId: carol._id });
+  const missing = await db().posts.create({ title: 'Missing', authorId: alice._id });
+
+  // Break snapshots behind the ORM's back
+  const rawAuthors = db().authors.rawCollection();
+  await rawAuthors.updateOne(
+    { _id: bob._id },
+    { $set: { name: 'Robert', updatedAt: new Date(Date.now() + 1000) } },
+  );
+  await rawAuthors.deleteOne({ _id: carol._id });
+  await db()
+    .posts.rawCollection()
+    .updateOne({ _id: missing._id }, { $unset: { author: '' } });
+
+  return { db, alice, bob, carol, posts: { healthy, stale, orphaned, missing } };
+}
+
+describe('Embed snapshot stamps', () => {
+  it('should stamp snapshots with _embeddedAt and the source revision', async () => {
+    const db: any = await createTestOrm({ authors, posts });
+    const author = await db().authors.create({ name: 'Alice' });
+    const post = await db().posts.create({ title: 'Hello', authorId: author._id });
+
+    expect(post.author._embeddedAt).toBeInstanceOf(Date);
+    expect(post.author._revision).toEqual(author.updatedAt);
+
+    const updated = await db().authors.updateById(author._id, { name: 'Alice Smith' });
+
+    const refreshed = await db().posts.findById(post._id);
+    expect(refreshed.author).toMatchObject({ name: 'Alice Smith', _revision: updated.updatedAt });
+  });
+});
+
+describe('checkEmbeds', () => {
+  it('should report stale, orphaned and missing snapshots', async () => {
+    const { db, bob, carol, alice, posts: seeded } = await seed();
+
+    const report = await db().posts.checkEmbeds('author');
+
+    expect(report).toMatchObject({
+      relation: 'author',
+      checked: 4,
+      healthy: 1,
+      stale: 1,
+      orphaned: 1,
+      missing: 1,
+    });
+    expect(report.issues).toEqual(
+      expect.arrayContaining([
+        { _id: seeded.stale._id, sourceId: bob._id.toHexString(), status: 'stale' },
+        { _id: seeded.orphaned._id, sourceId: carol._id.toHexString(), status: 'orphaned' },
+        { _id: seeded.missing._id, sourceId: alice._id.toHexString(), status: 'missing' },
+      ]),
+    );
+    expect((await db().posts.checkEmbeds('author', { limit: 1 })).issues).toHaveLength(1);
+  });
+
+  it('should only rewrite stale and missing snapshots with onlyStale', async () => {
+    const { db, posts: seeded } = await seed();
+    const before = await db().posts.findById(seeded.healthy._id);
+
+    const stats = await db().posts.refreshEmbeds('author', { onlyStale: true });
+
+    expect(stats).toMatchObject({ matched: 4, updated: 2, skipped: 2 });
+    expect((await db().posts.findById(seeded.stale._id)).author.name).toBe('Robert');
+    expect((await db().posts.findById(seeded.missing._id)).author.name).toBe('Alice');
+    expect((await db().posts.findById(seeded.healthy._id)).author._embeddedAt).toEqual(
+      before.author._embeddedAt,
+    );
+
+    const report = await db().posts.checkEmbeds('author');
+    expect(report).toMatchObject({ healthy: 3, stale: 0, missing: 0, orphaned: 1 });
+  });
+});
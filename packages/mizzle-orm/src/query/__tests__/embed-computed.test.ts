@@ -0,0 +1,129 @@
+/**
+ * Computed embed fields tests (forward.map)
+ */
+
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, objectId } from '../../schema/fields';
+import { embed } from '../../collection/relations';
+import type { InferDocument } from '../../types/inference';
+
+afterAll(async () => {
+  await teardownTestDb();
+});
+
+beforeEach(async () => {
+  await clearTestDb();
+});
+
+const users = mongoCollection('computed_users', {
+  _id: objectId().internalId(),
+  firstName: string(),
+  lastName: string(),
+  avatarKey: string(),
+});
+
+const posts = mongoCollection(
+  'computed_posts',
+  {
+    _id: objectId().internalId(),
+    title: string(),
+    authorId: objectId(),
+  },
+  {
+    relations: {
+      author: embed(users, {
+        forward: {
+          from: 'authorId',
+          projection: { firstName: 1 },
+          map: (user, ctx) => ({
+            fullName: `${user.firstName} ${user.lastName}`,
+            avatarUrl: `https://cdn.example.com/${user.avatarKey}`,
+            viewer: ctx.user?.id ?? null,
+          }),
+        },
+        keepFresh: true,
+      }),
+    },
+  },
+);
+
+describe('Computed embed fields', () => {
+  it('should type the computed fields alongside the projection', () => {
+    type Author = NonNullable<InferDocument<typeof posts>['author']>;
+    const author: Author = {
+      _id: 'id',
+      firstName: 'Ada',
+      fullName: 'Ada Lovelace',
+      avatarUrl: 'https://cdn.example.com/ada.png',
+      viewer: null,
+    };
+    expect(author.fullName).toBe('Ada Lovelace');
+  });
+
+  it('should compute fields on create with the request context', async () => {
+    const db = await createTestOrm({ users, posts });
+    const user = await db().users.create({
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      avatarKey: 'ada.png',
+    });
+
+    const post = await db({ user: { id: 'editor-1' } }).posts.create({
+      title: 'Notes',
+      authorId: user._id,
+    });
+
+    expect(post.author).toEqual({
+      _id: user._id.toHexString(),
+      firstName: 'Ada',
+      fullName: 'Ada Lovelace',
+      avatarUrl: 'https://cdn.example.com/ada.png',
+      viewer: 'editor-1',
+    });
+    expect(post.author).not.toHaveProperty('lastName');
+  });
+
+  it('should recompute fields when the source changes', async () => {
+    const db = await createTestOrm({ users, posts });
+    const user = await db().users.create({
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      avatarKey: 'ada.png',
+    });
+    const post = await db().posts.create({ title: 'Notes', authorId: user._id });
+
+    await db().users.updateById(user._id, { lastName: 'King', avatarKey: 'king.png' });
+
+    const updated = await db().posts.findById(post._id);
+    expect(updated?.author).toMatchObject({
+      fullName: 'Ada King',
+      avatarUrl: 'https://cdn.example.com/king.png',
+    });
+  });
+
+  it('should recompute fields on refreshEmbeds', async () => {
+    const db = await createTestOrm({ users, posts });
+    const user = await db().users.create({
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      avatarKey: 'ada.png',
+    });
+    const post = await db().posts.create({ title: 'Notes', authorId: user._id });
+
+    // Change the source behind the ORM's back
+    await db()
+      .users.rawCollection()
+      .updateOne({ _id: user._id }, { $set: { firstName: 'Augusta' } });
+
+    const stats = await db().posts.refreshEmbeds('author');
+
+    expect(stats.updated).toBe(1);
+    const refreshed = await db().posts.findById(post._id);
+    expect(refreshed?.author).toMatchObject({
+      firstName: 'Augusta',
+      fullName: 'Augusta Lovelace',
+    });
+  });
+});
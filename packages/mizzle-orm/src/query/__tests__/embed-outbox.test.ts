@@ -0,0 +1,212 @@
+/**
+ * Embed outbox tests (durable async propagation, worker retries and resumable runs)
+ */
+
+import { describe, it, expect, afterAll, beforeEach, vi } from 'vitest';
+import { teardownTestDb, clearTestDb, createTestOrm, setupTestDb } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, objectId } from '../../schema/fields';
+import { embed } from '../../collection/relations';
+import { mizzle } from '../../orm/orm';
+import { DEFAULT_EMBED_OUTBOX_COLLECTION } from '../embed-outbox';
+
+afterAll(async () => {
+  await teardownTestDb();
+});
+
+beforeEach(async () => {
+  await clearTestDb();
+});
+
+function defineCollections(reverse: Record<string, unknown>) {
+  const authors = mongoCollection('outbox_authors', {
+    _id: objectId().internalId(),
+    name: string(),
+  });
+
+  const posts = mongoCollection(
+    'outbox_posts',
+    {
+      _id: objectId().internalId(),
+      title: string(),
+      authorId: objectId(),
+    },
+    {
+      relations: {
+        author: embed(authors, {
+          forward: { from: 'authorId', fields: ['name'] },
+          reverse: { enabled: true, ...reverse },
+        }),
+      },
+    },
+  );
+
+  return { authors, posts };
+}
+
+async function seed(db: any, postCount = 1) {
+  const author = await db().authors.create({ name: 'Alice' });
+  for (let i = 0; i < postCount; i++) {
+    await db().posts.create({ title: `Post ${i}`, authorId: author._id });
+  }
+  return author;
+}
+
+async function embeddedNames(db: any): Promise<string[]> {
+  const posts = await db().posts.findMany({}, { sort: { title: 1 } });
+  return posts.map((p: any) => p.author?.name);
+}
+
+describe('Embed outbox', () => {
+  it('should queue async propagation and apply it on drain', async () => {
+    const db: any = await createTestOrm(defineCollections({ strategy: 'async' }));
+    const author = await seed(db, 2);
+
+    await db().authors.updateById(author._id, { name: 'Alice Smith' });
+    await db().authors.updateById(author._id, { name: 'Alice Jones' });
+
+    expect(await embeddedNames(db)).toEqual(['Alice', 'Alice']);
+    expect((await db.embedWorker.metrics()).pending).toBe(1); // Coalesced
+
+    expect(await db.embedWorker.drain()).toBe(1);
+
+    expect(await embeddedNames(db)).toEqual(['Alice Jones', 'Alice Jones']);
+    expect(await db.embedWorker.metrics()).toMatchObject({ processed: 1, pending: 0, dead: 0 });
+  });
+
+  it('should write outbox entries in the source update transaction', async () => {
+    const db: any = await createTestOrm(defineCollections({ strategy: 'async' }));
+    const author = await seed(db);
+
+    await expect(
+      db.tx({}, async (txDb: any) => {
+        await txDb().authors.updateById(author._id, { name: 'Rolled back' });
+        throw new Error('abort');
+      }),
+    ).rejects.toThrow('abort');
+    expect((await db.embedWorker.metrics()).pending).toBe(0);
+
+    await db.tx({}, async (txDb: any) => {
+      await txDb().authors.updateById(author._id, { name: 'Committed' });
+    });
+    expect((await db.embedWorker.metrics()).pending).toBe(1);
+
+    await db.embedWorker.drain();
+    expect(await embeddedNames(db)).toEqual(['Committed']);
+  });
+
+  it('should process entries in the background once started', async () => {
+    const db: any = await createTestOrm(defineCollections({ strategy: 'async' }));
+    const author = await seed(db);
+
+    await db.embedWorker.start({ concurrency: 2, pollInterval: 10 });
+    await db().authors.updateById(author._id, { name: 'Background' });
+
+    for (let i = 0; i < 50 && (await db.embedWorker.metrics()).processed === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    await db.embedWorker.stop();
+
+    expect(await embeddedNames(db)).toEqual(['Background']);
+    expect((await db.embedWorker.metrics()).running).toBe(false);
+  });
+
+  it('should honor batchSize and maxUpdates and resume through the outbox', async () => {
+    const db: any = await createTestOrm(defineCollections({ batchSize: 2, maxUpdates: 3 }));
+    const author = await seed(db, 5);
+
+    await db().authors.updateById(author._id, { name: 'Renamed' });
+
+    const names = await embeddedNames(db);
+    expect(names.filter((name) => name === 'Renamed')).toHaveLength(3);
+    expect((await db.embedWorker.metrics()).pending).toBe(1);
+
+    await db.embedWorker.drain();
+
+    expect(await embeddedNames(db)).toEqual(Array(5).fill('Renamed'));
+  });
+
+  it('should retry failed entries with backoff and dead-letter them', async () => {
+    const { uri, db: rawDb } = await setupTestDb();
+    const db: any = await mizzle({
+      uri,
+      dbName: 'test',
+      schema: defineCollections({ strategy: 'async' }),
+      embedOutbox: { maxAttempts: 2, backoff: () => 0 },
+    });
+
+    try {
+      // Entry for a relation that is not registered - propagation throws
+      await rawDb.collection(DEFAULT_EMBED_OUTBOX_COLLECTION).insertOne({
+        sourceCollection: 'outbox_authors',
+        sourceId: 'missing',
+        targetCollection: 'outbox_posts',
+        relationName: 'unknown',
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        createdAt: new Date(),
+      });
+
+      expect(await db.embedWorker.drain()).toBe(2);
+
+      expect(await db.embedWorker.metrics()).toMatchObject({
+        retried: 1,
+        deadLettered: 1,
+        pending: 0,
+        dead: 1,
+      });
+      const [dead] = await db.embedWorker.deadLetters();
+      expect(dead).toMatchObject({ attempts: 2, relationName: 'unknown' });
+      expect(dead.lastError).toContain("No reverse embed 'outbox_posts.unknown'");
+
+      expect(await db.embedWorker.retryDeadLetters()).toBe(1);
+      expect((await db.embedWorker.metrics()).pending).toBe(1);
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should warn once when entries are queued without a running worker', async () => {
+    const { uri } = await setupTestDb();
+    const warn = vi.fn();
+    const db: any = await mizzle({
+      uri,
+      dbName: 'test',
+      schema: defineCollections({ strategy: 'async' }),
+      embedOutbox: { logger: { warn } },
+    });
+
+    try {
+      const author = await seed(db);
+      await db().authors.updateById(author._id, { name: 'Alice Smith' });
+      await db().authors.updateById(author._id, { name: 'Alice Jones' });
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]?.[0]).toContain('db.embedWorker is not running');
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should not warn once the worker drains the outbox', async () => {
+    const { uri } = await setupTestDb();
+    const warn = vi.fn();
+    const db: any = await mizzle({
+      uri,
+      dbName: 'test',
+      schema: defineCollections({ strategy: 'async' }),
+      embedOutbox: { logger: { warn } },
+    });
+
+    try {
+      const author = await seed(db);
+      await db.embedWorker.drain();
+      await db().authors.updateById(author._id, { name: 'Alice Smith' });
+
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      await db.close();
+    }
+  });
+});
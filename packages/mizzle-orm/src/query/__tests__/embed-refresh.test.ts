@@ -3,10 +3,12 @@
  * Tests query-time refresh and manual batch refresh functionality
  */
 
-import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { describe, it, expect, afterAll, beforeEach, vi } from 'vitest';
 import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
 import { mongoCollection } from '../../collection/collection';
-import { string, objectId } from '../../schema/fields';
+import { string, object, objectId } from '../../schema/fields';
+import { MAX_CHECKPOINT_ERRORS, REFRESH_CHECKPOINT_COLLECTION } from '../embed-check';
+import { CollectionFacade } from '../collection-facade';
 import { embed } from '../../collection/relations';
 
 afterAll(async () => {
@@ -198,7 +200,7 @@ describe('Manual Batch Refresh (Persist Updates)', () => {
 
     expect(stats.matched).toBe(1);
     expect(stats.updated).toBe(1);
-    expect(stats.errors).toBe(0);
+    expect(stats.errors).toEqual([]);
 
     // Verify updates were persisted
     const post = await db().posts.findOne({});
@@ -328,3 +330,201 @@ describe('Manual Batch Refresh (Persist Updates)', () => {
     expect(post?.author?.name).toBe('Eve'); // Still old value
   });
 });
+
+describe('Resumable Batch Refresh', () => {
+  const authors = mongoCollection('authors', {
+    _id: objectId().internalId(),
+    name: string(),
+  });
+
+  const posts = mongoCollection(
+    'posts',
+    {
+      _id: objectId().internalId(),
+      title: string(),
+      authorId: objectId(),
+    },
+    {
+      relations: {
+        author: embed(authors, { forward: { from: 'authorId', projection: { name: 1 } } }),
+      },
+    },
+  );
+
+  async function seed(postCount: number) {
+    const db = await createTestOrm({ authors, posts });
+    const author = await db().authors.create({ name: 'Frank' });
+    for (let i = 0; i < postCount; i++) {
+      await db().posts.create({ title: `Post ${i}`, authorId: author._id });
+    }
+    await db().authors.rawCollection().updateOne(
+      { _id: author._id },
+      { $set: { name: 'Frank Updated' } },
+    );
+    return db;
+  }
+
+  it('should report progress per batch with concurrency', async () => {
+    const db = await seed(5);
+    const progress: number[] = [];
+
+    const stats = await db().posts.refreshEmbeds('author', {
+      batchSize: 1,
+      concurrency: 3,
+      onProgress: (p) => {
+        progress.push(p.matched);
+      },
+    });
+
+    expect(stats).toMatchObject({ matched: 5, updated: 5, skipped: 0, errors: [] });
+    expect(progress).toEqual([...progress].sort((a, b) => a - b)); // Never moves backwards
+    expect(progress[progress.length - 1]).toBe(5);
+    const refreshed = await db().posts.findMany({});
+    expect(refreshed.every((post: any) => post.author.name === 'Frank Updated')).toBe(true);
+  });
+
+  it('should resume from the saved checkpoint', async () => {
+    const db = await seed(5);
+
+    await expect(
+      db().posts.refreshEmbeds('author', {
+        batchSize: 2,
+        checkpoint: 'nightly',
+        onProgress: () => {
+          throw new Error('crash');
+        },
+      }),
+    ).rejects.toThrow('crash');
+
+    const lastIds: unknown[] = [];
+    const stats = await db().posts.refreshEmbeds('author', {
+      batchSize: 2,
+      checkpoint: 'nightly',
+      onProgress: (p) => {
+        lastIds.push(p.lastId);
+      },
+    });
+
+    expect(lastIds).toHaveLength(2); // Batches 2 and 3 only
+    expect(stats).toMatchObject({ matched: 5, updated: 5 });
+    const checkpoints = db.client.db('test').collection(REFRESH_CHECKPOINT_COLLECTION);
+    expect(await checkpoints.countDocuments({})).toBe(0);
+  });
+
+  it('should fail the run and keep the checkpoint when a concurrent batch throws', async () => {
+    const db = await seed(5);
+    const refreshBatch = (CollectionFacade.prototype as any).refreshEmbedBatch;
+    let calls = 0;
+    const spy = vi
+      .spyOn(CollectionFacade.prototype as any, 'refreshEmbedBatch')
+      .mockImplementation(async function (this: unknown, ...args: unknown[]) {
+        if (++calls === 2) throw new Error('batch failed');
+        return refreshBatch.apply(this, args);
+      });
+
+    try {
+      await expect(
+        db().posts.refreshEmbeds('author', { batchSize: 2, concurrency: 2, checkpoint: 'nightly' }),
+      ).rejects.toThrow('batch failed');
+    } finally {
+      spy.mockRestore();
+    }
+
+    const checkpoints = db.client.db('test').collection(REFRESH_CHECKPOINT_COLLECTION);
+    const saved = await checkpoints.findOne({});
+    expect(saved?.stats).toMatchObject({ matched: 2, updated: 2 }); // Batch 1 only
+
+    const stats = await db().posts.refreshEmbeds('author', { batchSize: 2, checkpoint: 'nightly' });
+
+    expect(stats).toMatchObject({ matched: 5, updated: 5, errors: [] });
+    expect(await checkpoints.countDocuments({})).toBe(0);
+  });
+
+  it('should cap the errors stored in the checkpoint', async () => {
+    const db = await seed(1);
+    const spy = vi
+      .spyOn(CollectionFacade.prototype as any, 'refreshEmbedBatch')
+      .mockImplementation(async () => ({
+        matched: 1,
+        updated: 0,
+        skipped: 0,
+        errors: Array.from({ length: 150 }, (_, i) => ({ _id: i, error: 'failed' })),
+      }));
+
+    try {
+      await expect(
+        db().posts.refreshEmbeds('author', {
+          checkpoint: 'nightly',
+          onProgress: () => {
+            throw new Error('crash');
+          },
+        }),
+      ).rejects.toThrow('crash');
+    } finally {
+      spy.mockRestore();
+    }
+
+    const checkpoints = db.client.db('test').collection(REFRESH_CHECKPOINT_COLLECTION);
+    const saved = await checkpoints.findOne({});
+    expect(saved?.stats.errors).toHaveLength(MAX_CHECKPOINT_ERRORS);
+    expect(saved?.errorCount).toBe(150);
+  });
+
+  it('should collect failed documents in errors', async () => {
+    const db = await seed(2);
+    const [first, second] = await db().posts.findMany({}, { sort: { _id: 1 } });
+    const raw = db().posts.rawCollection();
+    await raw.updateOne({ _id: second!._id }, { $set: { 'author.name': 'Other' } });
+    await raw.createIndex({ 'author.name': 1 }, { unique: true });
+
+    try {
+      const stats = await db().posts.refreshEmbeds('author');
+
+      expect(stats.updated).toBe(1);
+      expect(stats.errors).toEqual([
+        { _id: second!._id, error: expect.stringContaining('E11000') },
+      ]);
+      expect((await db().posts.findById(first!._id))?.author).toMatchObject({
+        name: 'Frank Updated',
+      });
+    } finally {
+      await raw.dropIndex('author.name_1');
+    }
+  });
+
+  it('should write back in-place embeds', async () => {
+    const directories = mongoCollection('directories', {
+      _id: objectId().internalId(),
+      name: string(),
+    });
+
+    const workflows = mongoCollection(
+      'workflows',
+      {
+        _id: objectId().internalId(),
+        directory: object({ _id: objectId(), name: string().optional() }),
+      },
+      {
+        relations: {
+          directoryEmbed: embed(directories, {
+            forward: { from: 'directory._id', projection: { name: 1 } },
+          }),
+        },
+      },
+    );
+
+    const db = await createTestOrm({ directories, workflows });
+    const directory = await db().directories.create({ name: 'Legal' });
+    const workflow = await db().workflows.create({ directory: { _id: directory._id } });
+    await db().directories.rawCollection().updateOne(
+      { _id: directory._id },
+      { $set: { name: 'Legal Department' } },
+    );
+
+    const stats = await db().workflows.refreshEmbeds('directoryEmbed');
+
+    expect(stats.updated).toBe(1);
+    const refreshed = await db().workflows.findById(workflow._id);
+    expect(refreshed?.directory).toEqual({ _id: directory._id, name: 'Legal Department' });
+  });
+});
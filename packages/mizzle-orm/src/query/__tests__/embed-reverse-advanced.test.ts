@@ -168,4 +168,54 @@ describe('Reverse Embeds - In-Place Strategy', () => {
     expect(refreshedWorkflow?.directory._id).toEqual(directory._id);
 
   });
+
+  it('should update in-place embeds inside nested arrays for every path', async () => {
+    const documents = mongoCollection('documents', {
+      _id: objectId().internalId(),
+      title: string(),
+    });
+
+    const workflows = mongoCollection(
+      'workflows',
+      {
+        _id: objectId().internalId(),
+        workflow: object({
+          required: array(object({ ref: object({ _id: objectId(), title: string().optional() }) })),
+          optional: array(object({ ref: object({ _id: objectId(), title: string().optional() }) })),
+        }),
+      },
+      {
+        relations: {
+          documentRefs: embed(documents, {
+            forward: {
+              paths: ['workflow.required[].ref._id', 'workflow.optional[].ref._id'],
+              fields: ['title'],
+            },
+            keepFresh: true,
+          }),
+        },
+      },
+    );
+
+    const db = await createTestOrm({ documents, workflows });
+
+    const contract = await db().documents.create({ title: 'Contract' });
+    const invoice = await db().documents.create({ title: 'Invoice' });
+
+    const workflow = await db().workflows.create({
+      workflow: {
+        required: [{ ref: { _id: contract._id } }, { ref: { _id: invoice._id } }],
+        optional: [{ ref: { _id: contract._id } }],
+      },
+    });
+
+    await db().documents.updateById(contract._id, { title: 'Signed Contract' });
+
+    const refreshed = await db().workflows.findById(workflow._id);
+    expect(refreshed?.workflow.required.map((item) => item.ref.title)).toEqual([
+      'Signed Contract',
+      'Invoice',
+    ]);
+    expect(refreshed?.workflow.optional[0]?.ref.title).toBe('Signed Contract');
+  });
 });
@@ -7,6 +7,7 @@ import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
 import { mongoCollection } from '../../collection/collection';
 import { string, objectId } from '../../schema/fields';
 import { embed } from '../../collection/relations';
+import { shouldPropagateUpdate } from '../embed-propagation';
 
 afterAll(async () => {
   await teardownTestDb();
@@ -164,3 +165,13 @@ describe('Reverse Embeds - keepFresh', () => {
 
   });
 });
+
+describe('shouldPropagateUpdate()', () => {
+  const config = { reverse: { enabled: true, watchFields: ['name', 'address.city'] } };
+
+  it('should compare dotted paths by their top-level field', () => {
+    expect(shouldPropagateUpdate(config, { 'name.first': 'Ada' })).toBe(true);
+    expect(shouldPropagateUpdate(config, { 'address.zip': '10115' })).toBe(true);
+    expect(shouldPropagateUpdate(config, { 'bio.short': 'Hi' })).toBe(false);
+  });
+});
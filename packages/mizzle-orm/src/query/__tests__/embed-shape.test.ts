@@ -0,0 +1,124 @@
+/**
+ * Embed shape resolution tests (schema-driven array detection and positional writes)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { string, array, object, objectId } from '../../schema/fields';
+import {
+  resolveEmbedShape,
+  toEmbedIds,
+  embedMatchFilter,
+  embedRefreshWrites,
+  embedRemovalWrites,
+} from '../embed-shape';
+
+const schema = {
+  _id: objectId().internalId(),
+  status: objectId(),
+  categoryIdList: array(objectId()),
+  workflow: object({
+    items: array(object({ ref: object({ _id: objectId(), name: string().optional() }) })),
+  }),
+};
+
+describe('resolveEmbedShape', () => {
+  it('should resolve single and array embeds from the schema, not the field name', () => {
+    expect(resolveEmbedShape({ from: 'status' }, 'statusEmbed', schema)).toEqual({
+      strategy: 'separate',
+      field: 'statusEmbed',
+      array: false,
+      ref: { field: 'status', array: false, path: 'status' },
+    });
+    expect(resolveEmbedShape({ from: 'categoryIdList', into: 'categories' }, 'c', schema)).toEqual({
+      strategy: 'separate',
+      field: 'categories',
+      array: true,
+      ref: { field: 'categoryIdList', array: true, path: 'categoryIdList' },
+    });
+  });
+
+  it('should treat multi-path and nested array ID paths as array embeds', () => {
+    expect(resolveEmbedShape({ paths: ['a', 'b'] }, 'refs')).toEqual({
+      strategy: 'separate',
+      field: 'refs',
+      array: true,
+    });
+    expect(resolveEmbedShape({ from: 'items[].refId' }, 'refs')).toMatchObject({
+      array: true,
+      ref: undefined,
+    });
+  });
+
+  it('should resolve array segments of inplace paths from markers and the schema', () => {
+    const marked = resolveEmbedShape({ from: 'workflow.items[].ref._id' }, 'ref', schema);
+    const unmarked = resolveEmbedShape({ from: 'workflow.items.ref._id' }, 'ref', schema);
+
+    const expected = {
+      strategy: 'inplace',
+      locations: [
+        [
+          { field: 'workflow', array: false },
+          { field: 'items', array: true },
+          { field: 'ref', array: false },
+        ],
+      ],
+    };
+    expect(marked).toEqual(expected);
+    expect(unmarked).toEqual(expected);
+  });
+});
+
+describe('embed writes', () => {
+  const id = new ObjectId();
+  const ids = toEmbedIds([{ _id: id }]);
+  const idMatch = { $in: [id, id.toHexString()] };
+
+  it('should address nested arrays with arrayFilters', () => {
+    const shape = resolveEmbedShape({ from: 'a[].b[].ref._id' }, 'ref');
+
+    expect(embedMatchFilter(shape, ids)).toEqual({ 'a.b.ref._id': idMatch });
+    expect(embedRefreshWrites(shape, ids, { _id: id.toHexString(), name: 'New' })).toEqual([
+      {
+        filter: { 'a.b.ref._id': idMatch },
+        update: { $set: { 'a.$[e0].b.$[e1].ref.name': 'New' } },
+        arrayFilters: [{ 'e0.b.ref._id': idMatch }, { 'e1.ref._id': idMatch }],
+      },
+    ]);
+  });
+
+  it('should write each inplace path separately', () => {
+    const shape = resolveEmbedShape({ paths: ['required[].ref._id', 'optional[].ref._id'] }, 'r');
+
+    expect(embedMatchFilter(shape, ids)).toEqual({
+      $or: [{ 'required.ref._id': idMatch }, { 'optional.ref._id': idMatch }],
+    });
+    expect(embedRemovalWrites(shape, ids, 'clear', ['name'])).toEqual([
+      {
+        filter: { 'required.ref._id': idMatch },
+        update: { $unset: { 'required.$[e0].ref.name': '' } },
+        arrayFilters: [{ 'e0.ref._id': idMatch }],
+      },
+      {
+        filter: { 'optional.ref._id': idMatch },
+        update: { $unset: { 'optional.$[e0].ref.name': '' } },
+        arrayFilters: [{ 'e0.ref._id': idMatch }],
+      },
+    ]);
+  });
+
+  it('should pull array embeds and their references on nullify', () => {
+    const shape = resolveEmbedShape({ from: 'categoryIdList' }, 'categories', schema);
+
+    expect(embedRemovalWrites(shape, ids, 'nullify', [])).toEqual([
+      {
+        filter: { 'categories._id': { $in: [id.toHexString()] } },
+        update: { $pull: { categories: { _id: { $in: [id.toHexString()] } } } },
+      },
+      {
+        filter: { categoryIdList: idMatch },
+        update: { $pull: { categoryIdList: idMatch } },
+      },
+    ]);
+  });
+});
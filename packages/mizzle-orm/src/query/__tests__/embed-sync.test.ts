@@ -0,0 +1,157 @@
+/**
+ * Change-stream embed synchronizer tests
+ */
+
+import { describe, it, expect, afterAll, beforeEach, vi } from 'vitest';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, objectId } from '../../schema/fields';
+import { embed } from '../../collection/relations';
+import { EmbedSync } from '../embed-sync';
+
+afterAll(async () => {
+  await teardownTestDb();
+});
+
+beforeEach(async () => {
+  await clearTestDb();
+});
+
+const authors = mongoCollection('sync_authors', {
+  _id: objectId().internalId(),
+  name: string(),
+  email: string(),
+});
+
+const posts = mongoCollection(
+  'sync_posts',
+  {
+    _id: objectId().internalId(),
+    title: string(),
+    authorId: objectId(),
+  },
+  {
+    relations: {
+      author: embed(authors, {
+        forward: { from: 'authorId', fields: ['name', 'email'] },
+        reverse: { enabled: true, watchFields: ['name'] },
+      }),
+    },
+  },
+);
+
+async function waitFor(condition: () => Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (await condition()) return;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error('Timed out waiting for embed sync');
+}
+
+describe('Embed sync (change streams)', () => {
+  it('should propagate writes made outside the ORM', async () => {
+    const db: any = await createTestOrm({ authors, posts });
+    const author = await db().authors.create({ name: 'Alice', email: 'alice@example.com' });
+    const post = await db().posts.create({ title: 'Hello', authorId: author._id });
+
+    const sync = await db.startEmbedSync();
+    try {
+      await db()
+        .authors.rawCollection()
+        .updateOne({ _id: author._id }, { $set: { name: 'Alice Smith' } });
+
+      await waitFor(async () => (await db().posts.findById(post._id))?.author?.name !== 'Alice');
+      expect((await db().posts.findById(post._id))?.author?.name).toBe('Alice Smith');
+      expect(sync.metrics()).toMatchObject({
+        running: true,
+        processed: 1,
+        propagated: 1,
+        deadLettered: 0,
+      });
+    } finally {
+      await sync.stop();
+    }
+  });
+
+  it('should skip changes outside watchFields', async () => {
+    const db: any = await createTestOrm({ authors, posts });
+    const author = await db().authors.create({ name: 'Bob', email: 'bob@example.com' });
+    const post = await db().posts.create({ title: 'Hello', authorId: author._id });
+
+    const sync = await db.startEmbedSync();
+    try {
+      const raw = db().authors.rawCollection();
+      await raw.updateOne({ _id: author._id }, { $set: { email: 'bob@example.org' } });
+      await raw.updateOne({ _id: author._id }, { $set: { name: 'Bobby' } });
+
+      await waitFor(async () => sync.metrics().processed === 2);
+      const updated = await db().posts.findById(post._id);
+      expect(updated?.author).toMatchObject({ name: 'Bobby', email: 'bob@example.org' });
+      expect(sync.metrics().propagated).toBe(1);
+    } finally {
+      await sync.stop();
+    }
+  });
+
+  it('should resume from the stored token after a restart', async () => {
+    const db: any = await createTestOrm({ authors, posts });
+    const author = await db().authors.create({ name: 'Carol', email: 'carol@example.com' });
+    const post = await db().posts.create({ title: 'Hello', authorId: author._id });
+    const raw = db().authors.rawCollection();
+
+    const sync = await db.startEmbedSync();
+    await raw.updateOne({ _id: author._id }, { $set: { name: 'Carol A' } });
+    await waitFor(async () => sync.metrics().processed === 1);
+    await sync.stop();
+
+    // Written while the synchronizer is down
+    await raw.updateOne({ _id: author._id }, { $set: { name: 'Carol B' } });
+
+    await db.startEmbedSync();
+    try {
+      await waitFor(async () => (await db().posts.findById(post._id))?.author?.name === 'Carol B');
+    } finally {
+      await sync.stop();
+    }
+  });
+
+  it('should dead-letter a change that keeps failing and move past it', async () => {
+    const db: any = await createTestOrm({ authors, posts });
+    const author = await db().authors.create({ name: 'Dave', email: 'dave@example.com' });
+    const post = await db().posts.create({ title: 'Hello', authorId: author._id });
+    const raw = db().authors.rawCollection();
+    const logger = { error: vi.fn() };
+
+    const apply = (EmbedSync.prototype as any).apply;
+    const spy = vi.spyOn(EmbedSync.prototype as any, 'apply').mockImplementation(function (
+      this: any,
+      ...args: any[]
+    ) {
+      return args[1].fullDocument?.name === 'Poison'
+        ? Promise.reject(new Error('poison'))
+        : apply.apply(this, args);
+    });
+
+    const sync = await db.startEmbedSync({ maxAttempts: 2, retryInterval: 10, logger });
+    try {
+      await raw.updateOne({ _id: author._id }, { $set: { name: 'Poison' } });
+      await raw.updateOne({ _id: author._id }, { $set: { name: 'Dave B' } });
+
+      await waitFor(async () => (await db().posts.findById(post._id))?.author?.name === 'Dave B');
+      expect(sync.metrics()).toMatchObject({ processed: 1, deadLettered: 1, lastError: 'poison' });
+      expect(logger.error).toHaveBeenCalledTimes(2);
+
+      const [dead] = await db.embedWorker.deadLetters();
+      expect(dead).toMatchObject({
+        sourceCollection: 'sync_authors',
+        targetCollection: 'sync_posts',
+        relationName: 'author',
+        attempts: 2,
+        lastError: 'poison',
+      });
+    } finally {
+      spy.mockRestore();
+      await sync.stop();
+    }
+  });
+});
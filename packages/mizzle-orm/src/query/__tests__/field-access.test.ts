@@ -0,0 +1,251 @@
+/**
+ * Field-level permission tests (.readableBy() / .writableBy())
+ */
+
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, objectId } from '../../schema/fields';
+import { embed, lookup } from '../../collection/relations';
+import type { OrmContext } from '../../types/orm';
+import { assertReadableSort, assertWritableFields, stripUnreadableFields } from '../field-access';
+import { PolicyDeniedError } from '../errors';
+
+describe('Field-level permissions', () => {
+  const isAdmin = (ctx: OrmContext) => ctx.user?.roles?.includes('admin') ?? false;
+  const isSelf = (ctx: OrmContext, doc?: any) => String(doc?._id) === ctx.user?.id;
+
+  const profiles = mongoCollection('field_profiles', {
+    _id: objectId().internalId(),
+    name: string(),
+    email: string().readableBy((ctx, doc) => isAdmin(ctx) || isSelf(ctx, doc)),
+    notes: string().optional().readableBy(isAdmin).writableBy(isAdmin),
+    role: string().default('member').writableBy(isAdmin),
+  });
+
+  const posts = mongoCollection(
+    'field_posts',
+    {
+      _id: objectId().internalId(),
+      title: string(),
+      authorId: objectId(),
+    },
+    {
+      relations: {
+        author: lookup(profiles, { localField: 'authorId', foreignField: '_id', one: true }),
+      },
+    },
+  );
+
+  const comments = mongoCollection(
+    'field_comments',
+    {
+      _id: objectId().internalId(),
+      body: string(),
+      postId: objectId(),
+    },
+    {
+      relations: {
+        post: lookup(posts, { localField: 'postId', foreignField: '_id', one: true }),
+      },
+    },
+  );
+
+  const quotes = mongoCollection(
+    'field_quotes',
+    {
+      _id: objectId().internalId(),
+      text: string(),
+      authorId: objectId(),
+    },
+    {
+      relations: {
+        author: embed(profiles, {
+          forward: { from: 'authorId', projection: { name: 1, email: 1 } },
+        }),
+      },
+    },
+  );
+
+  const selfId = new ObjectId();
+  const self = { user: { id: selfId.toHexString() } };
+  const admin = { user: { id: new ObjectId().toHexString(), roles: ['admin'] } };
+  const visitor = { user: { id: new ObjectId().toHexString() } };
+
+  describe('helpers', () => {
+    const profile = { _id: selfId, name: 'Alice', email: 'alice@example.com', notes: 'VIP' };
+
+    it('should strip fields per context', () => {
+      expect(stripUnreadableFields(profiles, visitor, [profile])).toEqual([
+        { _id: selfId, name: 'Alice' },
+      ]);
+      expect(stripUnreadableFields(profiles, self, [profile])).toEqual([
+        { _id: selfId, name: 'Alice', email: 'alice@example.com' },
+      ]);
+      expect(stripUnreadableFields(profiles, admin, [profile])).toEqual([profile]);
+    });
+
+    it('should strip nested includes with the rules of their collection', () => {
+      const comment = { body: 'Hi', post: { title: 'Hello', author: profile } };
+
+      const [stripped] = stripUnreadableFields(comments, visitor, [comment], {
+        post: { include: { author: true } },
+      });
+
+      expect(stripped?.post.author).toEqual({ _id: selfId, name: 'Alice' });
+    });
+
+    it('should strip embedded snapshots with the rules of their source collection', () => {
+      const snapshot = { _id: selfId.toHexString(), name: 'Alice', email: 'alice@example.com' };
+      const quote = { text: 'Hi', authorId: selfId, author: snapshot };
+
+      expect(stripUnreadableFields(quotes, visitor, [quote])[0]?.author).toEqual({
+        _id: selfId.toHexString(),
+        name: 'Alice',
+      });
+      expect(stripUnreadableFields(quotes, self, [quote])[0]?.author).toEqual(snapshot);
+    });
+
+    it('should return documents untouched when no rules apply', () => {
+      const docs = [{ title: 'Hello' }];
+      expect(stripUnreadableFields(posts, visitor, docs)).toBe(docs);
+    });
+
+    it('should reject updates of non-writable fields', () => {
+      expect(() =>
+        assertWritableFields(
+          profiles,
+          visitor,
+          { role: 'admin', notes: 'x' },
+          'updateById',
+          profile,
+        ),
+      ).toThrow("not allowed to write fields 'notes', 'role'");
+      expect(() =>
+        assertWritableFields(profiles, visitor, { $set: { role: 'admin' } }, 'updateMany'),
+      ).toThrow(PolicyDeniedError);
+      expect(() =>
+        assertWritableFields(profiles, admin, { role: 'admin' }, 'updateById', profile),
+      ).not.toThrow();
+      expect(() =>
+        assertWritableFields(profiles, visitor, { name: 'Bob' }, 'updateById', profile),
+      ).not.toThrow();
+    });
+
+    it('should reject sorting on unreadable fields', () => {
+      expect(() => assertReadableSort(profiles, visitor, ['email', '_id'], 'findPage')).toThrow(
+        "Read not allowed by policy on 'field_profiles'.findPage: not allowed to sort on field 'email'",
+      );
+      expect(() => assertReadableSort(profiles, self, ['notes.length'], 'findPage')).toThrow(
+        PolicyDeniedError,
+      );
+      expect(() =>
+        assertReadableSort(profiles, admin, ['email', 'notes'], 'findPage'),
+      ).not.toThrow();
+      expect(() =>
+        assertReadableSort(profiles, visitor, ['name', '_id'], 'findPage'),
+      ).not.toThrow();
+    });
+  });
+
+  describe('facade', () => {
+    afterAll(async () => {
+      await teardownTestDb();
+    });
+
+    beforeEach(async () => {
+      await clearTestDb();
+    });
+
+    async function seed() {
+      const db = await createTestOrm({ profiles, posts, quotes });
+      await db()
+        .profiles.rawCollection()
+        .insertOne({
+          _id: selfId,
+          name: 'Alice',
+          email: 'alice@example.com',
+          notes: 'VIP',
+          role: 'member',
+        } as any);
+      await db().posts.create({ title: 'Hello', authorId: selfId });
+      return db;
+    }
+
+    it('should strip unreadable fields from findOne and findMany', async () => {
+      const db = await seed();
+
+      const asVisitor = await db(visitor).profiles.findOne({ _id: selfId });
+      const asSelf = await db(self).profiles.findMany({});
+      const asAdmin = await db(admin).profiles.findById(selfId);
+
+      expect(asVisitor).not.toHaveProperty('email');
+      expect(asVisitor).not.toHaveProperty('notes');
+      expect(asSelf[0]?.email).toBe('alice@example.com');
+      expect(asSelf[0]).not.toHaveProperty('notes');
+      expect(asAdmin?.notes).toBe('VIP');
+    });
+
+    it('should reject findPage sorted on unreadable fields', async () => {
+      const db = await seed();
+
+      await expect(db(visitor).profiles.findPage({}, { sort: { email: 1 } })).rejects.toThrow(
+        PolicyDeniedError,
+      );
+
+      const page = await db(admin).profiles.findPage({}, { sort: { email: 1 } });
+      expect(page.items).toHaveLength(1);
+    });
+
+    it('should strip unreadable fields from included relations', async () => {
+      const db = await seed();
+
+      const [post] = await db(visitor).posts.findMany({}, { include: { author: true } });
+
+      expect(post?.author?.name).toBe('Alice');
+      expect(post?.author).not.toHaveProperty('email');
+    });
+
+    it('should strip unreadable fields from embedded snapshots', async () => {
+      const db = await seed();
+      const quote = await db(admin).quotes.create({ text: 'Hi', authorId: selfId });
+
+      const asVisitor = await db(visitor).quotes.findById(quote._id);
+
+      expect(quote.author).toMatchObject({ email: 'alice@example.com' });
+      expect(asVisitor?.author).toEqual({ _id: selfId.toHexString(), name: 'Alice' });
+    });
+
+    it('should not strip aggregate() results', async () => {
+      const db = await seed();
+
+      const [profile] = await db(visitor).profiles.aggregate([{ $match: { _id: selfId } }]);
+
+      expect(profile?.email).toBe('alice@example.com');
+    });
+
+    it('should strip unreadable fields from update results', async () => {
+      const db = await seed();
+
+      const updated = await db(visitor).profiles.updateById(selfId, { name: 'Alicia' });
+
+      expect(updated?.name).toBe('Alicia');
+      expect(updated).not.toHaveProperty('email');
+    });
+
+    it('should reject updates touching non-writable fields', async () => {
+      const db = await seed();
+
+      await expect(db(self).profiles.updateById(selfId, { role: 'admin' })).rejects.toThrow(
+        "not allowed to write field 'role'",
+      );
+      await expect(db(self).profiles.updateMany({}, { $set: { notes: 'hi' } })).rejects.toThrow(
+        PolicyDeniedError,
+      );
+
+      const updated = await db(admin).profiles.updateById(selfId, { role: 'admin' });
+      expect(updated?.role).toBe('admin');
+    });
+  });
+});
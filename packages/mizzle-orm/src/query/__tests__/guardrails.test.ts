@@ -0,0 +1,148 @@
+/**
+ * Dev guardrails tests (explain-based index checks)
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { mongoCollection } from '../../collection/collection';
+import { string, number } from '../../schema/fields';
+import { QueryGuard, filterShape } from '../query-guard';
+import { UnindexedQueryError } from '../errors';
+
+/**
+ * Minimal collection stub whose explain() returns the given winning plan
+ */
+function stubCollection(winningPlan: Record<string, unknown>) {
+  const explain = vi.fn().mockResolvedValue({ queryPlanner: { winningPlan } });
+  const find = vi.fn().mockReturnValue({ explain });
+  return { collection: { find } as any, find, explain };
+}
+
+const COLLSCAN = { stage: 'COLLSCAN' };
+const IXSCAN = { stage: 'FETCH', inputStage: { stage: 'IXSCAN', indexName: 'email_1' } };
+
+describe('Dev Guardrails', () => {
+  const users = mongoCollection('users', {
+    email: string().unique(),
+    age: number(),
+  });
+
+  describe('filterShape()', () => {
+    it('should replace values with their types', () => {
+      expect(
+        filterShape({
+          email: 'alice@example.com',
+          age: { $gt: 18 },
+          _id: new ObjectId(),
+          $or: [{ deletedAt: null }, { createdAt: new Date() }],
+        }),
+      ).toEqual({
+        email: 'string',
+        age: { $gt: 'number' },
+        _id: 'ObjectId',
+        $or: [{ deletedAt: 'null' }, { createdAt: 'date' }],
+      });
+    });
+  });
+
+  describe('QueryGuard', () => {
+    it('should do nothing when no guardrail is enabled', async () => {
+      const { collection, find } = stubCollection(COLLSCAN);
+      const guard = new QueryGuard({});
+
+      await guard.check(collection, users, 'findMany', { age: 30 });
+
+      expect(find).not.toHaveBeenCalled();
+    });
+
+    describe('in production', () => {
+      afterEach(() => {
+        vi.unstubAllEnvs();
+      });
+
+      it('should be disabled by default', async () => {
+        vi.stubEnv('NODE_ENV', 'production');
+        const { collection, find } = stubCollection(COLLSCAN);
+        const guard = new QueryGuard({ requireIndexedQueries: true });
+
+        await guard.check(collection, users, 'findMany', { age: 30 });
+
+        expect(guard.enabled).toBe(false);
+        expect(find).not.toHaveBeenCalled();
+      });
+
+      it('should run with enableInProduction', async () => {
+        vi.stubEnv('NODE_ENV', 'production');
+        const { collection } = stubCollection(COLLSCAN);
+        const guard = new QueryGuard({ requireIndexedQueries: true, enableInProduction: true });
+
+        await expect(guard.check(collection, users, 'findMany', { age: 30 })).rejects.toThrow(
+          UnindexedQueryError,
+        );
+      });
+    });
+
+    it('should throw UnindexedQueryError with requireIndexedQueries', async () => {
+      const { collection } = stubCollection(COLLSCAN);
+      const guard = new QueryGuard({ requireIndexedQueries: true });
+
+      const error = await guard.check(collection, users, 'findMany', { age: 30 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(UnindexedQueryError);
+      expect(error.collection).toBe('users');
+      expect(error.operation).toBe('findMany');
+      expect(error.filterShape).toEqual({ age: 'number' });
+    });
+
+    it('should list declared indexes that could serve the query', async () => {
+      const { collection } = stubCollection(COLLSCAN);
+      const guard = new QueryGuard({ requireIndexedQueries: true });
+
+      const error = await guard
+        .check(collection, users, 'findOne', { email: 'alice@example.com' })
+        .catch((e) => e);
+
+      expect(error.candidateIndexes).toEqual(['email_1']);
+      expect(error.message).toContain('db.syncIndexes()');
+    });
+
+    it('should warn with warnOnUnindexed', async () => {
+      const { collection } = stubCollection({ stage: 'SORT', inputStage: COLLSCAN });
+      const logger = { warn: vi.fn() };
+      const guard = new QueryGuard({ warnOnUnindexed: true, logger });
+
+      await guard.check(collection, users, 'count', { age: 30 });
+
+      expect(logger.warn).toHaveBeenCalledOnce();
+      expect(logger.warn.mock.calls[0]![0]).toContain("Unindexed query on 'users'.count");
+    });
+
+    it('should accept index scans', async () => {
+      const { collection } = stubCollection(IXSCAN);
+      const guard = new QueryGuard({ requireIndexedQueries: true });
+
+      await expect(
+        guard.check(collection, users, 'findOne', { email: 'alice@example.com' }),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should skip empty filters', async () => {
+      const { collection, find } = stubCollection(COLLSCAN);
+      const guard = new QueryGuard({ requireIndexedQueries: true });
+
+      await guard.check(collection, users, 'deleteMany', {});
+
+      expect(find).not.toHaveBeenCalled();
+    });
+
+    it('should explain each filter shape only once', async () => {
+      const { collection, explain } = stubCollection(IXSCAN);
+      const guard = new QueryGuard({ warnOnUnindexed: true });
+
+      await guard.check(collection, users, 'findOne', { email: 'a@example.com' });
+      await guard.check(collection, users, 'findOne', { email: 'b@example.com' });
+
+      expect(explain).toHaveBeenCalledOnce();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Many-to-many relations tests (include through a join collection, attach/detach/sync)
+ */
+
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, objectId } from '../../schema/fields';
+import { manyToMany } from '../../collection/relations';
+import { PolicyDeniedError } from '../errors';
+
+afterAll(async () => {
+  await teardownTestDb();
+});
+
+beforeEach(async () => {
+  await clearTestDb();
+});
+
+const tags = mongoCollection('m2m_tags', {
+  _id: objectId().internalId(),
+  name: string(),
+  color: string(),
+});
+
+const postTags = mongoCollection(
+  'm2m_post_tags',
+  {
+    _id: objectId().internalId(),
+    postId: objectId(),
+    tagId: objectId(),
+    addedBy: string().optional(),
+  },
+  {
+    policies: {
+      canInsert: (ctx) => !ctx.user?.roles?.includes('reader'),
+    },
+  },
+);
+
+const posts = mongoCollection(
+  'm2m_posts',
+  {
+    _id: objectId().internalId(),
+    title: string(),
+    authorId: string(),
+  },
+  {
+    policies: {
+      writeFilter: (ctx) => (ctx.user ? { authorId: ctx.user.id } : {}),
+    },
+    relations: {
+      tags: manyToMany(tags, {
+        through: postTags,
+        sourceKey: 'postId',
+        targetKey: 'tagId',
+        sort: { name: 1 },
+      }),
+    },
+  },
+);
+
+async function seed() {
+  const db = await createTestOrm({ tags, postTags, posts });
+  const [news, tech, art] = await db().tags.createMany([
+    { name: 'News', color: 'red' },
+    { name: 'Tech', color: 'blue' },
+    { name: 'Art', color: 'red' },
+  ]);
+  const post = await db().posts.create({ title: 'Hello', authorId: 'alice' });
+  return { db, post, tags: { news: news!, tech: tech!, art: art! } };
+}
+
+describe('Many-to-many include', () => {
+  it('should include target documents through the join collection', async () => {
+    const { db, post, tags } = await seed();
+    await db().posts.attach(post._id, 'tags', [tags.tech._id, tags.news._id]);
+
+    const found = await db().posts.findById(post._id, { include: 'tags' });
+
+    expect(found?.tags.map((tag) => tag.name)).toEqual(['News', 'Tech']);
+  });
+
+  it('should apply where, sort, limit and projection to the targets', async () => {
+    const { db, post, tags } = await seed();
+    await db().posts.attach(post._id, 'tags', [tags.news._id, tags.tech._id, tags.art._id]);
+
+    const found = await db().posts.findById(post._id, {
+      include: { tags: { where: { color: 'red' }, sort: { name: -1 }, limit: 1 } },
+    });
+
+    expect(found?.tags).toHaveLength(1);
+    expect(found?.tags[0]?.name).toBe('News');
+  });
+
+  it('should skip join documents whose target was deleted', async () => {
+    const { db, post, tags } = await seed();
+    await db().posts.attach(post._id, 'tags', [tags.news._id, tags.tech._id]);
+    await db().tags.deleteById(tags.news._id);
+
+    const found = await db().posts.findById(post._id, { include: 'tags' });
+
+    expect(found?.tags.map((tag) => tag.name)).toEqual(['Tech']);
+  });
+});
+
+describe('Join collection index', () => {
+  it('should declare a unique index on the join keys', () => {
+    expect(postTags._meta.indexes).toContainEqual({
+      fields: ['postId', 'tagId'],
+      options: { unique: true },
+    });
+  });
+
+  it('should declare the index once per join collection', () => {
+    const joins = mongoCollection('m2m_joins', { postId: objectId(), tagId: objectId() });
+    const declared = mongoCollection(
+      'm2m_declared_joins',
+      { postId: objectId(), tagId: objectId() },
+      { indexes: (idx, fields) => [idx(fields.tagId, fields.postId).unique()] },
+    );
+
+    manyToMany(tags, { through: joins, sourceKey: 'postId', targetKey: 'tagId' });
+    manyToMany(posts, { through: joins, sourceKey: 'tagId', targetKey: 'postId' });
+    manyToMany(tags, { through: declared, sourceKey: 'postId', targetKey: 'tagId' });
+
+    expect(joins._meta.indexes).toEqual([
+      { fields: ['postId', 'tagId'], options: { unique: true } },
+    ]);
+    expect(declared._meta.indexes).toEqual([
+      { fields: ['tagId', 'postId'], options: { unique: true } },
+    ]);
+  });
+});
+
+describe('attach / detach / sync', () => {
+  it('should attach targets once with extra join fields', async () => {
+    const { db, post, tags } = await seed();
+
+    const first = await db().posts.attach(post._id, 'tags', [tags.news._id], {
+      data: { addedBy: 'alice' },
+    });
+    const second = await db().posts.attach(post._id, 'tags', [
+      tags.news._id.toHexString(),
+      tags.tech._id,
+    ]);
+
+    expect(first).toBe(1);
+    expect(second).toBe(1);
+    const joins = await db().postTags.findMany({ postId: post._id });
+    expect(joins).toHaveLength(2);
+    expect(joins.find((join) => join.tagId.equals(tags.news._id))?.addedBy).toBe('alice');
+  });
+
+  it('should link a pair once under concurrent attach calls', async () => {
+    const { db, post, tags } = await seed();
+    await db.syncIndexes();
+
+    const created = await Promise.all(
+      Array.from({ length: 5 }, () => db().posts.attach(post._id, 'tags', [tags.news._id])),
+    );
+
+    expect(created.reduce((sum, count) => sum + count, 0)).toBe(1);
+    expect(await db().postTags.count({ postId: post._id })).toBe(1);
+  });
+
+  it('should reject targets that do not exist', async () => {
+    const { db, post } = await seed();
+
+    await expect(db().posts.attach(post._id, 'tags', [new ObjectId()])).rejects.toThrow(
+      /non-existent document in m2m_tags/,
+    );
+    expect(await db().postTags.count()).toBe(0);
+  });
+
+  it('should detach some or all targets', async () => {
+    const { db, post, tags } = await seed();
+    await db().posts.attach(post._id, 'tags', [tags.news._id, tags.tech._id, tags.art._id]);
+
+    expect(await db().posts.detach(post._id, 'tags', [tags.news._id.toHexString()])).toBe(1);
+    expect(await db().postTags.count({ postId: post._id })).toBe(2);
+
+    expect(await db().posts.detach(post._id, 'tags')).toBe(2);
+    expect(await db().postTags.count({ postId: post._id })).toBe(0);
+  });
+
+  it('should sync the linked targets', async () => {
+    const { db, post, tags } = await seed();
+    await db().posts.attach(post._id, 'tags', [tags.news._id, tags.tech._id]);
+
+    const result = await db().posts.sync(post._id, 'tags', [tags.tech._id, tags.art._id]);
+
+    expect(result).toEqual({ attached: 1, detached: 1 });
+    const found = await db().posts.findById(post._id, { include: 'tags' });
+    expect(found?.tags.map((tag) => tag.name)).toEqual(['Art', 'Tech']);
+  });
+
+  it("should respect the source document's write policies", async () => {
+    const { db, post, tags } = await seed();
+
+    await expect(
+      db({ user: { id: 'bob' } }).posts.attach(post._id, 'tags', [tags.news._id]),
+    ).rejects.toThrow(PolicyDeniedError);
+    await expect(db({ user: { id: 'bob' } }).posts.detach(post._id, 'tags')).rejects.toThrow(
+      PolicyDeniedError,
+    );
+  });
+
+  it("should respect the join collection's policies", async () => {
+    const { db, post, tags } = await seed();
+
+    await expect(
+      db({ user: { id: 'alice', roles: ['reader'] } }).posts.attach(post._id, 'tags', [
+        tags.news._id,
+      ]),
+    ).rejects.toThrow(PolicyDeniedError);
+    expect(await db().postTags.count()).toBe(0);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Ownership enforcement tests (.ownerKey())
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { setupTestDb, teardownTestDb, clearTestDb } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, objectId } from '../../schema/fields';
+import { mizzle } from '../../orm/orm';
+import { auditMiddleware, type AuditLogEntry } from '../../middlewares';
+import {
+  assertOwner,
+  assertOwnerUnchanged,
+  bypassesOwnership,
+  ownerFilter,
+  stampOwner,
+} from '../ownership';
+
+describe('Ownership', () => {
+  const notes = mongoCollection(
+    'owned_notes',
+    {
+      _id: objectId().internalId(),
+      ownerId: objectId().ownerKey(),
+      body: string(),
+    },
+    {
+      policies: {
+        ownership: { bypassRoles: ['admin'] },
+        canDelete: (_ctx, doc) => doc.body !== 'pinned',
+      },
+    },
+  );
+
+  const alice = { id: new ObjectId().toHexString() };
+  const bob = { id: new ObjectId().toHexString() };
+  const admin = { id: new ObjectId().toHexString(), roles: ['admin'] };
+
+  describe('helpers', () => {
+    it('should detect bypass roles', () => {
+      expect(bypassesOwnership(notes, { user: admin })).toBe(true);
+      expect(bypassesOwnership(notes, { user: alice })).toBe(false);
+    });
+
+    it('should stamp the owner and reject foreign owners', () => {
+      const stamped = stampOwner<Record<string, unknown>>(notes, { user: alice }, { body: 'a' });
+      expect(String(stamped.ownerId)).toBe(alice.id);
+      expect(stamped.ownerId).toBeInstanceOf(ObjectId);
+
+      expect(() =>
+        stampOwner(notes, { user: alice }, { body: 'a', ownerId: new ObjectId(bob.id) }),
+      ).toThrow('Insert not allowed by policy');
+      expect(() => stampOwner(notes, {}, { body: 'a' })).toThrow('ctx.user is missing');
+    });
+
+    it('should let bypass roles create documents for other owners', () => {
+      const ownerId = new ObjectId(bob.id);
+      expect(stampOwner(notes, { user: admin }, { body: 'a', ownerId }).ownerId).toBe(ownerId);
+    });
+
+    it('should check ownership of existing documents', () => {
+      const doc = { ownerId: new ObjectId(alice.id) };
+      expect(() => assertOwner(notes, { user: alice }, doc, 'updateById')).not.toThrow();
+      expect(() => assertOwner(notes, { user: admin }, doc, 'updateById')).not.toThrow();
+      expect(() => assertOwner(notes, { user: bob }, doc, 'updateById')).toThrow(
+        'Update not allowed by policy',
+      );
+    });
+
+    it('should build bulk write filters', () => {
+      expect(ownerFilter(notes, { user: alice }, 'deleteMany')).toEqual({
+        ownerId: new ObjectId(alice.id),
+      });
+      expect(ownerFilter(notes, { user: admin }, 'deleteMany')).toBeNull();
+    });
+
+    it('should reject regular updates of the owner key', () => {
+      expect(() => assertOwnerUnchanged(notes, { ownerId: new ObjectId() })).toThrow(
+        'use transferOwnership()',
+      );
+      expect(() => assertOwnerUnchanged(notes, { $unset: { ownerId: '' } })).toThrow();
+      expect(() => assertOwnerUnchanged(notes, { body: 'b' })).not.toThrow();
+    });
+  });
+
+  describe('facade', () => {
+    const auditLog: AuditLogEntry[] = [];
+    let db: any;
+
+    beforeAll(async () => {
+      const { uri } = await setupTestDb();
+      db = await mizzle({
+        uri,
+        dbName: 'test',
+        schema: { notes },
+        middlewares: [
+          auditMiddleware({ store: { log: async (entry) => void auditLog.push(entry) } }),
+        ],
+      });
+    });
+
+    afterAll(async () => {
+      await db?.close();
+      await teardownTestDb();
+    });
+
+    beforeEach(async () => {
+      await clearTestDb();
+      auditLog.length = 0;
+    });
+
+    it('should stamp the creator as owner', async () => {
+      const note = await db({ user: alice }).notes.create({ body: 'Hello' });
+
+      expect(note.ownerId.toHexString()).toBe(alice.id);
+    });
+
+    it('should only let the owner update and delete', async () => {
+      const note = await db({ user: alice }).notes.create({ body: 'Hello' });
+
+      await expect(
+        db({ user: bob }).notes.updateById(note._id, { body: 'Hacked' }),
+      ).rejects.toThrow('Update not allowed by policy');
+      await expect(db({ user: bob }).notes.deleteById(note._id)).rejects.toThrow(
+        'Delete not allowed by policy',
+      );
+
+      const updated = await db({ user: alice }).notes.updateById(note._id, { body: 'Edited' });
+      expect(updated.body).toBe('Edited');
+    });
+
+    it('should let bypass roles write any document', async () => {
+      const note = await db({ user: alice }).notes.create({ body: 'Hello' });
+
+      expect(await db({ user: admin }).notes.deleteById(note._id)).toBe(true);
+    });
+
+    it('should still run canDelete after the ownership check', async () => {
+      const note = await db({ user: alice }).notes.create({ body: 'pinned' });
+
+      await expect(db({ user: alice }).notes.deleteById(note._id)).rejects.toThrow(
+        'Delete not allowed by policy',
+      );
+    });
+
+    it('should restrict bulk writes to owned documents', async () => {
+      await db({ user: alice }).notes.create({ body: 'A' });
+      await db({ user: bob }).notes.create({ body: 'B' });
+
+      expect(await db({ user: alice }).notes.updateMany({}, { body: 'Mine' })).toBe(1);
+      expect(await db({ user: alice }).notes.deleteMany({})).toBe(1);
+      expect(await db({ user: admin }).notes.count({ body: 'B' })).toBe(1);
+    });
+
+    it('should transfer ownership as an audited operation', async () => {
+      const note = await db({ user: alice }).notes.create({ body: 'Hello' });
+
+      await expect(
+        db({ user: alice }).notes.updateById(note._id, { ownerId: new ObjectId(bob.id) }),
+      ).rejects.toThrow('use transferOwnership()');
+      await expect(db({ user: bob }).notes.transferOwnership(note._id, bob.id)).rejects.toThrow(
+        'Ownership transfer not allowed by policy',
+      );
+
+      const transferred = await db({ user: alice }).notes.transferOwnership(note._id, bob.id);
+
+      expect(transferred.ownerId.toHexString()).toBe(bob.id);
+      expect(auditLog.map((entry) => entry.operation)).toContain('transferOwnership');
+      expect(auditLog.find((entry) => entry.operation === 'transferOwnership')?.data).toEqual({
+        ownerId: bob.id,
+      });
+    });
+  });
+});
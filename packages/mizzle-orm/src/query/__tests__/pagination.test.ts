@@ -0,0 +1,311 @@
+/**
+ * Cursor pagination tests (findPage)
+ */
+
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, number, objectId } from '../../schema/fields';
+import { lookup } from '../../collection/relations';
+import {
+  CursorCodec,
+  keysetFilter,
+  normalizeSort,
+  selectWithSortKeys,
+  unsetPaths,
+} from '../pagination';
+import { InvalidCursorError } from '../errors';
+import type { InferDocument } from '../../types/inference';
+import type { Page } from '../../types/orm';
+
+describe('Pagination', () => {
+  describe('normalizeSort()', () => {
+    it('should append _id in the direction of the last key', () => {
+      expect(normalizeSort({ createdAt: -1 })).toEqual([
+        ['createdAt', -1],
+        ['_id', -1],
+      ]);
+      expect(normalizeSort()).toEqual([['_id', 1]]);
+    });
+
+    it('should keep an explicit _id direction', () => {
+      expect(normalizeSort({ _id: -1, name: 1 })).toEqual([
+        ['name', 1],
+        ['_id', -1],
+      ]);
+    });
+  });
+
+  describe('keysetFilter()', () => {
+    it('should build one branch per sort key', () => {
+      const id = new ObjectId();
+      expect(
+        keysetFilter(
+          [
+            ['age', 1],
+            ['_id', -1],
+          ],
+          [30, id],
+        ),
+      ).toEqual({ $or: [{ age: { $gt: 30 } }, { age: 30, _id: { $lt: id } }] });
+    });
+
+    it('should sort null boundaries first', () => {
+      const id = new ObjectId();
+
+      expect(keysetFilter(normalizeSort({ age: 1 }), [null, id])).toEqual({
+        $or: [{ age: { $ne: null } }, { age: null, _id: { $gt: id } }],
+      });
+      expect(keysetFilter(normalizeSort({ age: -1 }), [null, id])).toEqual({
+        age: null,
+        _id: { $lt: id },
+      });
+    });
+
+    it('should include null values after a descending boundary', () => {
+      const id = new ObjectId();
+
+      expect(keysetFilter(normalizeSort({ age: -1 }), [30, id])).toEqual({
+        $or: [{ $or: [{ age: { $lt: 30 } }, { age: null }] }, { age: 30, _id: { $lt: id } }],
+      });
+    });
+  });
+
+  describe('selectWithSortKeys()', () => {
+    it('should add missing sort fields to inclusions', () => {
+      expect(selectWithSortKeys({ title: 1 }, normalizeSort({ rank: 1 }))).toEqual({
+        select: { title: 1, rank: 1 },
+        hidden: ['rank'],
+      });
+      expect(selectWithSortKeys({ profile: 1 }, normalizeSort({ 'profile.age': 1 }))).toEqual({
+        select: { profile: 1 },
+        hidden: [],
+      });
+    });
+
+    it('should lift exclusions of sort fields and _id', () => {
+      expect(selectWithSortKeys({ rank: 0, title: 0, _id: 0 }, normalizeSort({ rank: 1 }))).toEqual(
+        { select: { title: 0 }, hidden: ['rank', '_id'] },
+      );
+      expect(selectWithSortKeys({ title: 1, _id: 0 }, normalizeSort())).toEqual({
+        select: { title: 1 },
+        hidden: ['_id'],
+      });
+    });
+
+    it('should leave queries without select alone', () => {
+      expect(selectWithSortKeys(undefined, normalizeSort({ rank: 1 }))).toEqual({
+        select: undefined,
+        hidden: [],
+      });
+    });
+  });
+
+  describe('unsetPaths()', () => {
+    it('should remove top-level and nested paths', () => {
+      const docs = [{ a: 1, b: { c: 2, d: 3 } }, { a: 4 }];
+
+      unsetPaths(docs, ['a', 'b.c']);
+
+      expect(docs).toEqual([{ b: { d: 3 } }, {}]);
+    });
+  });
+
+  describe('CursorCodec', () => {
+    const sortKeys = normalizeSort({ createdAt: -1 });
+    const doc = { _id: new ObjectId(), createdAt: new Date('2024-01-01T00:00:00Z') };
+
+    it('should round-trip ObjectIds and dates', () => {
+      const codec = new CursorCodec('secret');
+      const values = codec.decode(codec.encode(doc, sortKeys), sortKeys);
+
+      expect(values[0]).toEqual(doc.createdAt);
+      expect((values[1] as ObjectId).equals(doc._id)).toBe(true);
+    });
+
+    it('should reject tampered cursors', () => {
+      const codec = new CursorCodec('secret');
+      const [, signature] = codec.encode(doc, sortKeys).split('.');
+      const forged = Buffer.from('{"s":"createdAt:-1,_id:-1","v":[0,0]}').toString('base64url');
+
+      expect(() => codec.decode(`${forged}.${signature}`, sortKeys)).toThrow(InvalidCursorError);
+    });
+
+    it('should reject cursors signed with another secret', () => {
+      const cursor = new CursorCodec('one').encode(doc, sortKeys);
+
+      expect(() => new CursorCodec('two').decode(cursor, sortKeys)).toThrow(InvalidCursorError);
+    });
+
+    it('should reject cursors built for a different sort', () => {
+      const codec = new CursorCodec('secret');
+      const cursor = codec.encode(doc, sortKeys);
+
+      expect(() => codec.decode(cursor, normalizeSort({ name: 1 }))).toThrow('different sort');
+    });
+  });
+
+  describe('findPage()', () => {
+    const authors = mongoCollection('page_authors', {
+      _id: objectId().internalId(),
+      name: string(),
+    });
+
+    const books = mongoCollection(
+      'page_books',
+      {
+        _id: objectId().internalId(),
+        title: string(),
+        rank: number(),
+        authorId: objectId(),
+      },
+      {
+        relations: {
+          author: lookup(authors, {
+            localField: 'authorId',
+            foreignField: '_id',
+            one: true,
+          }),
+        },
+      },
+    );
+
+    const tasks = mongoCollection('page_tasks', {
+      _id: objectId().internalId(),
+      priority: number().nullable().optional(),
+    });
+
+    type Book = InferDocument<typeof books>;
+    type Task = InferDocument<typeof tasks>;
+
+    afterAll(async () => {
+      await teardownTestDb();
+    });
+
+    beforeEach(async () => {
+      await clearTestDb();
+    });
+
+    async function seed() {
+      const db = await createTestOrm({ authors, books });
+      const author = await db().authors.create({ name: 'Alice' });
+      // Duplicate ranks exercise the _id tie-breaker
+      await db().books.createMany(
+        [3, 1, 2, 2, 5].map((rank, i) => ({ title: `Book ${i}`, rank, authorId: author._id })),
+      );
+      return db;
+    }
+
+    it('should walk all pages in sort order', async () => {
+      const db = await seed();
+
+      const seen: number[] = [];
+      let after: string | null = null;
+      let pages = 0;
+      do {
+        const page: Page<Book> = await db().books.findPage(
+          {},
+          { first: 2, after, sort: { rank: 1 } },
+        );
+        seen.push(...page.items.map((book) => book.rank));
+        after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+        pages++;
+      } while (after);
+
+      expect(seen).toEqual([1, 2, 2, 3, 5]);
+      expect(pages).toBe(3);
+    });
+
+    it('should walk pages sorted on a nullable field', async () => {
+      const db = await createTestOrm({ tasks });
+      await db().tasks.createMany([{ priority: 2 }, { priority: null }, {}, { priority: 1 }]);
+
+      for (const direction of [1, -1] as const) {
+        const seen: Array<number | null> = [];
+        let after: string | null = null;
+        do {
+          const page: Page<Task> = await db().tasks.findPage(
+            {},
+            { first: 1, after, sort: { priority: direction } },
+          );
+          seen.push(...page.items.map((task) => task.priority ?? null));
+          after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+        } while (after);
+
+        expect(seen).toEqual(direction === 1 ? [null, null, 1, 2] : [2, 1, null, null]);
+      }
+    });
+
+    it('should report the last page', async () => {
+      const db = await seed();
+
+      const page = await db().books.findPage({ rank: { $gte: 3 } }, { first: 5 });
+
+      expect(page.items).toHaveLength(2);
+      expect(page.pageInfo.hasNextPage).toBe(false);
+      expect(page.pageInfo.endCursor).toEqual(expect.any(String));
+    });
+
+    it('should return a null cursor for an empty page', async () => {
+      const db = await createTestOrm({ authors, books });
+
+      const page = await db().books.findPage({});
+
+      expect(page).toEqual({ items: [], pageInfo: { hasNextPage: false, endCursor: null } });
+    });
+
+    it('should work together with include', async () => {
+      const db = await seed();
+
+      const first = await db().books.findPage(
+        {},
+        { first: 3, sort: { rank: -1 }, include: { author: true } },
+      );
+      const second = await db().books.findPage(
+        {},
+        {
+          first: 3,
+          sort: { rank: -1 },
+          include: { author: true },
+          after: first.pageInfo.endCursor,
+        },
+      );
+
+      expect(first.items.map((book) => book.rank)).toEqual([5, 3, 2]);
+      expect(second.items.map((book) => book.rank)).toEqual([2, 1]);
+      expect(second.items[0]?.author?.name).toBe('Alice');
+    });
+
+    it('should page by sort fields outside the select', async () => {
+      const db = await seed();
+
+      const first = await db().books.findPage(
+        {},
+        { first: 3, sort: { rank: 1 }, select: { title: 1, _id: 0 } },
+      );
+      const second = await db().books.findPage(
+        {},
+        {
+          first: 3,
+          sort: { rank: 1 },
+          select: { title: 1, _id: 0 },
+          after: first.pageInfo.endCursor,
+        },
+      );
+
+      expect(first.items).toHaveLength(3);
+      expect(Object.keys(first.items[0]!)).toEqual(['title']);
+      expect(second.items).toHaveLength(2);
+      expect(second.pageInfo.hasNextPage).toBe(false);
+    });
+
+    it('should reject invalid cursors', async () => {
+      const db = await seed();
+
+      await expect(db().books.findPage({}, { after: 'not-a-cursor' })).rejects.toThrow(
+        InvalidCursorError,
+      );
+    });
+  });
+});
@@ -5,9 +5,10 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
 import { mongoCollection } from '../../collection/collection';
-import { string, objectId } from '../../schema/fields';
+import { string, objectId, boolean } from '../../schema/fields';
 import type { Mizzle } from '../../types/orm';
 import { ObjectId } from 'mongodb';
+import { PolicyDeniedError } from '../errors';
 
 describe('Policies', () => {
   let db: Mizzle;
@@ -96,6 +97,16 @@ describe('Policies', () => {
         })
       ).rejects.toThrow('Insert not allowed by policy');
     });
+
+    it('should throw a PolicyDeniedError with operation and collection', async () => {
+      const error = await db({ user: { id: user1_Id.toString() } })
+        .documents.create({ title: 'Someone Elses Doc', ownerId: user2_Id })
+        .catch((err: PolicyDeniedError) => err);
+
+      expect(error).toBeInstanceOf(PolicyDeniedError);
+      expect(error.operation).toBe('create');
+      expect(error.collection).toBe('documents');
+    });
   });
 
   describe('canUpdate', () => {
@@ -151,4 +162,91 @@ describe('Policies', () => {
       expect(deleted).toBe(false);
     });
   });
+
+  describe('writeFilter', () => {
+    // Everyone reads all notes, but only writes their own
+    const notes = mongoCollection(
+      'shared_notes',
+      {
+        title: string(),
+        authorId: objectId(),
+      },
+      {
+        policies: {
+          writeFilter: (ctx) => ({ authorId: new ObjectId(ctx.user?.id) }),
+        },
+      },
+    );
+
+    // Writes only reach drafts that are not archived
+    const drafts = mongoCollection(
+      'shared_drafts',
+      {
+        title: string(),
+        archived: boolean().optional(),
+      },
+      {
+        policies: {
+          writeFilter: () => ({ archived: false }),
+        },
+      },
+    );
+
+    let notesDb: Mizzle<{ notes: typeof notes; drafts: typeof drafts }>;
+
+    beforeAll(async () => {
+      notesDb = await createTestOrm({ notes, drafts });
+    });
+
+    async function seed() {
+      const raw = notesDb().notes.rawCollection();
+      await raw.insertOne({ title: 'Mine', authorId: user1_Id } as any);
+      await raw.insertOne({ title: 'Theirs', authorId: user2_Id } as any);
+      return notesDb({ user: { id: user1_Id.toString() } }).notes;
+    }
+
+    it('should keep reads on the read filter', async () => {
+      const notes1 = await seed();
+
+      expect(await notes1.count({})).toBe(2);
+    });
+
+    it('should restrict single updates and deletes', async () => {
+      const notes1 = await seed();
+      const theirs = await notes1.findOne({ title: 'Theirs' });
+
+      expect(await notes1.updateById(theirs!._id, { title: 'Hacked' })).toBeNull();
+      expect(await notes1.deleteById(theirs!._id)).toBe(false);
+    });
+
+    it('should restrict updateMany and deleteMany', async () => {
+      const notes1 = await seed();
+
+      expect(await notes1.updateMany({}, { title: 'Renamed' })).toBe(1);
+      expect(await notes1.deleteMany({})).toBe(1);
+      expect((await notes1.findMany({})).map((note) => note.title)).toEqual(['Theirs']);
+    });
+
+    it('should reject upserts matching documents outside the write filter', async () => {
+      const notes1 = await seed();
+
+      await expect(
+        notes1.upsert(
+          { title: 'Theirs' },
+          { create: { title: 'Theirs', authorId: user1_Id }, update: { title: 'Theirs' } },
+        ),
+      ).rejects.toThrow(PolicyDeniedError);
+      expect(await notes1.count({})).toBe(2);
+    });
+
+    it('should not copy the write filter into upserted documents', async () => {
+      const { doc, inserted } = await notesDb().drafts.upsert(
+        { title: 'Draft' },
+        { create: { title: 'Draft' }, update: { title: 'Draft' } },
+      );
+
+      expect(inserted).toBe(true);
+      expect(doc).not.toHaveProperty('archived');
+    });
+  });
 });
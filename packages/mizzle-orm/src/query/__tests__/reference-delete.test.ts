@@ -0,0 +1,241 @@
+/**
+ * Reference onDelete tests ('cascade' | 'restrict' | 'set-null')
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, array, objectId, boolean } from '../../schema/fields';
+import { reference } from '../../collection/relations';
+import { PolicyDeniedError, ReferentialIntegrityError } from '../errors';
+
+describe('Reference onDelete', () => {
+  const deletedComments: string[] = [];
+
+  const users = mongoCollection('ref_users', {
+    _id: objectId().internalId(),
+    name: string(),
+  });
+
+  const posts = mongoCollection(
+    'ref_posts',
+    {
+      _id: objectId().internalId(),
+      title: string(),
+      authorId: objectId(),
+    },
+    {
+      relations: {
+        author: reference(users, {
+          localField: 'authorId',
+          foreignField: '_id',
+          onDelete: 'cascade',
+        }),
+      },
+    },
+  );
+
+  const comments = mongoCollection(
+    'ref_comments',
+    {
+      _id: objectId().internalId(),
+      body: string(),
+      postId: objectId(),
+    },
+    {
+      bulkWrites: { mode: 'per-document' },
+      hooks: {
+        afterDelete: async (_ctx, doc) => {
+          deletedComments.push(doc.body);
+        },
+      },
+      relations: {
+        post: reference(posts, { localField: 'postId', foreignField: '_id', onDelete: 'cascade' }),
+      },
+    },
+  );
+
+  const bookmarks = mongoCollection(
+    'ref_bookmarks',
+    {
+      _id: objectId().internalId(),
+      postId: objectId().optional(),
+      postIds: array(objectId()).default([]),
+    },
+    {
+      relations: {
+        post: reference(posts, { localField: 'postId', foreignField: '_id', onDelete: 'set-null' }),
+        pinned: reference(posts, {
+          localField: 'postIds',
+          foreignField: '_id',
+          onDelete: 'set-null',
+        }),
+      },
+    },
+  );
+
+  const invoices = mongoCollection(
+    'ref_invoices',
+    {
+      _id: objectId().internalId(),
+      customerId: objectId(),
+    },
+    {
+      relations: {
+        customer: reference(users, {
+          localField: 'customerId',
+          foreignField: '_id',
+          onDelete: 'restrict',
+        }),
+      },
+    },
+  );
+
+  const reports = mongoCollection(
+    'ref_reports',
+    {
+      _id: objectId().internalId(),
+      commentId: objectId(),
+    },
+    {
+      relations: {
+        comment: reference(comments, {
+          localField: 'commentId',
+          foreignField: '_id',
+          onDelete: 'restrict',
+        }),
+      },
+    },
+  );
+
+  const notes = mongoCollection(
+    'ref_notes',
+    {
+      _id: objectId().internalId(),
+      authorId: objectId(),
+      locked: boolean().default(false),
+    },
+    {
+      policies: {
+        writeFilter: () => ({ locked: false }),
+      },
+      relations: {
+        author: reference(users, {
+          localField: 'authorId',
+          foreignField: '_id',
+          onDelete: 'cascade',
+        }),
+      },
+    },
+  );
+
+  let db: any;
+
+  beforeAll(async () => {
+    db = await createTestOrm({ users, posts, comments, bookmarks, invoices, reports, notes });
+  });
+
+  afterAll(async () => {
+    await teardownTestDb();
+  });
+
+  beforeEach(async () => {
+    await clearTestDb();
+    deletedComments.length = 0;
+  });
+
+  async function seedPost() {
+    const user = await db().users.create({ name: 'Alice' });
+    const post = await db().posts.create({ title: 'Hello', authorId: user._id });
+    await db().comments.create({ body: 'First', postId: post._id });
+    await db().comments.create({ body: 'Second', postId: post._id });
+    return { user, post };
+  }
+
+  it('should cascade deletes recursively through hooks', async () => {
+    const { user } = await seedPost();
+
+    await db().users.deleteById(user._id);
+
+    expect(await db().posts.count({})).toBe(0);
+    expect(await db().comments.count({})).toBe(0);
+    expect(deletedComments.sort()).toEqual(['First', 'Second']);
+  });
+
+  it('should null out single references and pull array references', async () => {
+    const { post } = await seedPost();
+    const other = await db().posts.create({ title: 'Other', authorId: post.authorId });
+    const bookmark = await db().bookmarks.create({
+      postId: post._id,
+      postIds: [post._id, other._id],
+    });
+
+    await db().posts.deleteMany({ title: 'Hello' });
+
+    const updated = await db().bookmarks.findById(bookmark._id);
+    expect(updated?.postId).toBeNull();
+    expect(updated?.postIds).toEqual([other._id]);
+  });
+
+  it('should block deletes of referenced documents with restrict', async () => {
+    const { user } = await seedPost();
+    await db().invoices.create({ customerId: user._id });
+    await db().invoices.create({ customerId: user._id });
+
+    const error = await db()
+      .users.deleteById(user._id)
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ReferentialIntegrityError);
+    expect(error.blocking).toEqual([
+      { collection: 'ref_invoices', relation: 'customer', count: 2 },
+    ]);
+    expect(error.message).toContain('still referenced by ref_invoices.customer (2)');
+    await expect(db().users.deleteMany({})).rejects.toThrow(ReferentialIntegrityError);
+    expect(await db().posts.count({})).toBe(1);
+  });
+
+  it('should check restricts below cascades before deleting anything', async () => {
+    const { user } = await seedPost();
+    const comment = await db().comments.findOne({ body: 'First' });
+    await db().reports.create({ commentId: comment._id });
+
+    const error = await db()
+      .users.deleteById(user._id)
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ReferentialIntegrityError);
+    expect(error.collection).toBe('ref_comments');
+    expect(await db().users.count({})).toBe(1);
+    expect(await db().posts.count({})).toBe(1);
+    expect(await db().comments.count({})).toBe(2);
+  });
+
+  it('should refuse cascades that would skip documents outside the write scope', async () => {
+    const { user } = await seedPost();
+    await db().notes.create({ authorId: user._id });
+    await db().notes.create({ authorId: user._id, locked: true });
+
+    await expect(db().users.deleteById(user._id)).rejects.toThrow(PolicyDeniedError);
+
+    expect(await db().users.count({})).toBe(1);
+    expect(await db().posts.count({})).toBe(1);
+    expect(await db().notes.count({})).toBe(2);
+  });
+
+  it('should roll back cascades when a later restrict fails in a transaction', async () => {
+    const { user } = await seedPost();
+    const admin = await db().users.create({ name: 'Admin' });
+    await db().invoices.create({ customerId: admin._id });
+
+    await expect(
+      db.tx({}, async (txDb: any) => {
+        await txDb().users.deleteById(user._id);
+        await txDb().users.deleteById(admin._id);
+      }),
+    ).rejects.toThrow(ReferentialIntegrityError);
+
+    expect(await db().users.count({})).toBe(2);
+    expect(await db().comments.count({})).toBe(2);
+  });
+});
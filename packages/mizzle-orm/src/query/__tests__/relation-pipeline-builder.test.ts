@@ -6,7 +6,7 @@
 import { describe, it, expect } from 'vitest';
 import { RelationPipelineBuilder } from '../relation-pipeline-builder';
 import { mongoCollection } from '../../collection/collection';
-import { lookup, embed } from '../../collection/relations';
+import { lookup, embed, manyToMany } from '../../collection/relations';
 import { string, objectId } from '../../schema/fields';
 
 describe('RelationPipelineBuilder', () => {
@@ -356,4 +356,93 @@ describe('RelationPipelineBuilder', () => {
       expect(pipeline[0]).toHaveProperty(['$lookup', 'as'], 'author');
     });
   });
+
+  describe('Many-to-many relations', () => {
+    const tags = mongoCollection('tags', {
+      _id: objectId().internalId(),
+      name: string(),
+      color: string(),
+    });
+
+    const postTags = mongoCollection('post_tags', {
+      _id: objectId().internalId(),
+      postId: objectId(),
+      tagId: objectId(),
+    });
+
+    const taggedPosts = mongoCollection(
+      'tagged_posts',
+      {
+        _id: objectId().internalId(),
+        title: string(),
+      },
+      {
+        relations: {
+          tags: manyToMany(tags, {
+            through: postTags,
+            sourceKey: 'postId',
+            targetKey: 'tagId',
+            sort: { name: 1 },
+          }),
+        },
+      },
+    );
+
+    it('should generate a nested $lookup through the join collection', () => {
+      const pipeline = RelationPipelineBuilder.buildPipeline(taggedPosts, 'tags');
+
+      expect(pipeline).toEqual([
+        {
+          $lookup: {
+            from: 'post_tags',
+            localField: '_id',
+            foreignField: 'postId',
+            as: 'tags',
+            pipeline: [
+              {
+                $lookup: {
+                  from: 'tags',
+                  localField: 'tagId',
+                  foreignField: '_id',
+                  as: 'target',
+                },
+              },
+              { $unwind: '$target' },
+              { $replaceRoot: { newRoot: '$target' } },
+              { $sort: { name: 1 } },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('should apply where, sort, limit and projection to the target documents', () => {
+      const pipeline = RelationPipelineBuilder.buildPipeline(taggedPosts, {
+        tags: {
+          where: { color: 'red' },
+          sort: { name: -1 },
+          limit: 3,
+          projection: { name: 1 },
+        },
+      });
+
+      const lookupStage = pipeline[0] as any;
+      expect(lookupStage.$lookup.pipeline.slice(3)).toEqual([
+        { $match: { color: 'red' } },
+        { $sort: { name: -1 } },
+        { $limit: 3 },
+        { $project: { _id: 1, name: 1 } },
+      ]);
+    });
+
+    it('should scope the join and target collections', () => {
+      const pipeline = RelationPipelineBuilder.buildPipeline(taggedPosts, 'tags', {
+        scopeFilter: (collection) => ({ scope: collection._meta.name }),
+      });
+
+      const lookupStage = pipeline[0] as any;
+      expect(lookupStage.$lookup.pipeline[0]).toEqual({ $match: { scope: 'post_tags' } });
+      expect(lookupStage.$lookup.pipeline[4]).toEqual({ $match: { scope: 'tags' } });
+    });
+  });
 });
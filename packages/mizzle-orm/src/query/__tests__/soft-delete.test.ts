@@ -5,7 +5,9 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
 import { mongoCollection } from '../../collection/collection';
-import { string, date } from '../../schema/fields';
+import { string, date, objectId } from '../../schema/fields';
+import { embed, lookup } from '../../collection/relations';
+import { softDeleteFilter } from '../soft-delete';
 
 describe('Soft Delete', () => {
   let db: any;
@@ -17,8 +19,53 @@ describe('Soft Delete', () => {
     deletedAt: date().softDeleteFlag().optional(),
   });
 
+  const projects = mongoCollection(
+    'projects',
+    {
+      _id: objectId().internalId(),
+      name: string(),
+    },
+    {
+      relations: {
+        tasks: lookup(tasks, { localField: '_id', foreignField: 'projectId' }),
+      },
+    },
+  );
+
+  const authors = mongoCollection(
+    'sd_authors',
+    {
+      _id: objectId().internalId(),
+      name: string(),
+      deletedAt: date().softDeleteFlag().optional(),
+    },
+    {
+      hooks: {
+        beforeUpdate: async (_ctx, _oldDoc, update) => ({ ...update, name: 'Archived' }),
+      },
+    },
+  );
+
+  const posts = mongoCollection(
+    'sd_posts',
+    {
+      _id: objectId().internalId(),
+      title: string(),
+      authorId: objectId(),
+      deletedAt: date().softDeleteFlag().optional(),
+    },
+    {
+      relations: {
+        author: embed(authors, {
+          forward: { from: 'authorId', fields: ['name'] },
+          onSourceDelete: 'cascade',
+        }),
+      },
+    },
+  );
+
   beforeAll(async () => {
-    db = await createTestOrm({ tasks });
+    db = await createTestOrm({ tasks, projects, authors, posts });
   });
 
   afterAll(async () => {
@@ -120,4 +167,164 @@ describe('Soft Delete', () => {
       );
     });
   });
+
+  describe('softDeleteFilter()', () => {
+    it('should hide deleted documents by default', () => {
+      expect(softDeleteFilter(tasks)).toEqual({ deletedAt: null });
+      expect(softDeleteFilter(tasks, { onlyDeleted: true })).toEqual({ deletedAt: { $ne: null } });
+      expect(softDeleteFilter(tasks, { withDeleted: true })).toBeNull();
+      expect(softDeleteFilter(projects)).toBeNull();
+    });
+
+    it('should reject withDeleted combined with onlyDeleted', () => {
+      expect(() => softDeleteFilter(tasks, { withDeleted: true, onlyDeleted: true })).toThrow(
+        'cannot be combined',
+      );
+    });
+  });
+
+  describe('soft-delete aware reads', () => {
+    async function seed() {
+      const live = await db().tasks.create({ title: 'Live' });
+      const deleted = await db().tasks.create({ title: 'Deleted' });
+      await db().tasks.softDelete(deleted._id);
+      return { live, deleted };
+    }
+
+    it('should exclude deleted documents from find and count', async () => {
+      const { deleted } = await seed();
+
+      expect((await db().tasks.findMany({})).map((t: any) => t.title)).toEqual(['Live']);
+      expect(await db().tasks.findById(deleted._id)).toBeNull();
+      expect(await db().tasks.findOne({ title: 'Deleted' })).toBeNull();
+      expect(await db().tasks.count({})).toBe(1);
+    });
+
+    it('should include deleted documents with withDeleted', async () => {
+      const { deleted } = await seed();
+
+      expect(await db().tasks.findMany({}, { withDeleted: true })).toHaveLength(2);
+      expect(await db().tasks.findById(deleted._id, { withDeleted: true })).not.toBeNull();
+      expect(await db().tasks.count({}, { withDeleted: true })).toBe(2);
+    });
+
+    it('should return only deleted documents with onlyDeleted', async () => {
+      await seed();
+
+      const found = await db().tasks.findMany({}, { onlyDeleted: true });
+
+      expect(found.map((t: any) => t.title)).toEqual(['Deleted']);
+    });
+
+    it('should hide deleted documents in include lookups', async () => {
+      const project = await db().projects.create({ name: 'Apollo' });
+      const raw = db().tasks.rawCollection();
+      await raw.insertMany([
+        { title: 'Open', projectId: project._id, deletedAt: null },
+        { title: 'Removed', projectId: project._id, deletedAt: new Date() },
+      ]);
+
+      const [withLive] = await db().projects.findMany({}, { include: { tasks: true } });
+      const [withAll] = await db().projects.findMany(
+        {},
+        { include: { tasks: true }, withDeleted: true },
+      );
+
+      expect(withLive.tasks.map((t: any) => t.title)).toEqual(['Open']);
+      expect(withAll.tasks).toHaveLength(2);
+    });
+
+    it('should still restore deleted documents', async () => {
+      const { deleted } = await seed();
+
+      await db().tasks.restore(deleted._id);
+
+      expect(await db().tasks.count({})).toBe(2);
+    });
+  });
+
+  describe('purgeDeleted()', () => {
+    it('should permanently remove soft-deleted documents', async () => {
+      await db().tasks.create({ title: 'Live' });
+      const deleted = await db().tasks.create({ title: 'Deleted' });
+      await db().tasks.softDelete(deleted._id);
+
+      const purged = await db().tasks.purgeDeleted();
+
+      expect(purged).toBe(1);
+      expect(await db().tasks.count({}, { withDeleted: true })).toBe(1);
+    });
+
+    it('should only purge documents deleted before olderThan', async () => {
+      const raw = db().tasks.rawCollection();
+      await raw.insertMany([
+        { title: 'Old', deletedAt: new Date('2020-01-01') },
+        { title: 'Recent', deletedAt: new Date() },
+      ]);
+
+      const purged = await db().tasks.purgeDeleted({ olderThan: new Date('2021-01-01') });
+
+      expect(purged).toBe(1);
+      const remaining = await db().tasks.findMany({}, { onlyDeleted: true });
+      expect(remaining.map((t: any) => t.title)).toEqual(['Recent']);
+    });
+  });
+
+  describe('softDeleteMany() / restoreMany()', () => {
+    it('should soft delete and restore documents matching a filter', async () => {
+      await db().tasks.create({ title: 'A' });
+      await db().tasks.create({ title: 'A' });
+      await db().tasks.create({ title: 'B' });
+
+      const deleted = await db().tasks.softDeleteMany({ title: 'A' });
+
+      expect(deleted).toEqual({ modified: 2, cascaded: {} });
+      expect(await db().tasks.count({})).toBe(1);
+
+      const restored = await db().tasks.restoreMany({}, { batchSize: 1 });
+
+      expect(restored.modified).toBe(2);
+      expect(await db().tasks.count({})).toBe(3);
+    });
+
+    it('should run update hooks per document', async () => {
+      const author = await db().authors.create({ name: 'Alice' });
+
+      await db().authors.softDeleteMany({ _id: author._id });
+
+      const stored = await db().authors.findById(author._id, { withDeleted: true });
+      expect(stored?.name).toBe('Archived');
+    });
+
+    it('should cascade the soft delete to embedding documents', async () => {
+      const alice = await db().authors.create({ name: 'Alice' });
+      const bob = await db().authors.create({ name: 'Bob' });
+      await db().posts.create({ title: 'Alice 1', authorId: alice._id });
+      await db().posts.create({ title: 'Alice 2', authorId: alice._id });
+      await db().posts.create({ title: 'Bob 1', authorId: bob._id });
+
+      const result = await db().authors.softDeleteMany({ _id: alice._id }, { cascade: true });
+
+      expect(result).toEqual({ modified: 1, cascaded: { sd_posts: 2 } });
+      const live = await db().posts.findMany({});
+      expect(live.map((p: any) => p.title)).toEqual(['Bob 1']);
+      expect(await db().posts.count({}, { withDeleted: true })).toBe(3);
+    });
+
+    it('should only restore embedding documents deleted with their source', async () => {
+      const alice = await db().authors.create({ name: 'Alice' });
+      const draft = await db().posts.create({ title: 'Draft', authorId: alice._id });
+      await db().posts.create({ title: 'Published', authorId: alice._id });
+      await db()
+        .posts.rawCollection()
+        .updateOne({ _id: draft._id }, { $set: { deletedAt: new Date('2020-01-01') } });
+
+      await db().authors.softDeleteMany({ _id: alice._id }, { cascade: true });
+      const result = await db().authors.restoreMany({ _id: alice._id }, { cascade: true });
+
+      expect(result).toEqual({ modified: 1, cascaded: { sd_posts: 1 } });
+      const live = await db().posts.findMany({});
+      expect(live.map((p: any) => p.title)).toEqual(['Published']);
+    });
+  });
 });
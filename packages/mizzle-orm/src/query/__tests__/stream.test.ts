@@ -0,0 +1,152 @@
+/**
+ * Streaming reads tests (stream)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { setupTestDb, teardownTestDb, clearTestDb } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, number, objectId } from '../../schema/fields';
+import { embed } from '../../collection/relations';
+import { mizzle } from '../../orm/orm';
+import type { Middleware, MiddlewareContext } from '../../types/middleware';
+
+describe('stream()', () => {
+  const customers = mongoCollection('stream_customers', {
+    _id: objectId().internalId(),
+    name: string(),
+  });
+
+  const orders = mongoCollection(
+    'stream_orders',
+    {
+      _id: objectId().internalId(),
+      number: number(),
+      ownerId: objectId(),
+      customerId: objectId(),
+    },
+    {
+      relations: {
+        customer: embed(customers, {
+          forward: { from: 'customerId', projection: { name: 1 } },
+        }),
+      },
+      policies: {
+        readFilter: (ctx) => (ctx.user?.id ? { ownerId: new ObjectId(ctx.user.id) } : {}),
+      },
+    },
+  );
+
+  const seen: MiddlewareContext[] = [];
+  const capture: Middleware = async (ctx, next) => {
+    seen.push(ctx);
+    return next();
+  };
+
+  const ownerId = new ObjectId();
+  let db: any;
+
+  beforeAll(async () => {
+    const { uri } = await setupTestDb();
+    db = await mizzle({
+      uri,
+      dbName: 'test',
+      schema: { customers, orders },
+      middlewares: [capture],
+    });
+  });
+
+  afterAll(async () => {
+    await db?.close();
+    await teardownTestDb();
+  });
+
+  beforeEach(async () => {
+    await clearTestDb();
+    seen.length = 0;
+  });
+
+  async function seed(count: number) {
+    const customer = await db().customers.create({ name: 'Acme' });
+    await db().orders.createMany(
+      Array.from({ length: count }, (_, i) => ({
+        number: i,
+        ownerId: i % 2 === 0 ? ownerId : new ObjectId(),
+        customerId: customer._id,
+      })),
+    );
+    seen.length = 0;
+    return customer;
+  }
+
+  async function collect(iterable: AsyncIterable<any>) {
+    const docs: any[] = [];
+    for await (const doc of iterable) {
+      docs.push(doc);
+    }
+    return docs;
+  }
+
+  it('should yield every matching document across batches', async () => {
+    await seed(25);
+
+    const docs = await collect(db().orders.stream({}, { batchSize: 4, sort: { number: 1 } }));
+
+    expect(docs.map((doc) => doc.number)).toEqual(Array.from({ length: 25 }, (_, i) => i));
+  });
+
+  it('should apply the root select', async () => {
+    await seed(3);
+
+    const docs = await collect(
+      db().orders.stream({}, { sort: { number: 1 }, select: { number: 1, _id: 0 } }),
+    );
+
+    expect(docs).toEqual([{ number: 0 }, { number: 1 }, { number: 2 }]);
+  });
+
+  it('should apply policies', async () => {
+    await seed(10);
+
+    const docs = await collect(db({ user: { id: ownerId.toHexString() } }).orders.stream({}));
+
+    expect(docs).toHaveLength(5);
+    expect(docs.every((doc) => doc.ownerId.equals(ownerId))).toBe(true);
+  });
+
+  it('should run middlewares with the stream operation', async () => {
+    await seed(3);
+
+    await collect(db().orders.stream({ number: { $gte: 1 } }));
+
+    expect(seen).toHaveLength(1);
+    expect(seen[0]?.operation).toBe('stream');
+    expect(seen[0]?.filter).toEqual({ number: { $gte: 1 } });
+  });
+
+  it('should refresh embeds per batch', async () => {
+    const customer = await seed(6);
+    await db()
+      .customers.rawCollection()
+      .updateOne({ _id: customer._id }, { $set: { name: 'Renamed' } });
+
+    const docs = await collect(
+      db().orders.stream({}, { batchSize: 4, refreshEmbeds: ['customer'] }),
+    );
+
+    expect(docs).toHaveLength(6);
+    expect(docs.every((doc) => doc.customer.name === 'Renamed')).toBe(true);
+  });
+
+  it('should stop cleanly when the consumer breaks early', async () => {
+    await seed(20);
+
+    const docs: any[] = [];
+    for await (const doc of db().orders.stream({}, { batchSize: 5 })) {
+      docs.push(doc);
+      if (docs.length === 7) break;
+    }
+
+    expect(docs).toHaveLength(7);
+  });
+});
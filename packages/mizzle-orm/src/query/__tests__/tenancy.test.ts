@@ -0,0 +1,172 @@
+/**
+ * Multi-tenancy scoping tests (.tenantKey())
+ */
+
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, objectId } from '../../schema/fields';
+import { lookup } from '../../collection/relations';
+import { assertTenantUpdate, getTenantKeyField, stampTenant, tenantFilter } from '../tenancy';
+import { TenantScopeError } from '../errors';
+
+describe('Multi-tenancy', () => {
+  const projects = mongoCollection('tenant_projects', {
+    _id: objectId().internalId(),
+    orgId: objectId().tenantKey(),
+    name: string(),
+  });
+
+  const tasks = mongoCollection(
+    'tenant_tasks',
+    {
+      _id: objectId().internalId(),
+      orgId: objectId().tenantKey(),
+      projectName: string(),
+      title: string(),
+    },
+    {
+      relations: {
+        project: lookup(projects, {
+          localField: 'projectName',
+          foreignField: 'name',
+          one: true,
+        }),
+      },
+    },
+  );
+
+  const labels = mongoCollection('tenant_labels', {
+    _id: objectId().internalId(),
+    name: string(),
+  });
+
+  const orgA = new ObjectId();
+  const orgB = new ObjectId();
+
+  describe('helpers', () => {
+    const ctx = { tenantId: orgA.toHexString(), tenantIdObjectId: orgA };
+
+    it('should find the tenant key field', () => {
+      expect(getTenantKeyField(projects)).toBe('orgId');
+      expect(getTenantKeyField(labels)).toBeNull();
+    });
+
+    it('should build a filter typed like the tenant key', () => {
+      expect(tenantFilter(projects, ctx)).toEqual({ orgId: orgA });
+      expect(tenantFilter(labels, ctx)).toBeNull();
+    });
+
+    it('should require ctx.tenantId for tenant-keyed collections', () => {
+      expect(() => tenantFilter(projects, {})).toThrow(TenantScopeError);
+      expect(tenantFilter(labels, {})).toBeNull();
+    });
+
+    it('should stamp inserts and reject another tenant', () => {
+      expect(stampTenant(projects, ctx, { name: 'Apollo' })).toEqual({
+        name: 'Apollo',
+        orgId: orgA,
+      });
+      expect(() => stampTenant(projects, ctx, { name: 'Apollo', orgId: orgB })).toThrow(
+        'cannot insert a document for tenant',
+      );
+    });
+
+    it('should reject updates moving documents to another tenant', () => {
+      expect(() => assertTenantUpdate(projects, ctx, { orgId: orgA })).not.toThrow();
+      expect(() => assertTenantUpdate(projects, ctx, { orgId: orgB })).toThrow(TenantScopeError);
+      expect(() => assertTenantUpdate(projects, ctx, { $unset: { orgId: '' } })).toThrow(
+        'can only be changed with $set',
+      );
+    });
+  });
+
+  describe('facade', () => {
+    afterAll(async () => {
+      await teardownTestDb();
+    });
+
+    beforeEach(async () => {
+      await clearTestDb();
+    });
+
+    async function seed() {
+      const db = await createTestOrm({ projects, tasks, labels });
+      const a = db({ tenantId: orgA.toHexString() });
+      const b = db({ tenantId: orgB.toHexString() });
+      await a.projects.create({ name: 'Apollo' });
+      await b.projects.create({ name: 'Apollo' });
+      await b.projects.create({ name: 'Gemini' });
+      return { db, a, b };
+    }
+
+    it('should stamp the tenant on create', async () => {
+      const { a } = await seed();
+
+      const project = await a.projects.create({ name: 'Mercury' });
+
+      expect(project.orgId.equals(orgA)).toBe(true);
+    });
+
+    it('should only read documents of the current tenant', async () => {
+      const { a, b } = await seed();
+
+      expect(await a.projects.count({})).toBe(1);
+      expect((await b.projects.findMany({})).map((p) => p.name).sort()).toEqual([
+        'Apollo',
+        'Gemini',
+      ]);
+      expect(await a.projects.findOne({ name: 'Gemini' })).toBeNull();
+    });
+
+    it('should not update or delete documents of another tenant', async () => {
+      const { a, b } = await seed();
+      const gemini = await b.projects.findOne({ name: 'Gemini' });
+
+      expect(await a.projects.updateById(gemini!._id, { name: 'Hijacked' })).toBeNull();
+      expect(await a.projects.deleteById(gemini!._id)).toBe(false);
+      expect(await a.projects.updateMany({}, { name: 'Renamed' })).toBe(1);
+      expect(await b.projects.count({ name: 'Renamed' })).toBe(0);
+    });
+
+    it('should reject moving a document to another tenant', async () => {
+      const { a } = await seed();
+      const apollo = await a.projects.findOne({ name: 'Apollo' });
+
+      await expect(a.projects.updateById(apollo!._id, { orgId: orgB })).rejects.toThrow(
+        TenantScopeError,
+      );
+    });
+
+    it('should scope included relations', async () => {
+      const { a } = await seed();
+      await a.tasks.create({ projectName: 'Apollo', title: 'Launch' });
+
+      const [task] = await a.tasks.findMany({}, { include: { project: true } });
+
+      expect(task?.project?.orgId.equals(orgA)).toBe(true);
+    });
+
+    it('should scope raw aggregations', async () => {
+      const { b } = await seed();
+
+      const result = await b.projects.aggregate([{ $count: 'total' }]);
+
+      expect(result).toEqual([{ total: 2 }]);
+    });
+
+    it('should require a tenant for tenant-keyed collections only', async () => {
+      const { db } = await seed();
+
+      await expect(db().projects.findMany({})).rejects.toThrow('ctx.tenantId is required');
+      await expect(db().labels.findMany({})).resolves.toEqual([]);
+    });
+
+    it('should allow cross-tenant access through unscoped()', async () => {
+      const { db } = await seed();
+
+      expect(await db().projects.unscoped().count({})).toBe(3);
+    });
+  });
+});
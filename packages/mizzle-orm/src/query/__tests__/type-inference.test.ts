@@ -386,4 +386,68 @@ describe('Type Inference', () => {
       console.log(orgType);
     }
   });
+
+  it('should narrow root documents with select', async () => {
+    await db().users.create({ name: 'Selected', email: 'selected@example.com' });
+
+    const users = await db().users.findMany({}, { select: { name: 1 } });
+    const user = users[0];
+    expect(user).toBeDefined();
+
+    if (user) {
+      const name: string = user.name;
+      const id = user._id; // _id always included
+
+      // @ts-expect-error - email was not selected
+      const email = user.email;
+
+      expect(name).toBe('Selected');
+      expect(id).toBeDefined();
+      expect(email).toBeUndefined();
+    }
+  });
+
+  it('should support exclusion in select', async () => {
+    await db().users.create({ name: 'Excluded', email: 'excluded@example.com' });
+
+    const user = await db().users.findOne({ name: 'Excluded' }, { select: { email: 0 } });
+    expect(user).toBeDefined();
+
+    if (user) {
+      const name: string = user.name;
+
+      // @ts-expect-error - email was excluded
+      const email = user.email;
+
+      expect(name).toBe('Excluded');
+      expect(email).toBeUndefined();
+    }
+  });
+
+  it('should combine select with include', async () => {
+    const org = await db().organizations.create({ name: 'Select Org' });
+    const user = await db().users.create({
+      name: 'Author',
+      email: 'author@example.com',
+      organizationId: org._id,
+    });
+
+    const found = await db().users.findById(user._id, {
+      select: { name: 1, organizationId: 1 },
+      include: { organization: true },
+    });
+    expect(found).toBeDefined();
+
+    if (found) {
+      const name: string = found.name;
+      const orgName = found.organization?.name;
+
+      // @ts-expect-error - email was not selected
+      const email = found.email;
+
+      expect(name).toBe('Author');
+      expect(orgName).toBe('Select Org');
+      expect(email).toBeUndefined();
+    }
+  });
 });
@@ -0,0 +1,156 @@
+/**
+ * Update operator tests ($inc, $push, $pull, $unset, ...)
+ */
+
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { teardownTestDb, clearTestDb, createTestOrm } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, number, array, date, objectId } from '../../schema/fields';
+import { embed } from '../../collection/relations';
+import {
+  getUpdatedFields,
+  isOperatorUpdate,
+  replaceSetFields,
+  toUpdateOperators,
+  withSetFields,
+} from '../update-operators';
+
+describe('Update Operators', () => {
+  describe('helpers', () => {
+    it('should detect operator updates', () => {
+      expect(isOperatorUpdate({ $inc: { views: 1 } })).toBe(true);
+      expect(isOperatorUpdate({ title: 'Hello' })).toBe(false);
+    });
+
+    it('should reject mixed operators and plain fields', () => {
+      expect(() => isOperatorUpdate({ $inc: { views: 1 }, title: 'Hello' })).toThrow(
+        'Cannot mix update operators',
+      );
+    });
+
+    it('should wrap plain updates in $set', () => {
+      expect(toUpdateOperators({ title: 'Hello' })).toEqual({ $set: { title: 'Hello' } });
+    });
+
+    it('should list root fields touched by an update', () => {
+      expect(
+        getUpdatedFields({
+          $set: { title: 'Hello' },
+          $inc: { 'stats.views': 1 },
+          $rename: { old: 'renamed' },
+        }),
+      ).toEqual(['title', 'stats', 'old', 'renamed']);
+      expect(
+        getUpdatedFields({ $set: { title: 'Hello' }, $push: { tags: 'a' } }, { excludeSet: true }),
+      ).toEqual(['tags']);
+    });
+
+    it('should not overwrite fields targeted by other operators', () => {
+      const now = new Date();
+      expect(withSetFields({ $currentDate: { updatedAt: true } }, { updatedAt: now })).toEqual({
+        $currentDate: { updatedAt: true },
+      });
+      expect(withSetFields({ $inc: { views: 1 } }, { updatedAt: now })).toEqual({
+        $inc: { views: 1 },
+        $set: { updatedAt: now },
+      });
+    });
+
+    it('should drop an empty $set payload', () => {
+      expect(replaceSetFields({ $inc: { views: 1 }, $set: { a: 1 } }, {})).toEqual({
+        $inc: { views: 1 },
+      });
+    });
+  });
+
+  describe('facade updates', () => {
+    const tags = mongoCollection('op_tags', {
+      _id: objectId().internalId(),
+      name: string(),
+    });
+
+    const posts = mongoCollection(
+      'op_posts',
+      {
+        _id: objectId().internalId(),
+        title: string(),
+        views: number().default(0),
+        labels: array(string()).default([]),
+        subtitle: string().optional(),
+        tagIds: array(objectId()).default([]),
+        updatedAt: date().onUpdateNow(),
+      },
+      {
+        relations: {
+          tags: embed(tags, {
+            forward: { from: 'tagIds', projection: { name: 1 } },
+          }),
+        },
+      },
+    );
+
+    afterAll(async () => {
+      await teardownTestDb();
+    });
+
+    beforeEach(async () => {
+      await clearTestDb();
+    });
+
+    it('should apply $inc and set onUpdateNow fields', async () => {
+      const db = await createTestOrm({ tags, posts });
+      const post = await db().posts.create({ title: 'Counter' });
+
+      const updated = await db().posts.updateById(post._id, { $inc: { views: 2 } });
+
+      expect(updated?.views).toBe(2);
+      expect(updated?.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should apply $push with $each, $pull and $unset', async () => {
+      const db = await createTestOrm({ tags, posts });
+      const post = await db().posts.create({ title: 'Arrays', subtitle: 'Remove me' });
+
+      await db().posts.updateById(post._id, { $push: { labels: { $each: ['a', 'b', 'c'] } } });
+      const updated = await db().posts.updateById(post._id, {
+        $pull: { labels: 'b' },
+        $unset: { subtitle: '' },
+      });
+
+      expect(updated?.labels).toEqual(['a', 'c']);
+      expect(updated).not.toHaveProperty('subtitle');
+    });
+
+    it('should support operators in updateMany', async () => {
+      const db = await createTestOrm({ tags, posts });
+      await db().posts.createMany([{ title: 'A' }, { title: 'B' }]);
+
+      const modified = await db().posts.updateMany({}, { $inc: { views: 5 } });
+
+      expect(modified).toBe(2);
+      const all = await db().posts.findMany({});
+      expect(all.map((p) => p.views)).toEqual([5, 5]);
+    });
+
+    it('should re-embed forward relations when IDs are pushed or pulled', async () => {
+      const db = await createTestOrm({ tags, posts });
+      const [red, blue] = await db().tags.createMany([{ name: 'red' }, { name: 'blue' }]);
+      const post = await db().posts.create({ title: 'Tagged', tagIds: [red!._id] });
+
+      const pushed: any = await db().posts.updateById(post._id, { $push: { tagIds: blue!._id } });
+      expect(pushed.tags.map((t: any) => t.name)).toEqual(['red', 'blue']);
+
+      await db().posts.updateById(post._id, { $pull: { tagIds: red!._id } });
+      const pulled: any = await db().posts.updateById(post._id, { $pull: { tagIds: blue!._id } });
+      expect(pulled.tags).toEqual([]);
+    });
+
+    it('should reject updateOne upsert with operators', async () => {
+      const db = await createTestOrm({ tags, posts });
+
+      await expect(
+        db().posts.updateOne({ title: 'Missing' }, { $inc: { views: 1 } }, { upsert: true }),
+      ).rejects.toThrow('use upsert()');
+    });
+  });
+});
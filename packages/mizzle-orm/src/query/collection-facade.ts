@@ -2,15 +2,154 @@
  * Collection facade - provides type-safe CRUD operations for a collection
  */
 
-import { Collection, ObjectId, type Db, type Document } from 'mongodb';
-import type { CollectionDefinition, RelationTargets } from '../types/collection';
-import type { OrmContext, QueryOptions } from '../types/orm';
-import type { SchemaDefinition } from '../types/field';
-import type { Filter } from '../types/inference';
+import {
+  Collection,
+  MongoBulkWriteError,
+  ObjectId,
+  type AbstractCursor,
+  type Db,
+  type Document,
+} from 'mongodb';
+import type {
+  AnyRelation,
+  BulkWriteConfig,
+  CollectionDefinition,
+  ForwardEmbedConfig,
+  ManyToManyRelation,
+  ManyToManyRelationKeys,
+  RelationTargets,
+} from '../types/collection';
+import type {
+  AttachOptions,
+  CheckEmbedsOptions,
+  CreateManyOptions,
+  EmbedCheckReport,
+  FindPageOptions,
+  OrmContext,
+  PurgeDeletedOptions,
+  QueryOptions,
+  RefreshEmbedsOptions,
+  RefreshStats,
+  SoftDeleteManyOptions,
+  SoftDeleteManyResult,
+  SoftDeleteOptions,
+  StreamOptions,
+  SyncRelationResult,
+  UpdateOneOptions,
+  UpsertData,
+  UpsertResult,
+  ValidationConfig,
+} from '../types/orm';
+import { FieldType, type SchemaDefinition } from '../types/field';
+import type { Filter, UpdateData } from '../types/inference';
 import type { Middleware, MiddlewareContext, Operation } from '../types/middleware';
 import { generatePublicId } from '../utils/public-id';
+import { PathNavigator } from '../utils/path-navigator';
+import { mapWithConcurrency } from '../utils/concurrency';
 import { RelationHelper } from './relations';
-import { RelationPipelineBuilder } from './relation-pipeline-builder';
+import { RelationPipelineBuilder, type PipelineOptions } from './relation-pipeline-builder';
+import { PolicyDeniedError, ReferentialIntegrityError } from './errors';
+import { getSoftDeleteField, softDeleteFilter } from './soft-delete';
+import { assertReadableSort, assertWritableFields, stripUnreadableFields } from './field-access';
+import { assertTenantUpdate, stampTenant, tenantFilter } from './tenancy';
+import {
+  assertOwner,
+  assertOwnerUnchanged,
+  getOwnerKeyField,
+  ownerFilter,
+  stampOwner,
+  toOwnerValue,
+} from './ownership';
+import type { QueryGuard } from './query-guard';
+import type { EmbedOutbox } from './embed-outbox';
+import {
+  propagateEmbed,
+  shouldPropagateUpdate,
+  type ReverseEmbedTarget,
+} from './embed-propagation';
+import {
+  embedMatchFilter,
+  embedRemovalWrites,
+  embeddedFieldNames,
+  toEmbedIds,
+  type EmbedShape,
+} from './embed-shape';
+import {
+  classifyEmbeds,
+  MAX_CHECKPOINT_ERRORS,
+  REFRESH_CHECKPOINT_COLLECTION,
+  type RefreshCheckpoint,
+} from './embed-check';
+import {
+  CursorCodec,
+  keysetFilter,
+  normalizeSort,
+  selectWithSortKeys,
+  toSortSpec,
+  unsetPaths,
+} from './pagination';
+import {
+  getSetFields,
+  getUpdatedFields,
+  isOperatorUpdate,
+  replaceSetFields,
+  toUpdateOperators,
+  withSetFields,
+} from './update-operators';
+import {
+  isValidationEnabled,
+  resolveValidationConfig,
+  validateAgainstSchema,
+} from '../validation/collection-validator';
+
+/**
+ * Per-ORM state shared by all facades
+ */
+export interface CollectionFacadeOptions {
+  reverseEmbedRegistry?: Map<string, ReverseEmbedTarget[]>;
+  deleteRegistry?: Map<
+    string,
+    Array<{
+      targetCollectionName: string;
+      targetCollectionDef: CollectionDefinition<any, any>;
+      relationName: string;
+      config: any;
+      shape: EmbedShape;
+      deleteAction: string;
+    }>
+  >;
+  referenceDeleteRegistry?: Map<
+    string,
+    Array<{
+      referencingCollectionDef: CollectionDefinition<any, any>;
+      relationName: string;
+      localField: string;
+      foreignField: string;
+      onDelete: 'cascade' | 'restrict' | 'set-null';
+    }>
+  >;
+  globalMiddlewares?: Middleware[];
+  collectionMiddlewares?: Middleware[];
+  queryGuard?: QueryGuard;
+  validation?: ValidationConfig;
+  cursorCodec?: CursorCodec;
+  embedOutbox?: EmbedOutbox;
+  unscoped?: boolean; // Skip tenant scoping (see unscoped())
+}
+
+/**
+ * MongoDB error code for a unique index violation
+ */
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Source document of attach/detach/sync with its manyToMany relation
+ */
+interface ManyToManyLink {
+  relation: ManyToManyRelation;
+  sourceKey: unknown; // localField value of the source document
+  join: CollectionFacade; // Join collection facade
+}
 
 /**
  * Collection facade providing CRUD operations
@@ -31,48 +170,42 @@ export class CollectionFacade<
   private ctx: OrmContext;
   private relationHelper: RelationHelper<TDoc>;
   private db: Db;
-  private reverseEmbedRegistry?: Map<
-    string,
-    Array<{ targetCollectionName: string; relationName: string; config: any }>
-  >;
-  private deleteRegistry?: Map<
-    string,
-    Array<{ targetCollectionName: string; relationName: string; config: any; deleteAction: string }>
-  >;
+  private reverseEmbedRegistry?: CollectionFacadeOptions['reverseEmbedRegistry'];
+  private deleteRegistry?: CollectionFacadeOptions['deleteRegistry'];
+  private referenceDeleteRegistry?: CollectionFacadeOptions['referenceDeleteRegistry'];
   private globalMiddlewares: Middleware[];
   private collectionMiddlewares: Middleware[];
+  private queryGuard?: QueryGuard;
+  private validation: Required<ValidationConfig>;
+  private cursorCodec: CursorCodec;
+  private embedOutbox?: EmbedOutbox;
+  private options: CollectionFacadeOptions;
+  private unscopedMode: boolean;
 
   constructor(
     db: Db,
     collectionDef: CollectionDefinition<SchemaDefinition, TRelationTargets>,
     ctx: OrmContext,
-    options?: {
-      reverseEmbedRegistry?: Map<
-        string,
-        Array<{ targetCollectionName: string; relationName: string; config: any }>
-      >;
-      deleteRegistry?: Map<
-        string,
-        Array<{
-          targetCollectionName: string;
-          relationName: string;
-          config: any;
-          deleteAction: string;
-        }>
-      >;
-      globalMiddlewares?: Middleware[];
-      collectionMiddlewares?: Middleware[];
-    },
+    options: CollectionFacadeOptions = {},
   ) {
     this.db = db;
     this.collection = db.collection<TDoc>(collectionDef._meta.name);
     this.collectionDef = collectionDef;
     this.ctx = ctx;
-    this.relationHelper = new RelationHelper<TDoc>(db, collectionDef, ctx);
-    this.reverseEmbedRegistry = options?.reverseEmbedRegistry;
-    this.deleteRegistry = options?.deleteRegistry;
-    this.globalMiddlewares = options?.globalMiddlewares || [];
-    this.collectionMiddlewares = options?.collectionMiddlewares || [];
+    this.options = options;
+    this.unscopedMode = options.unscoped ?? false;
+    this.relationHelper = new RelationHelper<TDoc>(db, collectionDef, ctx, (targetDef) =>
+      this.scopeFor(targetDef),
+    );
+    this.reverseEmbedRegistry = options.reverseEmbedRegistry;
+    this.deleteRegistry = options.deleteRegistry;
+    this.referenceDeleteRegistry = options.referenceDeleteRegistry;
+    this.globalMiddlewares = options.globalMiddlewares || [];
+    this.collectionMiddlewares = options.collectionMiddlewares || [];
+    this.queryGuard = options.queryGuard;
+    this.validation = resolveValidationConfig(options.validation, collectionDef);
+    this.cursorCodec = options.cursorCodec || new CursorCodec();
+    this.embedOutbox = options.embedOutbox;
   }
 
   /**
@@ -109,6 +242,22 @@ export class CollectionFacade<
     return chain();
   }
 
+  /**
+   * Facade for the same collection without tenant scoping
+   * For admin and maintenance jobs that work across tenants; policies still apply
+   *
+   * @example
+   * const open = await db().orders.unscoped().count({ status: 'open' });
+   */
+  unscoped(): CollectionFacade<TDoc, TInsert, TUpdate, TRelationTargets> {
+    return new CollectionFacade<TDoc, TInsert, TUpdate, TRelationTargets>(
+      this.db,
+      this.collectionDef,
+      this.ctx,
+      { ...this.options, unscoped: true },
+    );
+  }
+
   /**
    * Find a document by ID (_id or public ID)
    */
@@ -118,7 +267,8 @@ export class CollectionFacade<
       async () => {
         const filter = this.buildIdFilter(id);
         // Call the inner logic of findOne directly to avoid double middleware execution
-        const finalFilter = this.applyPolicies(filter);
+        const finalFilter = this.applyPolicies(this.applySoftDelete(filter, options));
+        await this.guardQuery('findById', finalFilter);
 
         // If include is specified, use aggregation pipeline
         if (options?.include) {
@@ -131,9 +281,13 @@ export class CollectionFacade<
           const lookupStages = RelationPipelineBuilder.buildPipeline(
             this.collectionDef,
             options.include,
+            this.pipelineOptions(options),
           );
           pipeline.push(...lookupStages);
 
+          // Root projection (after lookups so their local fields are still available)
+          pipeline.push(...this.buildSelectStages(options));
+
           // Limit to 1 document
           pipeline.push({ $limit: 1 });
 
@@ -142,13 +296,17 @@ export class CollectionFacade<
             .aggregate(pipeline, { session: this.ctx.session })
             .toArray();
 
-          return results.length > 0 ? (results[0] as any) : null;
+          this.validateRead(results, options.select);
+          return results.length > 0 ? this.stripFields(results, options.include)[0] : null;
         }
 
         const result = await this.collection.findOne(finalFilter, {
           session: this.ctx.session,
+          projection: options?.select,
         });
-        return result as TDoc | null;
+        if (!result) return null;
+        this.validateRead([result], options?.select);
+        return this.stripFields([result as TDoc])[0];
       },
       { filter: this.buildIdFilter(id), options },
     );
@@ -161,7 +319,8 @@ export class CollectionFacade<
     return this.executeWithMiddlewares(
       'findOne',
       async () => {
-        const finalFilter = this.applyPolicies(filter);
+        const finalFilter = this.applyPolicies(this.applySoftDelete(filter, options));
+        await this.guardQuery('findOne', finalFilter);
 
         // If include is specified, use aggregation pipeline
         if (options?.include) {
@@ -174,9 +333,13 @@ export class CollectionFacade<
           const lookupStages = RelationPipelineBuilder.buildPipeline(
             this.collectionDef,
             options.include,
+            this.pipelineOptions(options),
           );
           pipeline.push(...lookupStages);
 
+          // Root projection (after lookups so their local fields are still available)
+          pipeline.push(...this.buildSelectStages(options));
+
           // Limit to 1 document
           pipeline.push({ $limit: 1 });
 
@@ -185,13 +348,17 @@ export class CollectionFacade<
             .aggregate(pipeline, { session: this.ctx.session })
             .toArray();
 
-          return results.length > 0 ? (results[0] as any) : null;
+          this.validateRead(results, options.select);
+          return results.length > 0 ? this.stripFields(results, options.include)[0] : null;
         }
 
         const result = await this.collection.findOne(finalFilter, {
           session: this.ctx.session,
+          projection: options?.select,
         });
-        return result as TDoc | null;
+        if (!result) return null;
+        this.validateRead([result], options?.select);
+        return this.stripFields([result as TDoc])[0];
       },
       { filter, options },
     );
@@ -207,7 +374,8 @@ export class CollectionFacade<
     return this.executeWithMiddlewares(
       'findMany',
       async () => {
-        const finalFilter = this.applyPolicies(filter);
+        const finalFilter = this.applyPolicies(this.applySoftDelete(filter, options));
+        await this.guardQuery('findMany', finalFilter);
 
         // If include is specified, use aggregation pipeline
         if (options?.include) {
@@ -231,19 +399,25 @@ export class CollectionFacade<
           const lookupStages = RelationPipelineBuilder.buildPipeline(
             this.collectionDef,
             options.include,
+            this.pipelineOptions(options),
           );
           pipeline.push(...lookupStages);
 
+          // Root projection (after lookups so their local fields are still available)
+          pipeline.push(...this.buildSelectStages(options));
+
           // Execute aggregation
           const results = await this.collection
             .aggregate(pipeline, { session: this.ctx.session })
             .toArray();
 
-          return results as any[];
+          this.validateRead(results, options.select);
+          return this.stripFields(results, options.include);
         }
 
         let cursor = this.collection.find(finalFilter, {
           session: this.ctx.session,
+          projection: options?.select,
         });
 
         if (options?.sort) {
@@ -256,14 +430,205 @@ export class CollectionFacade<
           cursor = cursor.limit(options.limit);
         }
 
-        let results = await cursor.toArray() as TDoc[];
+        let results = (await cursor.toArray()) as TDoc[];
+        this.validateRead(results, options?.select);
 
         // Query-time refresh: Re-fetch specified embeds (read-only, not persisted)
         if (options?.refreshEmbeds && options.refreshEmbeds.length > 0) {
           results = await this.refreshEmbedsInDocuments(results, options.refreshEmbeds);
         }
 
-        return results;
+        return this.stripFields(results);
+      },
+      { filter, options },
+    );
+  }
+
+  /**
+   * Stream documents matching the filter
+   * Documents are read from the driver cursor batch by batch instead of being
+   * loaded into memory at once
+   * Middlewares wrap opening the cursor only - they run once per stream and do
+   * not see the documents yielded during iteration
+   *
+   * @example
+   * for await (const order of db().orders.stream({ status: 'paid' }, { batchSize: 500 })) {
+   *   await exportRow(order);
+   * }
+   */
+  stream(
+    filter: Filter<TDoc> = {},
+    options: StreamOptions<TRelationTargets> = {},
+  ): AsyncIterable<any> {
+    return this.streamDocuments(filter, options);
+  }
+
+  /**
+   * Async generator behind stream() - the cursor is opened on first iteration
+   * and closed when the consumer stops early
+   */
+  private async *streamDocuments(
+    filter: Filter<TDoc>,
+    options: StreamOptions<TRelationTargets>,
+  ): AsyncGenerator<TDoc> {
+    const batchSize = options.batchSize ?? 100;
+
+    const cursor: AbstractCursor<Document> = await this.executeWithMiddlewares(
+      'stream',
+      async () => {
+        const finalFilter = this.applyPolicies(this.applySoftDelete(filter, options));
+        await this.guardQuery('stream', finalFilter);
+
+        // If include is specified, use aggregation pipeline
+        if (options.include) {
+          const pipeline: Document[] = [{ $match: finalFilter }];
+          if (options.sort) {
+            pipeline.push({ $sort: options.sort });
+          }
+          if (options.skip) {
+            pipeline.push({ $skip: options.skip });
+          }
+          if (options.limit) {
+            pipeline.push({ $limit: options.limit });
+          }
+          pipeline.push(
+            ...RelationPipelineBuilder.buildPipeline(
+              this.collectionDef,
+              options.include,
+              this.pipelineOptions(options),
+            ),
+            ...this.buildSelectStages(options),
+          );
+          return this.collection.aggregate(pipeline, { session: this.ctx.session, batchSize });
+        }
+
+        let findCursor = this.collection.find(finalFilter, {
+          session: this.ctx.session,
+          projection: options.select,
+          batchSize,
+        });
+        if (options.sort) {
+          findCursor = findCursor.sort(options.sort);
+        }
+        if (options.skip) {
+          findCursor = findCursor.skip(options.skip);
+        }
+        if (options.limit) {
+          findCursor = findCursor.limit(options.limit);
+        }
+        return findCursor as AbstractCursor<Document>;
+      },
+      { filter, options },
+    );
+
+    try {
+      let batch: TDoc[] = [];
+      for await (const doc of cursor) {
+        batch.push(doc as TDoc);
+        if (batch.length >= batchSize) {
+          yield* await this.prepareStreamBatch(batch, options);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        yield* await this.prepareStreamBatch(batch, options);
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  /**
+   * Validate a streamed batch, refresh its embeds and strip unreadable fields
+   */
+  private async prepareStreamBatch(
+    batch: TDoc[],
+    options: StreamOptions<TRelationTargets>,
+  ): Promise<TDoc[]> {
+    this.validateRead(batch, options.select);
+
+    // Query-time refresh: Re-fetch specified embeds (read-only, not persisted)
+    if (!options.include && options.refreshEmbeds && options.refreshEmbeds.length > 0) {
+      batch = await this.refreshEmbedsInDocuments(batch, options.refreshEmbeds);
+    }
+    return this.stripFields(batch, options.include);
+  }
+
+  /**
+   * Find one page of documents using keyset pagination
+   * Cursors encode the sort values of the last item plus _id, so pages stay
+   * fast on large collections (no skip)
+   */
+  async findPage(
+    filter: Filter<TDoc> = {},
+    options: FindPageOptions<TRelationTargets> = {},
+  ): Promise<any> {
+    return this.executeWithMiddlewares(
+      'findPage',
+      async () => {
+        const first = options.first ?? 20;
+        if (!Number.isInteger(first) || first < 1) {
+          throw new Error(`findPage: 'first' must be a positive integer (got ${first})`);
+        }
+
+        const sortKeys = normalizeSort(options.sort);
+        assertReadableSort(
+          this.collectionDef,
+          this.ctx,
+          sortKeys.map(([field]) => field),
+          'findPage',
+        );
+        const { select, hidden } = selectWithSortKeys(options.select, sortKeys);
+        let finalFilter = this.applyPolicies(this.applySoftDelete(filter, options));
+        if (options.after) {
+          const values = this.cursorCodec.decode(options.after, sortKeys);
+          finalFilter = { $and: [finalFilter, keysetFilter(sortKeys, values)] } as Filter<TDoc>;
+        }
+        await this.guardQuery('findPage', finalFilter);
+
+        // Fetch one extra document to know whether there is a next page
+        let results: Document[];
+        if (options.include) {
+          const pipeline: Document[] = [
+            { $match: finalFilter },
+            { $sort: toSortSpec(sortKeys) },
+            { $limit: first + 1 },
+            ...RelationPipelineBuilder.buildPipeline(
+              this.collectionDef,
+              options.include,
+              this.pipelineOptions(options),
+            ),
+            ...this.buildSelectStages({ ...options, select }),
+          ];
+          results = await this.collection
+            .aggregate(pipeline, { session: this.ctx.session })
+            .toArray();
+        } else {
+          results = await this.collection
+            .find(finalFilter, { session: this.ctx.session, projection: select })
+            .sort(toSortSpec(sortKeys))
+            .limit(first + 1)
+            .toArray();
+        }
+
+        const hasNextPage = results.length > first;
+        let items = results.slice(0, first) as TDoc[];
+        this.validateRead(items, options.select);
+
+        const last = items[items.length - 1];
+        const endCursor = last ? this.cursorCodec.encode(last, sortKeys) : null;
+        // Sort fields were only selected for the cursor
+        unsetPaths(items, hidden);
+
+        // Query-time refresh: Re-fetch specified embeds (read-only, not persisted)
+        if (!options.include && options.refreshEmbeds && options.refreshEmbeds.length > 0) {
+          items = await this.refreshEmbedsInDocuments(items, options.refreshEmbeds);
+        }
+
+        return {
+          items: this.stripFields(items, options.include),
+          pageInfo: { hasNextPage, endCursor },
+        };
       },
       { filter, options },
     );
@@ -272,16 +637,17 @@ export class CollectionFacade<
   /**
    * Count documents matching the filter
    */
-  async count(filter: Filter<TDoc> = {}): Promise<number> {
+  async count(filter: Filter<TDoc> = {}, options: SoftDeleteOptions = {}): Promise<number> {
     return this.executeWithMiddlewares(
       'count',
       async () => {
-        const finalFilter = this.applyPolicies(filter);
+        const finalFilter = this.applyPolicies(this.applySoftDelete(filter, options));
+        await this.guardQuery('count', finalFilter);
         return this.collection.countDocuments(finalFilter, {
           session: this.ctx.session,
         });
       },
-      { filter },
+      { filter, options },
     );
   }
 
@@ -292,6 +658,9 @@ export class CollectionFacade<
     return this.executeWithMiddlewares(
       'create',
       async () => {
+        data = this.stampInsert(data, 'create');
+        this.validateWrite('insert', data);
+
         // Apply defaults and auto-generated fields
         const doc = await this.applyDefaults(data as any);
 
@@ -300,12 +669,13 @@ export class CollectionFacade<
         if (this.collectionDef._meta.hooks.beforeInsert) {
           finalDoc = await this.collectionDef._meta.hooks.beforeInsert(this.ctx, finalDoc);
         }
+        this.validateWrite('writeDocument', finalDoc);
 
         // Check policies
         if (this.collectionDef._meta.policies.canInsert) {
           const allowed = await this.collectionDef._meta.policies.canInsert(this.ctx, finalDoc);
           if (!allowed) {
-            throw new Error('Insert not allowed by policy');
+            throw new PolicyDeniedError('create', this.collectionDef._meta.name);
           }
         }
 
@@ -330,7 +700,72 @@ export class CollectionFacade<
           await this.collectionDef._meta.hooks.afterInsert(this.ctx, inserted);
         }
 
-        return inserted;
+        return this.stripFields([inserted])[0]!;
+      },
+      { data },
+    );
+  }
+
+  /**
+   * Create many documents in a single insertMany
+   * Reference validation and forward embeds are batched into one query per relation
+   */
+  async createMany(data: TInsert[], options: CreateManyOptions = {}): Promise<TDoc[]> {
+    return this.executeWithMiddlewares(
+      'insertMany',
+      async () => {
+        if (data.length === 0) return [];
+
+        const docs: Record<string, unknown>[] = [];
+        for (const item of data.map((entry) => this.stampInsert(entry, 'insertMany'))) {
+          this.validateWrite('insert', item);
+
+          // Apply defaults and auto-generated fields
+          let doc = await this.applyDefaults(item as any);
+
+          // Run before hooks
+          if (this.collectionDef._meta.hooks.beforeInsert) {
+            doc = await this.collectionDef._meta.hooks.beforeInsert(this.ctx, doc);
+          }
+          this.validateWrite('writeDocument', doc);
+
+          // Check policies
+          if (this.collectionDef._meta.policies.canInsert) {
+            const allowed = await this.collectionDef._meta.policies.canInsert(this.ctx, doc);
+            if (!allowed) {
+              throw new PolicyDeniedError('insertMany', this.collectionDef._meta.name);
+            }
+          }
+
+          docs.push(doc);
+        }
+
+        // Validate references
+        await this.relationHelper.validateReferencesMany(docs as any);
+
+        // Process forward embeds (fetch and embed referenced data)
+        const finalDocs = (await this.relationHelper.processForwardEmbedsMany(
+          docs as any,
+        )) as any[];
+
+        // Insert
+        const result = await this.collection.insertMany(finalDocs, {
+          ordered: options.ordered ?? true,
+          session: this.ctx.session,
+        });
+
+        const inserted = finalDocs.map(
+          (doc, index) => ({ ...doc, _id: result.insertedIds[index] }) as unknown as TDoc,
+        );
+
+        // Run after hooks
+        if (this.collectionDef._meta.hooks.afterInsert) {
+          for (const doc of inserted) {
+            await this.collectionDef._meta.hooks.afterInsert(this.ctx, doc);
+          }
+        }
+
+        return this.stripFields(inserted);
       },
       { data },
     );
@@ -339,12 +774,12 @@ export class CollectionFacade<
   /**
    * Update a document by ID
    */
-  async updateById(id: string | ObjectId, data: TUpdate): Promise<TDoc | null> {
+  async updateById(id: string | ObjectId, data: UpdateData<TUpdate>): Promise<TDoc | null> {
     const filter = this.buildIdFilter(id);
     return this.executeWithMiddlewares(
       'updateById',
       async () => {
-        return this.updateOneInternal(filter, data);
+        return this.updateOneInternal(filter, data, 'updateById');
       },
       { filter, data },
     );
@@ -353,21 +788,181 @@ export class CollectionFacade<
   /**
    * Update one document matching the filter
    */
-  async updateOne(filter: Filter<TDoc>, data: TUpdate): Promise<TDoc | null> {
+  async updateOne(
+    filter: Filter<TDoc>,
+    data: UpdateData<TUpdate>,
+    options: UpdateOneOptions = {},
+  ): Promise<TDoc | null> {
     return this.executeWithMiddlewares(
       'update',
       async () => {
-        return this.updateOneInternal(filter, data);
+        if (options.upsert) {
+          if (isOperatorUpdate(data as Document)) {
+            throw new Error(
+              'updateOne({ upsert: true }) needs a plain update - use upsert() to pass create data',
+            );
+          }
+          const { doc } = await this.upsertInternal(
+            filter,
+            data as unknown as TInsert,
+            data,
+            'update',
+          );
+          return doc;
+        }
+        return this.updateOneInternal(filter, data, 'update');
       },
       { filter, data, oldDoc: undefined }, // oldDoc will be fetched inside
     );
   }
 
+  /**
+   * Update the document matching the filter, or create it if none matches
+   * Only the insert branch gets defaults; onUpdateNow fields are set in both branches
+   */
+  async upsert(
+    filter: Filter<TDoc>,
+    data: UpsertData<TInsert, UpdateData<TUpdate>>,
+  ): Promise<UpsertResult<TDoc>> {
+    return this.executeWithMiddlewares(
+      'upsert',
+      async () => {
+        return this.upsertInternal(filter, data.create, data.update, 'upsert');
+      },
+      { filter, data },
+    );
+  }
+
+  /**
+   * Internal upsert logic (shared by upsert and updateOne with { upsert: true })
+   */
+  private async upsertInternal(
+    filter: Filter<TDoc>,
+    create: TInsert,
+    update: UpdateData<TUpdate>,
+    operation: Operation,
+  ): Promise<UpsertResult<TDoc>> {
+    const updated = await this.updateOneInternal(filter, update, operation);
+    if (updated) {
+      return { doc: updated, inserted: false };
+    }
+
+    const inserted = await this.insertIfMissing(filter, create, operation);
+    if (inserted) {
+      return { doc: inserted, inserted: true };
+    }
+
+    // A matching document exists (created concurrently, or outside the write filter)
+    const doc = await this.updateOneInternal(filter, update, operation);
+    if (!doc) {
+      throw new PolicyDeniedError(
+        operation,
+        this.collectionDef._meta.name,
+        'the matching document is not writable',
+      );
+    }
+    return { doc, inserted: false };
+  }
+
+  /**
+   * Insert branch of an upsert
+   * Returns null if a matching document was created concurrently
+   */
+  private async insertIfMissing(
+    filter: Filter<TDoc>,
+    data: TInsert,
+    operation: Operation,
+  ): Promise<TDoc | null> {
+    const finalDoc = await this.prepareUpsertInsert(filter, data, operation);
+
+    // Insert atomically - $setOnInsert leaves a concurrently created document untouched
+    const result = await this.collection.findOneAndUpdate(
+      this.upsertMatchFilter(filter),
+      { $setOnInsert: finalDoc } as any,
+      {
+        upsert: true,
+        returnDocument: 'after',
+        includeResultMetadata: true,
+        session: this.ctx.session,
+      },
+    );
+
+    if (result.lastErrorObject?.updatedExisting || !result.value) {
+      return null;
+    }
+
+    const inserted = result.value as unknown as TDoc;
+
+    // Run after hooks
+    if (this.collectionDef._meta.hooks.afterInsert) {
+      await this.collectionDef._meta.hooks.afterInsert(this.ctx, inserted);
+    }
+
+    return this.stripFields([inserted])[0]!;
+  }
+
+  /**
+   * Build the document the insert branch of an upsert writes
+   * Runs defaults, beforeInsert, canInsert, reference checks and forward embeds
+   */
+  private async prepareUpsertInsert(
+    filter: Filter<TDoc>,
+    data: TInsert,
+    operation: Operation,
+  ): Promise<Document> {
+    // Equality fields of the filter become part of the new document
+    const insertData = this.stampInsert(
+      { ...this.getFilterEqualityFields(filter), ...(data as any) },
+      operation,
+    );
+    this.validateWrite('insert', insertData);
+
+    // Apply defaults, auto-generated fields and update timestamps
+    const doc = this.applyUpdateTimestamps(await this.applyDefaults(insertData));
+
+    // Run before hooks
+    let finalDoc = doc;
+    if (this.collectionDef._meta.hooks.beforeInsert) {
+      finalDoc = await this.collectionDef._meta.hooks.beforeInsert(this.ctx, finalDoc);
+    }
+    this.validateWrite('writeDocument', finalDoc);
+
+    // Check policies
+    if (this.collectionDef._meta.policies.canInsert) {
+      const allowed = await this.collectionDef._meta.policies.canInsert(this.ctx, finalDoc);
+      if (!allowed) {
+        throw new PolicyDeniedError(operation, this.collectionDef._meta.name);
+      }
+    }
+
+    // Validate references
+    await this.relationHelper.validateReferences(finalDoc as any);
+
+    // Process forward embeds (fetch and embed referenced data)
+    return (await this.relationHelper.processForwardEmbeds(finalDoc as any)) as Document;
+  }
+
+  /**
+   * Filter the insert branch of an upsert matches on
+   * MongoDB copies equality conditions of the filter into the new document, so only the
+   * caller's filter and the tenant scope are matched (both already applied to the document);
+   * read and write filters stay out, canInsert decides
+   */
+  private upsertMatchFilter(filter: Filter<TDoc>): Filter<TDoc> {
+    const scope = this.scopeFor(this.collectionDef);
+    return (scope ? { $and: [filter, scope] } : filter) as Filter<TDoc>;
+  }
+
   /**
    * Internal update logic (shared by updateOne and updateById)
    */
-  private async updateOneInternal(filter: Filter<TDoc>, data: TUpdate): Promise<TDoc | null> {
-    const finalFilter = this.applyPolicies(filter);
+  private async updateOneInternal(
+    filter: Filter<TDoc>,
+    data: UpdateData<TUpdate>,
+    operation: Operation,
+  ): Promise<TDoc | null> {
+    this.validateWrite('update', getSetFields(data as Document));
+    const finalFilter = this.applyPolicies(filter, 'write');
 
     // Get old document for hooks and policies
     const oldDoc = await this.collection.findOne(finalFilter, {
@@ -376,42 +971,50 @@ export class CollectionFacade<
     if (!oldDoc) {
       return null;
     }
+    assertOwner(this.collectionDef, this.ctx, oldDoc, operation);
+    assertWritableFields(this.collectionDef, this.ctx, data as Document, operation, oldDoc);
 
     // Apply update timestamp
     const updateData = this.applyUpdateTimestamps(data as any);
 
-    // Run before hooks
-    let finalUpdate = updateData;
+    // Run before hooks (hooks and policies see the $set payload of operator updates)
+    let setFields = getSetFields(updateData);
     if (this.collectionDef._meta.hooks.beforeUpdate) {
-      finalUpdate = await this.collectionDef._meta.hooks.beforeUpdate(
+      setFields = await this.collectionDef._meta.hooks.beforeUpdate(
         this.ctx,
         oldDoc as any,
-        updateData,
+        setFields as any,
       );
     }
+    this.validateWrite('writeDocument', { ...oldDoc, ...setFields });
 
     // Check policies
     if (this.collectionDef._meta.policies.canUpdate) {
       const allowed = await this.collectionDef._meta.policies.canUpdate(
         this.ctx,
         oldDoc as any,
-        finalUpdate,
+        setFields as any,
       );
       if (!allowed) {
-        throw new Error('Update not allowed by policy');
+        throw new PolicyDeniedError(operation, this.collectionDef._meta.name);
       }
     }
 
     // Validate references
-    await this.relationHelper.validateReferences(finalUpdate as any);
+    await this.relationHelper.validateReferences(setFields as any);
 
     // Process forward embeds (fetch and embed referenced data)
-    finalUpdate = (await this.relationHelper.processForwardEmbeds(finalUpdate as any)) as any;
+    setFields = (await this.relationHelper.processForwardEmbeds(setFields as any)) as Document;
+    const finalUpdate = replaceSetFields(updateData, setFields);
+    this.assertScopedUpdate(finalUpdate);
+    if (operation !== 'transferOwnership') {
+      assertOwnerUnchanged(this.collectionDef, finalUpdate);
+    }
 
-    // Update
-    const result = await this.collection.findOneAndUpdate(
-      finalFilter,
-      { $set: finalUpdate } as any,
+    // Update the document that was checked (the filter may match others)
+    let result = await this.collection.findOneAndUpdate(
+      { $and: [finalFilter, { _id: oldDoc._id }] } as Filter<TDoc>,
+      toUpdateOperators(finalUpdate) as any,
       {
         returnDocument: 'after',
         session: this.ctx.session,
@@ -422,37 +1025,171 @@ export class CollectionFacade<
       return null;
     }
 
+    // Operators like $push/$pull may change embed IDs - re-embed from the updated document
+    const reembedded = await this.relationHelper.reembedChangedFields(
+      result as TDoc,
+      getUpdatedFields(finalUpdate, { excludeSet: true }),
+    );
+    if (reembedded) {
+      result =
+        (await this.collection.findOneAndUpdate(
+          { _id: result._id } as Filter<TDoc>,
+          { $set: reembedded } as any,
+          { returnDocument: 'after', session: this.ctx.session },
+        )) ?? result;
+    }
+
     // Run after hooks
     if (this.collectionDef._meta.hooks.afterUpdate) {
       await this.collectionDef._meta.hooks.afterUpdate(this.ctx, oldDoc as any, result as any);
     }
 
     // Propagate reverse embeds if this collection is a source for any embeds
-    await this.propagateReverseEmbeds(result as TDoc, finalUpdate);
+    await this.propagateReverseEmbeds(result as TDoc, this.toChangedFields(finalUpdate));
 
-    return result as TDoc;
+    return this.stripFields([result as TDoc])[0]!;
   }
 
   /**
    * Update many documents matching the filter
+   * Hooks and policies run per the collection's bulkWrites mode; reverse embeds are refreshed
+   * for every updated document
    */
-  async updateMany(filter: Filter<TDoc>, data: TUpdate): Promise<number> {
+  async updateMany(filter: Filter<TDoc>, data: UpdateData<TUpdate>): Promise<number> {
     return this.executeWithMiddlewares(
       'updateMany',
       async () => {
-        const finalFilter = this.applyPolicies(filter);
+        this.validateWrite('update', getSetFields(data as Document));
+        const finalFilter = this.applyOwnership(this.applyPolicies(filter, 'write'), 'updateMany');
+        await this.guardQuery('updateMany', finalFilter);
         const updateData = this.applyUpdateTimestamps(data as any);
 
-        const result = await this.collection.updateMany(finalFilter, { $set: updateData } as any, {
-          session: this.ctx.session,
-        });
-
-        return result.modifiedCount;
+        if (this.bulkWriteMode('canUpdate') === 'per-document') {
+          return this.updateManyPerDocument(finalFilter, updateData);
+        }
+        return this.updateManySet(finalFilter, updateData);
       },
       { filter, data },
     );
   }
 
+  /**
+   * Set-based updateMany: bulk hooks run once, then a single updateMany
+   */
+  private async updateManySet(
+    finalFilter: Filter<TDoc>,
+    updateData: Record<string, unknown>,
+  ): Promise<number> {
+    const hooks = this.collectionDef._meta.hooks;
+    let update = toUpdateOperators(updateData) as Document;
+    if (hooks.beforeUpdateMany) {
+      update = await hooks.beforeUpdateMany(this.ctx, finalFilter, update);
+    }
+    assertWritableFields(this.collectionDef, this.ctx, update, 'updateMany');
+    this.assertScopedUpdate(update);
+    assertOwnerUnchanged(this.collectionDef, update);
+
+    const changedFields = this.toChangedFields(update);
+    let modifiedCount = 0;
+    if (!this.needsReversePropagation(changedFields)) {
+      const result = await this.collection.updateMany(finalFilter, update as any, {
+        session: this.ctx.session,
+      });
+      modifiedCount = result.modifiedCount;
+    } else {
+      // Update batch by batch so every affected source ID is propagated
+      for await (const docs of this.findBatches(finalFilter, { projection: { _id: 1 } })) {
+        const idFilter = { _id: { $in: docs.map((doc) => doc._id) } } as Filter<TDoc>;
+        const result = await this.collection.updateMany(
+          { $and: [finalFilter, idFilter] } as Filter<TDoc>,
+          update as any,
+          { session: this.ctx.session },
+        );
+        modifiedCount += result.modifiedCount;
+
+        const updatedDocs = await this.collection
+          .find(idFilter, { session: this.ctx.session })
+          .toArray();
+        for (const updatedDoc of updatedDocs) {
+          await this.propagateReverseEmbeds(updatedDoc as TDoc, changedFields);
+        }
+      }
+    }
+
+    if (hooks.afterUpdateMany) {
+      await hooks.afterUpdateMany(this.ctx, finalFilter, modifiedCount);
+    }
+    return modifiedCount;
+  }
+
+  /**
+   * Per-document updateMany: beforeUpdate/canUpdate/afterUpdate run for every matching document
+   * Batches are written as they are checked; run inside a transaction for all-or-nothing
+   */
+  private async updateManyPerDocument(
+    finalFilter: Filter<TDoc>,
+    updateData: Record<string, unknown>,
+  ): Promise<number> {
+    const hooks = this.collectionDef._meta.hooks;
+    const policies = this.collectionDef._meta.policies;
+    const concurrency = this.hookConcurrency();
+    let modifiedCount = 0;
+
+    for await (const oldDocs of this.findBatches(finalFilter)) {
+      const updates = await mapWithConcurrency(oldDocs, concurrency, async (oldDoc) => {
+        assertWritableFields(this.collectionDef, this.ctx, updateData, 'updateMany', oldDoc);
+        let setFields = getSetFields(updateData);
+        if (hooks.beforeUpdate) {
+          setFields = await hooks.beforeUpdate(this.ctx, oldDoc as any, setFields as any);
+        }
+        this.validateWrite('writeDocument', { ...oldDoc, ...setFields });
+
+        if (policies.canUpdate) {
+          const allowed = await policies.canUpdate(this.ctx, oldDoc as any, setFields as any);
+          if (!allowed) {
+            throw new PolicyDeniedError('updateMany', this.collectionDef._meta.name);
+          }
+        }
+
+        const update = replaceSetFields(updateData, setFields);
+        this.assertScopedUpdate(update);
+        assertOwnerUnchanged(this.collectionDef, update);
+        return { oldDoc, update };
+      });
+
+      const result = await this.collection.bulkWrite(
+        updates.map(({ oldDoc, update }) => ({
+          updateOne: {
+            filter: { $and: [finalFilter, { _id: oldDoc._id }] },
+            update: toUpdateOperators(update),
+          },
+        })) as any,
+        { session: this.ctx.session },
+      );
+      modifiedCount += result.modifiedCount;
+
+      const updatedDocs = await this.collection
+        .find({ _id: { $in: oldDocs.map((doc) => doc._id) } } as Filter<TDoc>, {
+          session: this.ctx.session,
+        })
+        .toArray();
+      const updatedById = new Map(updatedDocs.map((doc) => [String(doc._id), doc as TDoc]));
+
+      await mapWithConcurrency(updates, concurrency, async ({ oldDoc, update }) => {
+        const updatedDoc = updatedById.get(String(oldDoc._id));
+        if (!updatedDoc) {
+          return;
+        }
+        if (hooks.afterUpdate) {
+          await hooks.afterUpdate(this.ctx, oldDoc as any, updatedDoc as any);
+        }
+        await this.propagateReverseEmbeds(updatedDoc, this.toChangedFields(update));
+      });
+    }
+
+    return modifiedCount;
+  }
+
   /**
    * Delete a document by ID
    */
@@ -461,7 +1198,7 @@ export class CollectionFacade<
     return this.executeWithMiddlewares(
       'deleteById',
       async () => {
-        return this.deleteOneInternal(filter);
+        return this.deleteOneInternal(filter, 'deleteById');
       },
       { filter },
     );
@@ -474,7 +1211,7 @@ export class CollectionFacade<
     return this.executeWithMiddlewares(
       'delete',
       async () => {
-        return this.deleteOneInternal(filter);
+        return this.deleteOneInternal(filter, 'delete');
       },
       { filter },
     );
@@ -483,8 +1220,8 @@ export class CollectionFacade<
   /**
    * Internal delete logic (shared by deleteOne and deleteById)
    */
-  private async deleteOneInternal(filter: Filter<TDoc>): Promise<boolean> {
-    const finalFilter = this.applyPolicies(filter);
+  private async deleteOneInternal(filter: Filter<TDoc>, operation: Operation): Promise<boolean> {
+    const finalFilter = this.applyPolicies(filter, 'write');
 
     // Get document for hooks and policies
     const doc = await this.collection.findOne(finalFilter, {
@@ -493,6 +1230,7 @@ export class CollectionFacade<
     if (!doc) {
       return false;
     }
+    assertOwner(this.collectionDef, this.ctx, doc, operation);
 
     // Run before hooks
     if (this.collectionDef._meta.hooks.beforeDelete) {
@@ -503,14 +1241,16 @@ export class CollectionFacade<
     if (this.collectionDef._meta.policies.canDelete) {
       const allowed = await this.collectionDef._meta.policies.canDelete(this.ctx, doc as any);
       if (!allowed) {
-        throw new Error('Delete not allowed by policy');
+        throw new PolicyDeniedError(operation, this.collectionDef._meta.name);
       }
     }
+    await this.assertNotReferenced([doc as TDoc]);
 
-    // Delete
-    const result = await this.collection.deleteOne(finalFilter, {
-      session: this.ctx.session,
-    });
+    // Delete the document that was checked (the filter may match others)
+    const result = await this.collection.deleteOne(
+      { $and: [finalFilter, { _id: doc._id }] } as Filter<TDoc>,
+      { session: this.ctx.session },
+    );
 
     // Run after hooks
     if (result.deletedCount > 0 && this.collectionDef._meta.hooks.afterDelete) {
@@ -520,6 +1260,7 @@ export class CollectionFacade<
     // Handle delete cascades
     if (result.deletedCount > 0) {
       await this.handleDeleteCascades(doc as TDoc);
+      await this.handleReferenceDeletes([doc as TDoc]);
     }
 
     return result.deletedCount > 0;
@@ -527,21 +1268,117 @@ export class CollectionFacade<
 
   /**
    * Delete many documents matching the filter
+   * Hooks and policies run per the collection's bulkWrites mode; onSourceDelete actions
+   * apply for every deleted document
    */
   async deleteMany(filter: Filter<TDoc>): Promise<number> {
     return this.executeWithMiddlewares(
       'deleteMany',
       async () => {
-        const finalFilter = this.applyPolicies(filter);
-        const result = await this.collection.deleteMany(finalFilter, {
-          session: this.ctx.session,
-        });
-        return result.deletedCount;
+        const finalFilter = this.applyOwnership(this.applyPolicies(filter, 'write'), 'deleteMany');
+        await this.guardQuery('deleteMany', finalFilter);
+
+        if (this.bulkWriteMode('canDelete') === 'per-document') {
+          return this.deleteManyPerDocument(finalFilter);
+        }
+        return this.deleteManySet(finalFilter);
       },
       { filter },
     );
   }
 
+  /**
+   * Set-based deleteMany: bulk hooks run once, then a single deleteMany
+   */
+  private async deleteManySet(finalFilter: Filter<TDoc>): Promise<number> {
+    const hooks = this.collectionDef._meta.hooks;
+    if (hooks.beforeDeleteMany) {
+      await hooks.beforeDeleteMany(this.ctx, finalFilter);
+    }
+
+    const deletedCount = await this.deleteMatching(finalFilter);
+
+    if (hooks.afterDeleteMany) {
+      await hooks.afterDeleteMany(this.ctx, finalFilter, deletedCount);
+    }
+    return deletedCount;
+  }
+
+  /**
+   * Delete all documents matching a final filter (no hooks)
+   * Documents are deleted batch by batch when references or embeds must react to the delete
+   */
+  private async deleteMatching(finalFilter: Filter<TDoc>): Promise<number> {
+    const collectionName = this.collectionDef._meta.name;
+    if (
+      !this.deleteRegistry?.get(collectionName)?.length &&
+      !this.referenceDeleteRegistry?.get(collectionName)?.length
+    ) {
+      const result = await this.collection.deleteMany(finalFilter, {
+        session: this.ctx.session,
+      });
+      return result.deletedCount;
+    }
+
+    let deletedCount = 0;
+    for await (const docs of this.findBatches(finalFilter)) {
+      await this.assertNotReferenced(docs);
+      const result = await this.collection.deleteMany(
+        { $and: [finalFilter, { _id: { $in: docs.map((doc) => doc._id) } }] } as Filter<TDoc>,
+        { session: this.ctx.session },
+      );
+      deletedCount += result.deletedCount;
+
+      for (const doc of docs) {
+        await this.handleDeleteCascades(doc);
+      }
+      await this.handleReferenceDeletes(docs);
+    }
+    return deletedCount;
+  }
+
+  /**
+   * Per-document deleteMany: beforeDelete/canDelete/afterDelete run for every matching document
+   * Batches are deleted as they are checked; run inside a transaction for all-or-nothing
+   */
+  private async deleteManyPerDocument(finalFilter: Filter<TDoc>): Promise<number> {
+    const hooks = this.collectionDef._meta.hooks;
+    const policies = this.collectionDef._meta.policies;
+    const concurrency = this.hookConcurrency();
+    let deletedCount = 0;
+
+    for await (const docs of this.findBatches(finalFilter)) {
+      await mapWithConcurrency(docs, concurrency, async (doc) => {
+        if (hooks.beforeDelete) {
+          await hooks.beforeDelete(this.ctx, doc as any);
+        }
+        if (policies.canDelete) {
+          const allowed = await policies.canDelete(this.ctx, doc as any);
+          if (!allowed) {
+            throw new PolicyDeniedError('deleteMany', this.collectionDef._meta.name);
+          }
+        }
+      });
+      await this.assertNotReferenced(docs);
+
+      const result = await this.collection.deleteMany(
+        { $and: [finalFilter, { _id: { $in: docs.map((doc) => doc._id) } }] } as Filter<TDoc>,
+        { session: this.ctx.session },
+      );
+      deletedCount += result.deletedCount;
+
+      await mapWithConcurrency(docs, concurrency, async (doc) => {
+        if (hooks.afterDelete) {
+          await hooks.afterDelete(this.ctx, doc as any);
+        }
+        await this.handleDeleteCascades(doc);
+      });
+      await this.handleReferenceDeletes(docs);
+    }
+
+    return deletedCount;
+  }
+
   /**
    * Soft delete a document by ID
    */
@@ -549,7 +1386,7 @@ export class CollectionFacade<
     return this.executeWithMiddlewares(
       'softDelete',
       async () => {
-        const softDeleteField = this.getSoftDeleteField();
+        const softDeleteField = getSoftDeleteField(this.collectionDef);
         if (!softDeleteField) {
           throw new Error('Soft delete not configured for this collection');
         }
@@ -569,7 +1406,7 @@ export class CollectionFacade<
     return this.executeWithMiddlewares(
       'restore',
       async () => {
-        const softDeleteField = this.getSoftDeleteField();
+        const softDeleteField = getSoftDeleteField(this.collectionDef);
         if (!softDeleteField) {
           throw new Error('Soft delete not configured for this collection');
         }
@@ -582,15 +1419,310 @@ export class CollectionFacade<
     );
   }
 
+  /**
+   * Soft delete all live documents matching the filter
+   * beforeUpdate/afterUpdate hooks and canUpdate run per document; with cascade, documents
+   * embedding them via onSourceDelete: 'cascade' are soft-deleted too instead of removed
+   *
+   * @example
+   * const { modified, cascaded } = await db().authors.softDeleteMany(
+   *   { banned: true },
+   *   { cascade: true },
+   * );
+   */
+  async softDeleteMany(
+    filter: Filter<TDoc>,
+    options: SoftDeleteManyOptions = {},
+  ): Promise<SoftDeleteManyResult> {
+    return this.executeWithMiddlewares(
+      'softDeleteMany',
+      async () => {
+        return this.setSoftDeleteFlagMany(filter, new Date(), 'softDeleteMany', options);
+      },
+      { filter },
+    );
+  }
+
+  /**
+   * Restore all soft-deleted documents matching the filter
+   * With cascade, only embedding documents soft-deleted together with them (same timestamp)
+   * are restored
+   */
+  async restoreMany(
+    filter: Filter<TDoc>,
+    options: SoftDeleteManyOptions = {},
+  ): Promise<SoftDeleteManyResult> {
+    return this.executeWithMiddlewares(
+      'restoreMany',
+      async () => {
+        return this.setSoftDeleteFlagMany(filter, null, 'restoreMany', options);
+      },
+      { filter },
+    );
+  }
+
+  /**
+   * Internal bulk soft delete / restore logic (deletedAt null restores)
+   * Documents are checked and written in _id-ordered batches; run inside a
+   * transaction to make a policy or hook failure roll back earlier batches
+   */
+  private async setSoftDeleteFlagMany(
+    filter: Filter<TDoc>,
+    deletedAt: Date | null,
+    operation: 'softDeleteMany' | 'restoreMany',
+    options: SoftDeleteManyOptions,
+  ): Promise<SoftDeleteManyResult> {
+    const softDeleteField = getSoftDeleteField(this.collectionDef);
+    if (!softDeleteField) {
+      throw new Error('Soft delete not configured for this collection');
+    }
+
+    const flagUpdate = { [softDeleteField]: deletedAt };
+    this.validateWrite('update', flagUpdate);
+    const finalFilter = this.applyOwnership(
+      this.applyPolicies(
+        this.applySoftDelete(filter, { onlyDeleted: deletedAt === null }),
+        'write',
+      ),
+      operation,
+    );
+    await this.guardQuery(operation, finalFilter);
+
+    const result: SoftDeleteManyResult = { modified: 0, cascaded: {} };
+
+    for await (const docs of this.findBatches(finalFilter, { batchSize: options.batchSize })) {
+      // Run before hooks and policies for the whole batch before writing it
+      const updates: Array<{ oldDoc: TDoc; setFields: Record<string, unknown> }> = [];
+      for (const oldDoc of docs) {
+        assertWritableFields(this.collectionDef, this.ctx, flagUpdate, operation, oldDoc);
+        let setFields = this.applyUpdateTimestamps({ ...flagUpdate });
+        if (this.collectionDef._meta.hooks.beforeUpdate) {
+          setFields = await this.collectionDef._meta.hooks.beforeUpdate(
+            this.ctx,
+            oldDoc as any,
+            setFields as any,
+          );
+        }
+        this.validateWrite('writeDocument', { ...oldDoc, ...setFields });
+
+        if (this.collectionDef._meta.policies.canUpdate) {
+          const allowed = await this.collectionDef._meta.policies.canUpdate(
+            this.ctx,
+            oldDoc as any,
+            setFields as any,
+          );
+          if (!allowed) {
+            throw new PolicyDeniedError(operation, this.collectionDef._meta.name);
+          }
+        }
+        this.assertScopedUpdate(setFields);
+        assertOwnerUnchanged(this.collectionDef, setFields);
+        updates.push({ oldDoc, setFields });
+      }
+
+      const writeResult = await this.collection.bulkWrite(
+        updates.map(({ oldDoc, setFields }) => ({
+          updateOne: {
+            filter: { $and: [finalFilter, { _id: oldDoc._id }] },
+            update: { $set: setFields },
+          },
+        })) as any,
+        { session: this.ctx.session },
+      );
+      result.modified += writeResult.modifiedCount;
+
+      // Documents that changed state since they were read were skipped by the write
+      const updatedDocs = await this.collection
+        .find(
+          {
+            _id: { $in: docs.map((doc) => doc._id) },
+            [softDeleteField]: deletedAt,
+          } as Filter<TDoc>,
+          { session: this.ctx.session },
+        )
+        .toArray();
+      const updatedById = new Map(updatedDocs.map((doc) => [String(doc._id), doc as TDoc]));
+
+      // Run after hooks and propagate the flag to reverse embeds
+      for (const { oldDoc, setFields } of updates) {
+        const updatedDoc = updatedById.get(String(oldDoc._id));
+        if (!updatedDoc) {
+          continue;
+        }
+        if (this.collectionDef._meta.hooks.afterUpdate) {
+          await this.collectionDef._meta.hooks.afterUpdate(
+            this.ctx,
+            oldDoc as any,
+            updatedDoc as any,
+          );
+        }
+        await this.propagateReverseEmbeds(updatedDoc, this.toChangedFields(setFields));
+      }
+
+      if (options.cascade) {
+        await this.cascadeSoftDelete(
+          docs.filter((doc) => updatedById.has(String(doc._id))),
+          softDeleteField,
+          deletedAt,
+          options,
+          result,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Permanently delete soft-deleted documents
+   * Write policies and ownership apply as for deleteMany
+   *
+   * @example
+   * await db().tasks.purgeDeleted({ olderThan: new Date(Date.now() - 30 * 86_400_000) });
+   */
+  async purgeDeleted(options: PurgeDeletedOptions = {}): Promise<number> {
+    const softDeleteField = getSoftDeleteField(this.collectionDef);
+    const deletedCondition = options.olderThan ? { $lt: options.olderThan } : { $ne: null };
+    const filter = (softDeleteField ? { [softDeleteField]: deletedCondition } : {}) as Filter<TDoc>;
+    return this.executeWithMiddlewares(
+      'purgeDeleted',
+      async () => {
+        if (!softDeleteField) {
+          throw new Error('Soft delete not configured for this collection');
+        }
+
+        const finalFilter = this.applyOwnership(
+          this.applyPolicies(filter, 'write'),
+          'purgeDeleted',
+        );
+        await this.guardQuery('purgeDeleted', finalFilter);
+        return this.deleteMatching(finalFilter);
+      },
+      { filter },
+    );
+  }
+
+  /**
+   * Hand a document over to another owner (collections with an .ownerKey() field)
+   * Only the current owner or a bypass role may transfer; runs as its own operation so
+   * audit logs show it
+   */
+  async transferOwnership(
+    id: string | ObjectId,
+    newOwnerId: string | ObjectId,
+  ): Promise<TDoc | null> {
+    const filter = this.buildIdFilter(id);
+    const ownerField = getOwnerKeyField(this.collectionDef);
+    return this.executeWithMiddlewares(
+      'transferOwnership',
+      async () => {
+        if (!ownerField) {
+          throw new Error(`Collection '${this.collectionDef._meta.name}' has no owner key field`);
+        }
+
+        const owner = toOwnerValue(this.collectionDef, ownerField, newOwnerId);
+        return this.updateOneInternal(
+          filter,
+          { [ownerField]: owner } as UpdateData<TUpdate>,
+          'transferOwnership',
+        );
+      },
+      { filter, data: ownerField ? { [ownerField]: newOwnerId } : undefined },
+    );
+  }
+
+  /**
+   * Link a document to target documents of a manyToMany relation
+   * Targets must exist and be readable; targets already linked are skipped
+   *
+   * @returns Number of join documents created
+   */
+  async attach(
+    id: string | ObjectId,
+    relationName: ManyToManyRelationKeys<TRelationTargets>,
+    targetIds: Array<string | ObjectId>,
+    options: AttachOptions = {},
+  ): Promise<number> {
+    const filter = this.buildIdFilter(id);
+    return this.executeWithMiddlewares(
+      'attach',
+      async () => {
+        const link = await this.manyToManyLink(filter, relationName, 'attach');
+        return this.linkTargets(link, await this.findTargetKeys(link, targetIds), options);
+      },
+      { filter, data: { [relationName]: targetIds } },
+    );
+  }
+
+  /**
+   * Unlink a document from target documents of a manyToMany relation (all of them without IDs)
+   *
+   * @returns Number of join documents deleted
+   */
+  async detach(
+    id: string | ObjectId,
+    relationName: ManyToManyRelationKeys<TRelationTargets>,
+    targetIds?: Array<string | ObjectId>,
+  ): Promise<number> {
+    const filter = this.buildIdFilter(id);
+    return this.executeWithMiddlewares(
+      'detach',
+      async () => {
+        const link = await this.manyToManyLink(filter, relationName, 'detach');
+        return this.unlinkTargets(
+          link,
+          targetIds && this.toKeyValues(targetIds, link.relation.foreignField ?? '_id'),
+        );
+      },
+      { filter, data: { [relationName]: targetIds } },
+    );
+  }
+
+  /**
+   * Make the given targets the only ones linked to a document through a manyToMany relation
+   */
+  async sync(
+    id: string | ObjectId,
+    relationName: ManyToManyRelationKeys<TRelationTargets>,
+    targetIds: Array<string | ObjectId>,
+    options: AttachOptions = {},
+  ): Promise<SyncRelationResult> {
+    const filter = this.buildIdFilter(id);
+    return this.executeWithMiddlewares(
+      'sync',
+      async () => {
+        const link = await this.manyToManyLink(filter, relationName, 'sync');
+        const targetKeys = await this.findTargetKeys(link, targetIds);
+        const wanted = new Set(targetKeys.map(String));
+        const stale = (await this.linkedTargetKeys(link)).filter((key) => !wanted.has(String(key)));
+        return {
+          attached: await this.linkTargets(link, targetKeys, options),
+          detached: stale.length > 0 ? await this.unlinkTargets(link, stale) : 0,
+        };
+      },
+      { filter, data: { [relationName]: targetIds } },
+    );
+  }
+
   /**
    * Run aggregation pipeline
+   * Results are returned as produced: field read rules (.readableBy()) are not applied
    */
   async aggregate(pipeline: Document[]): Promise<Document[]> {
     return this.executeWithMiddlewares(
       'aggregate',
       async () => {
+        // Tenant scope goes first; pipelines that must start with another stage ($geoNear)
+        // need unscoped()
+        const scope = this.scopeFor(this.collectionDef);
+        // Only the leading $match (after the scope) can use an index
+        const matches: Document[] = [scope, pipeline[0]?.$match].filter(Boolean);
+        await this.guardQuery(
+          'aggregate',
+          (matches.length > 1 ? { $and: matches } : (matches[0] ?? {})) as Filter<TDoc>,
+        );
         return this.collection
-          .aggregate(pipeline, {
+          .aggregate(scope ? [{ $match: scope }, ...pipeline] : pipeline, {
             session: this.ctx.session,
           })
           .toArray();
@@ -633,21 +1765,430 @@ export class CollectionFacade<
     }
   }
 
+  /**
+   * Top-level equality conditions of a filter (used as base of upserted documents)
+   */
+  private getFilterEqualityFields(filter: Filter<TDoc>): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(filter as Record<string, unknown>)) {
+      if (key.startsWith('$')) continue;
+      const isOperatorObject =
+        value !== null &&
+        typeof value === 'object' &&
+        !Array.isArray(value) &&
+        Object.keys(value).some((k) => k.startsWith('$'));
+      if (!isOperatorObject) {
+        fields[key] = value;
+      }
+    }
+    return fields;
+  }
+
   /**
    * Apply policy filters to a query filter
+   * Reads use readFilter; writes AND in writeFilter as well
    */
-  private applyPolicies(filter: Filter<TDoc>): Filter<TDoc> {
+  private applyPolicies(filter: Filter<TDoc>, access: 'read' | 'write' = 'read'): Filter<TDoc> {
     const policies = this.collectionDef._meta.policies;
+    const conditions: Filter<TDoc>[] = [filter];
+
+    // Apply tenant scope
+    const scope = this.scopeFor(this.collectionDef);
+    if (scope) {
+      conditions.push(scope as Filter<TDoc>);
+    }
 
     // Apply read filter
     if (policies.readFilter) {
-      const policyFilter = policies.readFilter(this.ctx);
-      return {
-        $and: [filter, policyFilter],
-      } as Filter<TDoc>;
+      conditions.push(policies.readFilter(this.ctx) as Filter<TDoc>);
+    }
+
+    // Writes are additionally restricted by the write filter
+    if (access === 'write' && policies.writeFilter) {
+      conditions.push(policies.writeFilter(this.ctx) as Filter<TDoc>);
+    }
+
+    return conditions.length > 1 ? ({ $and: conditions } as Filter<TDoc>) : filter;
+  }
+
+  /**
+   * Resolve a manyToMany relation for attach/detach/sync
+   * The source document must pass the write policies (linking counts as a write on it);
+   * join documents are written through the join collection's facade, so its hooks,
+   * policies and tenant stamping apply
+   *
+   * @throws PolicyDeniedError if the source document is missing or not writable
+   */
+  private async manyToManyLink(
+    filter: Filter<TDoc>,
+    relationName: string,
+    operation: Operation,
+  ): Promise<ManyToManyLink> {
+    const relations = this.collectionDef._meta.relations as Record<string, AnyRelation>;
+    const relation = relations[relationName];
+    if (relation?.type !== 'manyToMany' || !relation._throughCollectionDef) {
+      throw new Error(`Relation '${relationName}' is not a MANY_TO_MANY relation`);
+    }
+
+    const localField = relation.localField ?? '_id';
+    const source = await this.collection.findOne(
+      this.applyOwnership(this.applyPolicies(this.applySoftDelete(filter), 'write'), operation),
+      { projection: { [localField]: 1 }, session: this.ctx.session },
+    );
+    if (!source) {
+      throw new PolicyDeniedError(
+        operation,
+        this.collectionDef._meta.name,
+        'document not found or not writable',
+      );
+    }
+
+    const throughDef = relation._throughCollectionDef;
+    return {
+      relation,
+      sourceKey: (source as Document)[localField],
+      join: new CollectionFacade(this.db, throughDef, this.ctx, {
+        ...this.options,
+        collectionMiddlewares: throughDef._meta.middlewares || [],
+      }),
+    };
+  }
+
+  /**
+   * Keys of target documents (foreignField values as stored), read through the target's facade
+   *
+   * @throws Error if a target does not exist or is not readable
+   */
+  private async findTargetKeys(
+    link: ManyToManyLink,
+    targetIds: Array<string | ObjectId>,
+  ): Promise<unknown[]> {
+    const { relation } = link;
+    const foreignField = relation.foreignField ?? '_id';
+    const targetDef = relation._targetCollectionDef!;
+    const facade = new CollectionFacade(this.db, targetDef, this.ctx, {
+      ...this.options,
+      collectionMiddlewares: targetDef._meta.middlewares || [],
+    });
+
+    const targets: Document[] = await facade.findMany(
+      { [foreignField]: { $in: this.toKeyValues(targetIds, foreignField) } },
+      { select: { [foreignField]: 1 } },
+    );
+    const keys = targets.map((target) => target[foreignField]);
+    const found = new Set(keys.map(String));
+    if (targetIds.some((id) => !found.has(String(id)))) {
+      throw new Error(
+        `Invalid reference: ${relation.targetKey} references non-existent document in ${relation.targetCollection}`,
+      );
+    }
+    return keys;
+  }
+
+  /**
+   * Target keys currently linked to the source document
+   */
+  private async linkedTargetKeys(link: ManyToManyLink): Promise<unknown[]> {
+    const { sourceKey, targetKey } = link.relation;
+    const joins: Document[] = await link.join.findMany(
+      { [sourceKey]: link.sourceKey },
+      { select: { [targetKey]: 1 } },
+    );
+    return joins.map((join) => join[targetKey]);
+  }
+
+  /**
+   * Create join documents linking the source document to the given target keys
+   * All pairs are written with one unordered bulk upsert, so pairs already linked (even
+   * concurrently) are skipped
+   */
+  private async linkTargets(
+    link: ManyToManyLink,
+    targetKeys: unknown[],
+    options: AttachOptions,
+  ): Promise<number> {
+    if (targetKeys.length === 0) return 0;
+
+    const { sourceKey, targetKey } = link.relation;
+    const pairs = targetKeys.map((key) => ({ [sourceKey]: link.sourceKey, [targetKey]: key }));
+    const join = link.join;
+    return join.executeWithMiddlewares(
+      'insertMany',
+      async () => {
+        const docs: Document[] = [];
+        for (const pair of pairs) {
+          docs.push(await join.prepareUpsertInsert(pair, { ...options.data }, 'insertMany'));
+        }
+
+        let upsertedIds: Record<number, unknown>;
+        try {
+          const result = await join.collection.bulkWrite(
+            pairs.map((pair, index) => ({
+              updateOne: {
+                filter: join.upsertMatchFilter(pair),
+                update: { $setOnInsert: docs[index]! },
+                upsert: true,
+              },
+            })),
+            { ordered: false, session: this.ctx.session },
+          );
+          upsertedIds = result.upsertedIds;
+        } catch (error) {
+          if (!(error instanceof MongoBulkWriteError)) throw error;
+          // Linked concurrently (the unique join index rejected the second insert)
+          const writeErrors = [error.writeErrors].flat();
+          if (
+            writeErrors.length === 0 ||
+            writeErrors.some((writeError) => writeError.code !== DUPLICATE_KEY)
+          ) {
+            throw error;
+          }
+          upsertedIds = error.result.upsertedIds;
+        }
+
+        const created = Object.entries(upsertedIds).map(([index, _id]) => ({
+          ...docs[Number(index)],
+          _id,
+        }));
+        const afterInsert = join.collectionDef._meta.hooks.afterInsert;
+        if (afterInsert) {
+          for (const doc of created) {
+            await afterInsert(this.ctx, doc);
+          }
+        }
+        return created.length;
+      },
+      { data: pairs.map((pair) => ({ ...options.data, ...pair })) },
+    );
+  }
+
+  /**
+   * Delete the join documents linking the source document to the given target keys (or all)
+   */
+  private async unlinkTargets(link: ManyToManyLink, targetKeys?: unknown[]): Promise<number> {
+    const { sourceKey, targetKey } = link.relation;
+    return link.join.deleteMany({
+      [sourceKey]: link.sourceKey,
+      ...(targetKeys ? { [targetKey]: { $in: targetKeys } } : {}),
+    });
+  }
+
+  /**
+   * Values to match a key field with (_id strings as ObjectIds, keeping the string form)
+   */
+  private toKeyValues(ids: Array<string | ObjectId>, field: string): unknown[] {
+    return ids.flatMap((id) =>
+      field === '_id' && typeof id === 'string' && /^[0-9a-f]{24}$/i.test(id)
+        ? [new ObjectId(id), id]
+        : [id],
+    );
+  }
+
+  /**
+   * Tenant filter of a collection for the current context
+   * Null when unscoped() or when the collection has no tenant key
+   */
+  private scopeFor(collectionDef: CollectionDefinition<any, any>): Document | null {
+    if (this.unscopedMode) return null;
+    return tenantFilter(collectionDef, this.ctx);
+  }
+
+  /**
+   * Include pipeline options
+   * Lookups are tenant-scoped and hide soft-deleted targets (unless withDeleted)
+   */
+  private pipelineOptions(options: SoftDeleteOptions = {}): PipelineOptions {
+    return {
+      scopeFilter: (targetDef) => {
+        const conditions = [
+          this.scopeFor(targetDef),
+          softDeleteFilter(targetDef, { withDeleted: options.withDeleted }),
+        ].filter((condition): condition is Document => condition !== null);
+        if (conditions.length === 0) return null;
+        return conditions.length === 1 ? conditions[0]! : { $and: conditions };
+      },
+    };
+  }
+
+  /**
+   * Hide or select soft-deleted documents in a read filter
+   */
+  private applySoftDelete(filter: Filter<TDoc>, options: SoftDeleteOptions = {}): Filter<TDoc> {
+    const condition = softDeleteFilter(this.collectionDef, options);
+    return condition ? ({ $and: [filter, condition] } as Filter<TDoc>) : filter;
+  }
+
+  /**
+   * Stamp the context's tenant and owner into a document being inserted
+   */
+  private stampInsert<T>(doc: T, operation: Operation): T {
+    const stamped = this.unscopedMode
+      ? (doc as Record<string, unknown>)
+      : stampTenant(this.collectionDef, this.ctx, doc as Record<string, unknown>);
+    return stampOwner(this.collectionDef, this.ctx, stamped, operation) as T;
+  }
+
+  /**
+   * Restrict a bulk write filter to documents owned by the context's user
+   */
+  private applyOwnership(filter: Filter<TDoc>, operation: Operation): Filter<TDoc> {
+    const owner = ownerFilter(this.collectionDef, this.ctx, operation);
+    return owner ? ({ $and: [filter, owner] } as Filter<TDoc>) : filter;
+  }
+
+  /**
+   * Reject updates that would move documents to another tenant
+   */
+  private assertScopedUpdate(update: Document): void {
+    if (this.unscopedMode) return;
+    assertTenantUpdate(this.collectionDef, this.ctx, update);
+  }
+
+  /**
+   * Bulk write settings of the collection with defaults applied
+   */
+  private bulkWriteConfig(): Required<BulkWriteConfig> {
+    const config = this.collectionDef._meta.bulkWrites ?? {};
+    return {
+      mode: config.mode ?? 'set',
+      concurrency: config.concurrency ?? 10,
+      batchSize: config.batchSize ?? 100,
+    };
+  }
+
+  /**
+   * Bulk write mode of updateMany (canUpdate) or deleteMany (canDelete)
+   * Collections declaring the policy always run per document, so it cannot be bypassed
+   */
+  private bulkWriteMode(policy: 'canUpdate' | 'canDelete'): BulkWriteConfig['mode'] {
+    return this.collectionDef._meta.policies[policy] ? 'per-document' : this.bulkWriteConfig().mode;
+  }
+
+  /**
+   * Parallel hook calls for per-document bulk writes
+   * Operations sharing a transaction session must not overlap, so transactions run one at a time
+   */
+  private hookConcurrency(): number {
+    return this.ctx.session?.inTransaction() ? 1 : this.bulkWriteConfig().concurrency;
+  }
+
+  /**
+   * Load documents matching a filter in _id-ordered batches
+   * Keyset on _id so documents still matching after a write are not visited twice
+   */
+  private async *findBatches(
+    filter: Filter<TDoc>,
+    options: { batchSize?: number; projection?: Document } = {},
+  ): AsyncGenerator<TDoc[]> {
+    const batchSize = options.batchSize ?? this.bulkWriteConfig().batchSize;
+    let lastId: unknown;
+
+    while (true) {
+      const batchFilter =
+        lastId === undefined ? filter : { $and: [filter, { _id: { $gt: lastId } }] };
+      const docs = (await this.collection
+        .find(batchFilter as Filter<TDoc>, {
+          sort: { _id: 1 },
+          limit: batchSize,
+          projection: options.projection,
+          session: this.ctx.session,
+        })
+        .toArray()) as TDoc[];
+
+      if (docs.length > 0) {
+        yield docs;
+      }
+      if (docs.length < batchSize) {
+        return;
+      }
+      lastId = docs[docs.length - 1]!._id;
+    }
+  }
+
+  /**
+   * Updated fields of an update as a propagation map ({ field: true })
+   */
+  private toChangedFields(update: Document): Record<string, unknown> {
+    return Object.fromEntries(getUpdatedFields(update).map((field) => [field, true]));
+  }
+
+  /**
+   * Check whether an update touches fields embedded elsewhere (reverse embeds to refresh)
+   */
+  private needsReversePropagation(changedFields: Record<string, unknown>): boolean {
+    const targets = this.reverseEmbedRegistry?.get(this.collectionDef._meta.name) ?? [];
+    return targets.some((target) => shouldPropagateUpdate(target.config, changedFields));
+  }
+
+  /**
+   * Run dev guardrails (explain-based index check) for a query filter
+   */
+  private async guardQuery(operation: Operation, filter: Filter<TDoc>): Promise<void> {
+    if (!this.queryGuard?.enabled) return;
+    await this.queryGuard.check(
+      this.collection,
+      this.collectionDef,
+      operation,
+      filter,
+      this.ctx.session,
+    );
+  }
+
+  /**
+   * Validate write data against the generated Zod schemas (validation.onWrite)
+   * The full document ('writeDocument') is only checked with the 'both' strategy
+   */
+  private validateWrite(target: 'insert' | 'update' | 'writeDocument', data: unknown): void {
+    const strategy = this.validation.onWrite;
+    if (!isValidationEnabled(strategy)) return;
+    if (target === 'writeDocument' && strategy !== 'both') return;
+    validateAgainstSchema(this.collectionDef, target, data);
+  }
+
+  /**
+   * Validate documents read from the database (validation.onRead)
+   * Projected documents are validated field by field (missing fields are allowed)
+   */
+  private validateRead(docs: Document[], select?: Record<string, unknown>): void {
+    if (!isValidationEnabled(this.validation.onRead)) return;
+    const target = select ? 'projectedDocument' : 'document';
+    for (const doc of docs) {
+      validateAgainstSchema(this.collectionDef, target, doc);
+    }
+  }
+
+  /**
+   * Remove fields the context may not read (field-level readableBy rules, also on included relations)
+   */
+  private stripFields<T extends Document>(docs: T[], include?: unknown): T[] {
+    return stripUnreadableFields(this.collectionDef, this.ctx, docs, include);
+  }
+
+  /**
+   * $project stage for a root select in an aggregation
+   * Inclusion projections keep the included relation fields
+   */
+  private buildSelectStages(options: QueryOptions<TRelationTargets>): Document[] {
+    const select = options.select;
+    if (!select || Object.keys(select).length === 0) return [];
+
+    const isInclusion = Object.entries(select).some(
+      ([field, value]) => field !== '_id' && value !== 0 && value !== false,
+    );
+    if (!isInclusion) {
+      return [{ $project: select }];
     }
 
-    return filter;
+    const relationNames =
+      typeof options.include === 'string' ? [options.include] : Object.keys(options.include || {});
+    return [
+      {
+        $project: {
+          ...select,
+          ...Object.fromEntries(relationNames.map((name) => [name, 1])),
+        },
+      },
+    ];
   }
 
   /**
@@ -694,17 +2235,17 @@ export class CollectionFacade<
    */
   private applyUpdateTimestamps(data: Record<string, unknown>): Record<string, unknown> {
     const schema = this.collectionDef._schema;
-    const result = { ...data };
+    const timestamps: Record<string, unknown> = {};
 
     for (const [fieldName, fieldBuilder] of Object.entries(schema)) {
       const config = fieldBuilder._config;
 
       if (config.onUpdateNow) {
-        result[fieldName] = new Date();
+        timestamps[fieldName] = new Date();
       }
     }
 
-    return result;
+    return withSetFields(data, timestamps);
   }
 
   /**
@@ -720,21 +2261,10 @@ export class CollectionFacade<
     return null;
   }
 
-  /**
-   * Get the soft delete field name if configured
-   */
-  private getSoftDeleteField(): string | null {
-    const schema = this.collectionDef._schema;
-    for (const [fieldName, fieldBuilder] of Object.entries(schema)) {
-      if (fieldBuilder._config.isSoftDeleteFlag) {
-        return fieldName;
-      }
-    }
-    return null;
-  }
-
   /**
    * Propagate changes to documents that have embedded this source
+   * strategy: 'async' queues the change in the embed outbox within the write's session;
+   * sync runs hand targets beyond reverse.maxUpdates over to the outbox worker
    */
   private async propagateReverseEmbeds(
     updatedDoc: TDoc,
@@ -752,189 +2282,245 @@ export class CollectionFacade<
     }
 
     for (const target of targets) {
-      const { targetCollectionName, relationName, config } = target;
-
       // Check if we should propagate (watchFields logic)
-      const shouldPropagate = this.shouldPropagateUpdate(config, updateData);
-      if (!shouldPropagate) {
+      if (!shouldPropagateUpdate(target.config, updateData)) {
         continue;
       }
 
-      // Check if async strategy is enabled
-      const reverseConfig = config.reverse;
-      const strategy = reverseConfig?.strategy || 'sync';
+      const strategy = target.config.reverse?.strategy || 'sync';
+      if (strategy === 'async' && this.embedOutbox) {
+        await this.embedOutbox.enqueue(collectionName, updatedDoc._id, target, {
+          session: this.ctx.session,
+        });
+        continue;
+      }
 
-      if (strategy === 'async') {
-        // Defer propagation using setTimeout (non-blocking)
-        setTimeout(() => {
-          this.executePropagation(updatedDoc, config, targetCollectionName, relationName).catch(
-            (err) => {
-              console.error('Error in async embed propagation:', err);
-            },
-          );
-        }, 0);
-      } else {
-        // Execute synchronously
-        await this.executePropagation(updatedDoc, config, targetCollectionName, relationName);
+      const result = await propagateEmbed(this.db, updatedDoc, target, {
+        session: this.ctx.session,
+        ctx: this.ctx,
+      });
+      if (!result.done && this.embedOutbox) {
+        await this.embedOutbox.enqueue(collectionName, updatedDoc._id, target, {
+          session: this.ctx.session,
+          resumeAfter: result.lastTargetId,
+        });
       }
     }
   }
 
   /**
-   * Execute the actual propagation logic
+   * Soft delete (or restore) documents embedding the given source documents
+   * via onSourceDelete: 'cascade'
+   * Runs through the target facade so its policies, hooks and middlewares apply;
+   * targets without a soft-delete flag are left untouched
    */
-  private async executePropagation(
-    updatedDoc: TDoc,
-    config: any,
-    targetCollectionName: string,
-    relationName: string,
+  private async cascadeSoftDelete(
+    sourceDocs: TDoc[],
+    softDeleteField: string,
+    deletedAt: Date | null,
+    options: SoftDeleteManyOptions,
+    result: SoftDeleteManyResult,
   ): Promise<void> {
+    const targets = (this.deleteRegistry?.get(this.collectionDef._meta.name) ?? []).filter(
+      (target) => target.deleteAction === 'cascade',
+    );
+    const operation = deletedAt ? 'softDeleteMany' : 'restoreMany';
 
-      // Build new embedded data
-      const embedIdField = config.embedIdField || '_id';
-      const newEmbedData = this.extractFieldsForEmbed(
-        updatedDoc as any,
-        config.fields,
-        embedIdField,
-      );
-
-      // Determine which field to search by (the ID that was embedded)
-      const sourceIdValue = (updatedDoc as any)[embedIdField];
-      const sourceIdString =
-        sourceIdValue instanceof ObjectId
-          ? sourceIdValue.toHexString()
-          : String(sourceIdValue);
-
-      // Update embedded field in target collection
-      const targetCollection = this.db.collection(targetCollectionName);
+    for (const target of targets) {
+      const { targetCollectionName, targetCollectionDef, config, shape } = target;
+      const targetField = getSoftDeleteField(targetCollectionDef);
+      if (!targetField) {
+        continue;
+      }
 
-      // Determine embed strategy from 'from' config
-      const fromPath = config.from;
-      const isInPlace = fromPath.includes('.'); // e.g., 'directory._id'
-      const isArray = fromPath.endsWith('s') && !isInPlace; // heuristic: 'tagIds' vs 'tagId'
-
-      if (isInPlace) {
-        // In-place strategy: data merged into existing object
-        // Extract base path: 'directory._id' → 'directory'
-        const basePath = fromPath.substring(0, fromPath.lastIndexOf('.'));
-
-        // For in-place embeds, the _id might be stored as ObjectId (not string)
-        // Try both string and ObjectId in filter
-        const filter = {
-          $or: [
-            { [`${basePath}._id`]: sourceIdString },
-            { [`${basePath}._id`]: sourceIdValue },
-          ],
-        };
+      const facade = new CollectionFacade(this.db, targetCollectionDef, this.ctx, {
+        ...this.options,
+        collectionMiddlewares: targetCollectionDef._meta.middlewares || [],
+      });
 
-        // Build $set object with nested paths
-        const updateFields: Record<string, any> = {};
-        for (const [key, value] of Object.entries(newEmbedData)) {
-          if (key !== '_id') {
-            updateFields[`${basePath}.${key}`] = value;
-          }
-        }
+      // Restores only bring back documents deleted together with their source
+      const groups = new Map<number, TDoc[]>();
+      for (const doc of sourceDocs) {
+        const key = deletedAt ? 0 : new Date((doc as any)[softDeleteField]).getTime();
+        groups.set(key, [...(groups.get(key) ?? []), doc]);
+      }
 
-        await targetCollection.updateMany(
-          filter,
-          { $set: updateFields },
-          { session: this.ctx.session },
+      for (const [deletedTime, docs] of groups) {
+        const embedFilter = embedMatchFilter(shape, toEmbedIds(docs, config.embedIdField || '_id'));
+        const filter = deletedAt
+          ? embedFilter
+          : { $and: [embedFilter, { [targetField]: new Date(deletedTime) }] };
+        const cascaded = await facade.executeWithMiddlewares(
+          operation,
+          async () => {
+            return facade.setSoftDeleteFlagMany(filter, deletedAt, operation, options);
+          },
+          { filter },
         );
-      } else {
-        // Separate or Array strategy: embed stored in relationName field
-        const filter = {
-          [`${relationName}._id`]: sourceIdString,
-        };
 
-        if (isArray) {
-          // Array strategy: update specific element in array
-          await targetCollection.updateMany(
-            filter,
-            {
-              $set: {
-                [`${relationName}.$[elem]`]: newEmbedData,
-              },
-            },
-            {
-              arrayFilters: [{ 'elem._id': sourceIdString }],
-              session: this.ctx.session,
-            } as any,
-          );
-        } else {
-          // Separate strategy: replace entire embed
-          await targetCollection.updateMany(
-            filter,
-            { $set: { [relationName]: newEmbedData } },
-            { session: this.ctx.session },
-          );
+        result.cascaded[targetCollectionName] =
+          (result.cascaded[targetCollectionName] ?? 0) + cascaded.modified;
+        for (const [name, count] of Object.entries(cascaded.cascaded)) {
+          result.cascaded[name] = (result.cascaded[name] ?? 0) + count;
         }
       }
+    }
   }
 
   /**
-   * Check if update should be propagated based on watchFields
+   * Enforce onDelete: 'restrict' reference relations before deleting documents
+   * Follows onDelete: 'cascade' references through the whole graph, so a restrict
+   * below a cascade blocks the delete before anything is removed. Cascades must also
+   * be able to delete every referencing document: documents outside the context's
+   * write scope (tenant, writeFilter, ownership) block the delete instead of being skipped
+   *
+   * @throws ReferentialIntegrityError listing the referencing collections and counts
+   * @throws PolicyDeniedError if a cascade would leave referencing documents behind
    */
-  private shouldPropagateUpdate(
-    config: any,
-    updateData: Record<string, unknown>,
-  ): boolean {
-    const reverseConfig = config.reverse;
+  private async assertNotReferenced(
+    docs: TDoc[],
+    visited: Set<string> = new Set(),
+  ): Promise<void> {
+    const collectionName = this.collectionDef._meta.name;
+    const references = this.referenceDeleteRegistry?.get(collectionName) ?? [];
+    const blocking = [];
+    for (const doc of docs) {
+      visited.add(`${collectionName}:${String(doc._id)}`);
+    }
 
-    // If no watchFields specified, always propagate
-    if (!reverseConfig?.watchFields || reverseConfig.watchFields.length === 0) {
-      return true;
+    for (const reference of references) {
+      if (reference.onDelete !== 'restrict') continue;
+
+      const count = await this.db
+        .collection(reference.referencingCollectionDef._meta.name)
+        .countDocuments(this.referencingFilter(reference, docs), { session: this.ctx.session });
+      if (count > 0) {
+        blocking.push({
+          collection: reference.referencingCollectionDef._meta.name,
+          relation: reference.relationName,
+          count,
+        });
+      }
     }
 
-    // Check if any of the updated fields are in watchFields
-    const updatedFields = Object.keys(updateData);
-    const watchFields = reverseConfig.watchFields;
+    if (blocking.length > 0) {
+      throw new ReferentialIntegrityError(collectionName, blocking);
+    }
 
-    return updatedFields.some((field) => watchFields.includes(field));
+    for (const reference of references) {
+      if (reference.onDelete !== 'cascade') continue;
+      await this.assertCascadable(reference, docs, visited);
+    }
   }
 
   /**
-   * Extract specified fields from document for embedding
-   * ALWAYS includes the ID field from embedIdField config
+   * Check that a cascade can delete all documents referencing the given ones, then
+   * check the references of those documents in turn
+   *
+   * @throws PolicyDeniedError if some referencing documents are outside the write scope
    */
-  private extractFieldsForEmbed(
-    doc: Document,
-    fields: string[] | Record<string, 1 | 0>,
-    embedIdField: string = '_id',
-  ): Document {
-    if (Array.isArray(fields)) {
-      const result: Document = {};
-
-      // Always include the ID field first (convert to string)
-      if (embedIdField in doc) {
-        const idValue = doc[embedIdField];
-        result._id = idValue instanceof ObjectId ? idValue.toHexString() : String(idValue);
-      }
+  private async assertCascadable(
+    reference: {
+      referencingCollectionDef: CollectionDefinition<any, any>;
+      localField: string;
+      foreignField: string;
+    },
+    docs: TDoc[],
+    visited: Set<string>,
+  ): Promise<void> {
+    const facade = this.referencingFacade(reference.referencingCollectionDef);
+    const referencingName = facade.collectionDef._meta.name;
+    const filter = this.referencingFilter(reference, docs);
+
+    const total = await facade.collection.countDocuments(filter, { session: this.ctx.session });
+    if (total === 0) return;
+    const deletable = await facade.collection.countDocuments(
+      facade.applyOwnership(facade.applyPolicies(filter, 'write'), 'deleteMany'),
+      { session: this.ctx.session },
+    );
+    if (deletable < total) {
+      throw new PolicyDeniedError(
+        'deleteMany',
+        referencingName,
+        `${total - deletable} document(s) referencing '${this.collectionDef._meta.name}' are outside the write scope`,
+      );
+    }
 
-      for (const field of fields) {
-        if (field in doc && field !== embedIdField) {
-          result[field] = doc[field];
-        }
+    if (!this.referenceDeleteRegistry?.get(referencingName)?.length) return;
+    for await (const batch of facade.findBatches(filter)) {
+      const unvisited = batch.filter(
+        (doc) => !visited.has(`${referencingName}:${String(doc._id)}`),
+      );
+      if (unvisited.length > 0) {
+        await facade.assertNotReferenced(unvisited, visited);
       }
-      return result;
-    } else {
-      // Projection syntax
-      const result: Document = {};
+    }
+  }
 
-      // Always include the ID field unless explicitly excluded (convert to string)
-      if (fields._id !== 0 && embedIdField in doc) {
-        const idValue = doc[embedIdField];
-        result._id = idValue instanceof ObjectId ? idValue.toHexString() : String(idValue);
-      }
+  /**
+   * Facade of a collection referencing this one (its own middlewares apply)
+   */
+  private referencingFacade(
+    referencingCollectionDef: CollectionDefinition<any, any>,
+  ): CollectionFacade<any, any> {
+    return new CollectionFacade(this.db, referencingCollectionDef, this.ctx, {
+      ...this.options,
+      collectionMiddlewares: referencingCollectionDef._meta.middlewares || [],
+    });
+  }
 
-      for (const [field, include] of Object.entries(fields)) {
-        if (include === 1 && field in doc && field !== embedIdField) {
-          result[field] = doc[field];
-        }
+  /**
+   * Apply onDelete: 'cascade' / 'set-null' reference relations after deleting documents
+   * Cascades delete through the referencing facade, so its hooks, policies and own
+   * references apply recursively
+   */
+  private async handleReferenceDeletes(deletedDocs: TDoc[]): Promise<void> {
+    const references = this.referenceDeleteRegistry?.get(this.collectionDef._meta.name) ?? [];
+
+    for (const reference of references) {
+      const { referencingCollectionDef, localField, onDelete } = reference;
+      const filter = this.referencingFilter(reference, deletedDocs);
+
+      if (onDelete === 'cascade') {
+        await this.referencingFacade(referencingCollectionDef).deleteMany(filter);
+      } else if (onDelete === 'set-null') {
+        const values = this.referencedValues(reference.foreignField, deletedDocs);
+        const isArrayField =
+          (referencingCollectionDef._schema[localField] as any)?._config.type === FieldType.ARRAY;
+        await this.db
+          .collection(referencingCollectionDef._meta.name)
+          .updateMany(
+            filter,
+            isArrayField
+              ? { $pull: { [localField]: { $in: values } } as any }
+              : { $set: { [localField]: null } },
+            { session: this.ctx.session },
+          );
       }
-      return result;
     }
   }
 
+  /**
+   * Filter matching documents whose reference points at any of the given documents
+   */
+  private referencingFilter(
+    reference: { localField: string; foreignField: string },
+    docs: TDoc[],
+  ): Document {
+    return { [reference.localField]: { $in: this.referencedValues(reference.foreignField, docs) } };
+  }
+
+  /**
+   * Referenced values of documents (ObjectIds also as hex strings, as references may store either)
+   */
+  private referencedValues(foreignField: string, docs: TDoc[]): unknown[] {
+    return docs.flatMap((doc) => {
+      const value = (doc as any)[foreignField];
+      if (value == null) return [];
+      return value instanceof ObjectId ? [value, value.toHexString()] : [value];
+    });
+  }
+
   /**
    * Handle delete cascades when a source document is deleted
    */
@@ -951,140 +2537,28 @@ export class CollectionFacade<
     }
 
     for (const target of targets) {
-      const { targetCollectionName, relationName, config, deleteAction } = target;
-
-      const embedIdField = config.embedIdField || '_id';
-      const sourceIdValue = (deletedDoc as any)[embedIdField];
-      const sourceIdString =
-        sourceIdValue instanceof ObjectId
-          ? sourceIdValue.toHexString()
-          : String(sourceIdValue);
-
+      const { targetCollectionName, config, shape, deleteAction } = target;
+      const ids = toEmbedIds([deletedDoc as Document], config.embedIdField || '_id');
       const targetCollection = this.db.collection(targetCollectionName);
 
-      // Determine embed strategy from 'from' config
-      const fromPath = config.from;
-      const isInPlace = fromPath.includes('.'); // e.g., 'directory._id'
-      const isArray = fromPath.endsWith('s') && !isInPlace;
-
       if (deleteAction === 'cascade') {
         // Delete entire document
-        if (isInPlace) {
-          const basePath = fromPath.substring(0, fromPath.lastIndexOf('.'));
-          await targetCollection.deleteMany(
-            {
-              $or: [
-                { [`${basePath}._id`]: sourceIdString },
-                { [`${basePath}._id`]: sourceIdValue },
-              ],
-            },
-            { session: this.ctx.session },
-          );
-        } else if (isArray) {
-          // Array embeds: delete documents containing this embed in array
-          await targetCollection.deleteMany(
-            { [`${relationName}._id`]: sourceIdString },
-            { session: this.ctx.session },
-          );
-        } else {
-          // Separate strategy
-          await targetCollection.deleteMany(
-            { [`${relationName}._id`]: sourceIdString },
-            { session: this.ctx.session },
-          );
-        }
-      } else if (deleteAction === 'nullify') {
-        // Set both embed and reference to null
-        if (isInPlace) {
-          const basePath = fromPath.substring(0, fromPath.lastIndexOf('.'));
-          await targetCollection.updateMany(
-            {
-              $or: [
-                { [`${basePath}._id`]: sourceIdString },
-                { [`${basePath}._id`]: sourceIdValue },
-              ],
-            },
-            {
-              $set: {
-                [basePath]: null,
-              },
-            },
-            { session: this.ctx.session },
-          );
-        } else if (isArray) {
-          // Array embeds: remove the specific embed from array and nullify reference
-          const refField = fromPath; // e.g., 'tagIds'
-          // Remove from embed array
-          await targetCollection.updateMany(
-            { [`${relationName}._id`]: sourceIdString },
-            {
-              $pull: { [relationName]: { _id: sourceIdString } } as any,
-            },
-            { session: this.ctx.session },
-          );
-          // Remove from reference array
-          await targetCollection.updateMany(
-            { [refField]: sourceIdValue },
-            {
-              $pull: { [refField]: sourceIdValue } as any,
-            },
-            { session: this.ctx.session },
-          );
-        } else {
-          // Separate strategy: nullify both embed and reference
-          const refField = fromPath; // e.g., 'authorId'
-          await targetCollection.updateMany(
-            { [`${relationName}._id`]: sourceIdString },
-            {
-              $set: {
-                [relationName]: null,
-                [refField]: null,
-              },
-            },
-            { session: this.ctx.session },
-          );
-        }
-      } else if (deleteAction === 'clear') {
-        // Clear embed but keep reference
-        if (isInPlace) {
-          const basePath = fromPath.substring(0, fromPath.lastIndexOf('.'));
-          // Clear all fields except _id in the nested object
-          const unsetFields: Record<string, any> = {};
-          for (const field of config.fields) {
-            unsetFields[`${basePath}.${field}`] = '';
-          }
-          await targetCollection.updateMany(
-            {
-              $or: [
-                { [`${basePath}._id`]: sourceIdString },
-                { [`${basePath}._id`]: sourceIdValue },
-              ],
-            },
-            {
-              $unset: unsetFields,
-            },
-            { session: this.ctx.session },
-          );
-        } else if (isArray) {
-          // Array embeds: remove from embed array but keep in reference array
-          await targetCollection.updateMany(
-            { [`${relationName}._id`]: sourceIdString },
-            {
-              $pull: { [relationName]: { _id: sourceIdString } } as any,
-            },
-            { session: this.ctx.session },
-          );
-        } else {
-          // Separate strategy: nullify embed but keep reference
-          await targetCollection.updateMany(
-            { [`${relationName}._id`]: sourceIdString },
-            {
-              $set: {
-                [relationName]: null,
-              },
-            },
-            { session: this.ctx.session },
-          );
+        await targetCollection.deleteMany(embedMatchFilter(shape, ids), {
+          session: this.ctx.session,
+        });
+      } else if (deleteAction === 'nullify' || deleteAction === 'clear') {
+        // nullify: remove embed and reference; clear: remove embed but keep reference
+        const writes = embedRemovalWrites(
+          shape,
+          ids,
+          deleteAction,
+          embeddedFieldNames(config.fields ?? config.projection),
+        );
+        for (const { filter, update, arrayFilters } of writes) {
+          await targetCollection.updateMany(filter, update, {
+            arrayFilters,
+            session: this.ctx.session,
+          });
         }
       }
     }
@@ -1129,84 +2603,261 @@ export class CollectionFacade<
   /**
    * Manual batch refresh of embeds (persists updates to database)
    * Useful for maintenance, migrations, or fixing stale data
+   * Documents are read in _id order and written with one bulkWrite per batch; with a
+   * checkpoint name, progress is saved after each batch and a rerun resumes from it
    */
   async refreshEmbeds(
     relationName: string,
-    options: {
-      filter?: Filter<TDoc>;
-      batchSize?: number;
-      dryRun?: boolean;
-    } = {},
-  ): Promise<{ matched: number; updated: number; errors: number; skipped: number }> {
-    const { filter = {}, batchSize = 100, dryRun = false } = options;
+    options: RefreshEmbedsOptions<TDoc> = {},
+  ): Promise<RefreshStats> {
+    const { filter = {}, batchSize = 100, checkpoint, onProgress } = options;
+    const config = this.forwardEmbedConfig(relationName);
+    // A transaction session cannot run operations in parallel
+    const concurrency = this.ctx.session?.inTransaction() ? 1 : (options.concurrency ?? 1);
+
+    const checkpoints = checkpoint
+      ? this.db.collection<RefreshCheckpoint>(REFRESH_CHECKPOINT_COLLECTION)
+      : null;
+    const checkpointId = `${this.collectionDef._meta.name}.${relationName}.${checkpoint}`;
+    const saved = await checkpoints?.findOne({ _id: checkpointId });
+
+    const stats: RefreshStats = saved?.stats ?? { matched: 0, updated: 0, errors: [], skipped: 0 };
+    // Errors of earlier runs that did not fit in the checkpoint
+    const droppedErrors = saved ? saved.errorCount - saved.stats.errors.length : 0;
+    let lastId = saved?.lastId;
+
+    const finalFilter = this.applyPolicies(filter, 'write');
+    const resumeFilter = (
+      lastId === undefined ? finalFilter : { $and: [finalFilter, { _id: { $gt: lastId } }] }
+    ) as Filter<TDoc>;
+
+    // Batches finish out of order with concurrency; progress only moves past a batch
+    // once every earlier batch is done, so a resumed run never skips documents
+    const queue: Array<{ lastId: unknown; stats?: RefreshStats }> = [];
+    const inFlight = new Set<Promise<void>>();
+    let saving = Promise.resolve();
+    let failure: { error: unknown } | undefined;
+
+    const complete = (entry: (typeof queue)[number], batchStats: RefreshStats) => {
+      entry.stats = batchStats;
+      let advanced = false;
+      while (queue[0]?.stats) {
+        const done = queue.shift()!;
+        stats.matched += done.stats!.matched;
+        stats.updated += done.stats!.updated;
+        stats.skipped += done.stats!.skipped;
+        stats.errors.push(...done.stats!.errors);
+        lastId = done.lastId;
+        advanced = true;
+      }
+      if (!advanced) return saving;
+
+      const progress = { ...stats, errors: [...stats.errors], lastId };
+      saving = saving.then(async () => {
+        await checkpoints?.updateOne(
+          { _id: checkpointId },
+          {
+            $set: {
+              lastId,
+              stats: {
+                matched: progress.matched,
+                updated: progress.updated,
+                skipped: progress.skipped,
+                errors: progress.errors.slice(0, MAX_CHECKPOINT_ERRORS),
+              },
+              errorCount: droppedErrors + progress.errors.length,
+              updatedAt: new Date(),
+            },
+          },
+          { upsert: true },
+        );
+        await onProgress?.(progress);
+      });
+      return saving;
+    };
 
-    const relations = this.collectionDef._meta.relations || {};
-    const relation = relations[relationName];
+    for await (const batch of this.findBatches(resumeFilter, { batchSize })) {
+      const entry = { lastId: batch[batch.length - 1]!._id } as (typeof queue)[number];
+      queue.push(entry);
+
+      // A failed batch stops the run; batches already running still finish so the
+      // checkpoint keeps every contiguous batch that completed
+      const task: Promise<void> = this.refreshEmbedBatch(relationName, config, batch, options)
+        .then((batchStats) => complete(entry, batchStats))
+        .catch((error) => {
+          failure ??= { error };
+        })
+        .finally(() => inFlight.delete(task));
+      inFlight.add(task);
+      if (inFlight.size >= concurrency) {
+        await Promise.race(inFlight);
+      }
+      if (failure) break;
+    }
+    await Promise.all(inFlight);
+    if (failure) {
+      throw failure.error;
+    }
+    await saving;
 
-    if (!relation || relation.type !== 'embed') {
-      throw new Error(`Relation '${relationName}' is not an EMBED relation`);
+    // Finished - the next run starts over
+    if (queue.length === 0) {
+      await checkpoints?.deleteOne({ _id: checkpointId });
     }
+    return stats;
+  }
 
-    const embedRelation = relation as any;
-    const config = embedRelation.forward;
-    if (!config) {
-      throw new Error(`Relation '${relationName}' does not have forward embed config`);
+  /**
+   * Re-embed one batch and write the refreshed embed fields back
+   * Separate embeds replace their field; inplace embeds rewrite the root fields holding them
+   */
+  private async refreshEmbedBatch(
+    relationName: string,
+    config: ForwardEmbedConfig,
+    batch: TDoc[],
+    options: RefreshEmbedsOptions<TDoc>,
+  ): Promise<RefreshStats> {
+    const stats: RefreshStats = { matched: batch.length, updated: 0, errors: [], skipped: 0 };
+
+    let docs = batch;
+    if (options.onlyStale) {
+      const outdated = (await this.classifyEmbedBatch(relationName, config, batch)).filter(
+        ({ embeds }) => embeds.some(({ status }) => status === 'stale' || status === 'missing'),
+      );
+      docs = outdated.map(({ doc }) => doc);
+      stats.skipped += batch.length - docs.length;
     }
+    if (docs.length === 0) return stats;
 
-    const stats = {
-      matched: 0,
-      updated: 0,
-      errors: 0,
-      skipped: 0,
-    };
+    const separate = PathNavigator.inferStrategy(config) === 'separate';
+    const fields = PathNavigator.targetRootFields(config, relationName);
 
-    const finalFilter = this.applyPolicies(filter);
+    let refreshed: Document[];
+    try {
+      // Drop separate embeds first so documents whose sources are gone can be told apart
+      const sources = docs.map((doc) => {
+        const source: Document = { ...doc };
+        if (separate) fields.forEach((field) => delete source[field]);
+        return source;
+      });
+      refreshed = await this.relationHelper.processForwardEmbedsMany(sources as any, [
+        relationName,
+      ]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      stats.errors.push(...docs.map((doc) => ({ _id: doc._id, error: message })));
+      return stats;
+    }
 
-    // Count total documents
-    stats.matched = await this.collection.countDocuments(finalFilter, {
-      session: this.ctx.session,
+    const writes: Array<{ _id: unknown; set: Document }> = [];
+    refreshed.forEach((doc, index) => {
+      const set = Object.fromEntries(
+        fields.filter((field) => doc[field] !== undefined).map((field) => [field, doc[field]]),
+      );
+      if (Object.keys(set).length === 0) {
+        stats.skipped++; // Source not found
+      } else {
+        writes.push({ _id: docs[index]!._id, set });
+      }
     });
 
-    if (stats.matched === 0) {
+    if (options.dryRun || writes.length === 0) {
+      stats.updated += writes.length;
       return stats;
     }
 
-    // Process in batches
-    let skip = 0;
-    while (skip < stats.matched) {
-      const batch = await this.collection
-        .find(finalFilter, { session: this.ctx.session })
-        .skip(skip)
-        .limit(batchSize)
-        .toArray();
+    try {
+      await this.collection.bulkWrite(
+        writes.map(({ _id, set }) => ({
+          updateOne: { filter: { _id } as Filter<TDoc>, update: { $set: set } as any },
+        })),
+        { ordered: false, session: this.ctx.session },
+      );
+      stats.updated += writes.length;
+    } catch (error) {
+      if (!(error instanceof MongoBulkWriteError)) {
+        const message = error instanceof Error ? error.message : String(error);
+        stats.errors.push(...writes.map(({ _id }) => ({ _id, error: message })));
+        return stats;
+      }
+      const writeErrors = [error.writeErrors].flat();
+      for (const writeError of writeErrors) {
+        stats.errors.push({ _id: writes[writeError.index]!._id, error: writeError.errmsg ?? '' });
+      }
+      stats.updated += writes.length - writeErrors.length;
+    }
 
-      for (const doc of batch) {
-        try {
-          // Re-process forward embed for this document
-          const refreshedDoc = await this.relationHelper.processForwardEmbeds(
-            doc as any,
-            [relationName],
-          );
+    return stats;
+  }
 
-          // Update the document if not in dry-run mode
-          if (!dryRun) {
-            await this.collection.updateOne(
-              { _id: doc._id } as Filter<TDoc>,
-              { $set: { [relationName]: (refreshedDoc as any)[relationName] } } as any,
-              { session: this.ctx.session },
-            );
-          }
+  /**
+   * Compare embedded snapshots with their current source documents
+   * Counts stale, orphaned and missing snapshots and lists the first `limit` of them
+   */
+  async checkEmbeds(
+    relationName: string,
+    options: CheckEmbedsOptions<TDoc> = {},
+  ): Promise<EmbedCheckReport> {
+    const { filter = {}, batchSize = 100, limit = 100 } = options;
+    const config = this.forwardEmbedConfig(relationName);
+    const report: EmbedCheckReport = {
+      relation: relationName,
+      checked: 0,
+      healthy: 0,
+      stale: 0,
+      orphaned: 0,
+      missing: 0,
+      issues: [],
+    };
 
-          stats.updated++;
-        } catch (error) {
-          stats.errors++;
-          console.error(`Error refreshing embed for document ${doc._id}:`, error);
+    const finalFilter = this.applyPolicies(this.applySoftDelete(filter, {}));
+    for await (const batch of this.findBatches(finalFilter, { batchSize })) {
+      for (const { doc, embeds } of await this.classifyEmbedBatch(relationName, config, batch)) {
+        report.checked++;
+        for (const { sourceId, status } of embeds) {
+          report[status]++;
+          if (status !== 'healthy' && report.issues.length < limit) {
+            report.issues.push({ _id: doc._id, sourceId, status });
+          }
         }
       }
+    }
+
+    return report;
+  }
+
+  /**
+   * Forward config of an embed relation
+   */
+  private forwardEmbedConfig(relationName: string): ForwardEmbedConfig {
+    const relations = this.collectionDef._meta.relations || {};
+    const relation = relations[relationName];
 
-      skip += batchSize;
+    if (!relation || relation.type !== 'embed') {
+      throw new Error(`Relation '${relationName}' is not an EMBED relation`);
     }
 
-    return stats;
+    const embedRelation = relation as any;
+    const config = embedRelation.forward;
+    if (!config) {
+      throw new Error(`Relation '${relationName}' does not have forward embed config`);
+    }
+    return config;
+  }
+
+  /**
+   * Snapshot statuses of a batch of documents (sources loaded with one query)
+   */
+  private async classifyEmbedBatch<T extends Document>(
+    relationName: string,
+    config: ForwardEmbedConfig,
+    docs: T[],
+  ): Promise<Array<{ doc: T; embeds: ReturnType<typeof classifyEmbeds> }>> {
+    const ids = [...new Set(docs.flatMap((doc) => PathNavigator.extractIds(doc, config)))];
+    const current = await this.relationHelper.loadEmbedSnapshots(relationName, ids);
+    return docs.map((doc) => ({
+      doc,
+      embeds: classifyEmbeds(doc, config, relationName, current),
+    }));
   }
 }
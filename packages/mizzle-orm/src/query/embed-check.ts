@@ -0,0 +1,73 @@
+/**
+ * Embed maintenance - staleness detection and refreshEmbeds() checkpoints
+ */
+
+import { BSON, type Document } from 'mongodb';
+import type { ForwardEmbedConfig } from '../types/collection';
+import type { EmbedIssueStatus, RefreshStats } from '../types/orm';
+import { PathNavigator } from '../utils/path-navigator';
+
+/**
+ * Collection storing the progress of refreshEmbeds() runs started with a checkpoint name
+ */
+export const REFRESH_CHECKPOINT_COLLECTION = '_mizzle_refresh_checkpoints';
+
+/**
+ * Errors kept in a checkpoint - later ones are only counted, so checkpoints stay small
+ */
+export const MAX_CHECKPOINT_ERRORS = 100;
+
+/**
+ * Saved refreshEmbeds() progress (removed once the run completes)
+ */
+export interface RefreshCheckpoint {
+  _id: string; // '<collection>.<relation>.<checkpoint name>'
+  lastId: unknown; // Every document up to this _id has been processed
+  stats: RefreshStats; // errors holds the first MAX_CHECKPOINT_ERRORS errors
+  errorCount: number; // All errors so far
+  updatedAt: Date;
+}
+
+// Snapshot metadata ignored when comparing embedded fields
+const STAMP_FIELDS = ['_id', '_embeddedAt', '_revision'];
+
+/**
+ * Status of every snapshot a document should hold (one per referenced source ID)
+ * - missing: no snapshot for a referenced source
+ * - orphaned: the referenced source no longer exists
+ * - stale: the snapshot differs from the source (by _revision when both carry one)
+ */
+export function classifyEmbeds(
+  doc: Document,
+  config: ForwardEmbedConfig,
+  relationName: string,
+  current: Map<string, Document>,
+): Array<{ sourceId: string; status: EmbedIssueStatus | 'healthy' }> {
+  const embeds = PathNavigator.extractEmbeds(doc, config, relationName);
+
+  return [...new Set(PathNavigator.extractIds(doc, config))].map((sourceId) => {
+    const fresh = current.get(sourceId);
+    if (!fresh) {
+      return { sourceId, status: 'orphaned' };
+    }
+
+    const snapshot = embeds.get(sourceId);
+    const fields = Object.keys(fresh).filter((field) => !STAMP_FIELDS.includes(field));
+    if (!snapshot || (fields.length > 0 && !fields.some((field) => field in snapshot))) {
+      return { sourceId, status: 'missing' };
+    }
+
+    const stale =
+      fresh._revision !== undefined && snapshot._revision !== undefined
+        ? !sameValue(fresh._revision, snapshot._revision)
+        : fields.some((field) => !sameValue(fresh[field], snapshot[field]));
+    return { sourceId, status: stale ? 'stale' : 'healthy' };
+  });
+}
+
+/**
+ * BSON-aware deep equality (ObjectIds, dates, nested documents)
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return BSON.EJSON.stringify({ v: a }) === BSON.EJSON.stringify({ v: b });
+}
@@ -0,0 +1,434 @@
+/**
+ * Durable outbox for async reverse embed propagation and the worker that drains it
+ */
+
+import { ObjectId, type ClientSession, type Collection, type Db } from 'mongodb';
+import type { EmbedOutboxConfig } from '../types/orm';
+import {
+  propagateEmbed,
+  type PropagationResult,
+  type ReverseEmbedTarget,
+} from './embed-propagation';
+
+/**
+ * Default name of the outbox collection
+ */
+export const DEFAULT_EMBED_OUTBOX_COLLECTION = '_mizzle_embed_outbox';
+
+/**
+ * Outbox entry: one source document change to propagate to one embedding collection
+ */
+export interface EmbedOutboxEntry {
+  _id: ObjectId;
+  sourceCollection: string;
+  sourceId: unknown; // _id of the changed source document (re-read when processed)
+  targetCollection: string;
+  relationName: string;
+  status: 'pending' | 'processing' | 'dead';
+  attempts: number; // Failed attempts so far
+  nextAttemptAt: Date;
+  lockedUntil?: Date; // Claim expiry (entries of crashed workers are retried after it)
+  resumeAfter?: unknown; // Last target _id already refreshed (runs stopped by maxUpdates)
+  lastError?: string;
+  createdAt: Date;
+}
+
+/**
+ * Options for EmbedWorker.start()
+ */
+export interface EmbedWorkerOptions {
+  concurrency?: number; // Entries processed in parallel (default: 1)
+  pollInterval?: number; // ms to wait when the outbox is empty (default: 1000)
+}
+
+/**
+ * Embed worker counters (since the ORM was created) and current outbox depth
+ */
+export interface EmbedWorkerMetrics {
+  running: boolean;
+  processed: number; // Entries propagated
+  retried: number; // Failed attempts scheduled for a retry
+  deadLettered: number; // Entries that exhausted maxAttempts
+  pending: number; // Entries waiting in the outbox (including retries)
+  dead: number; // Dead-lettered entries in the outbox
+  lastError?: string;
+}
+
+/**
+ * Outbox collection access
+ */
+export class EmbedOutbox {
+  readonly collection: Collection<EmbedOutboxEntry>;
+  private maxAttempts: number;
+  private backoff: (attempt: number) => number;
+  private lockTimeout: number;
+  private logger: NonNullable<EmbedOutboxConfig['logger']>;
+  private warnWithoutWorker: boolean;
+  private draining = false;
+
+  constructor(db: Db, config: EmbedOutboxConfig = {}) {
+    this.collection = db.collection<EmbedOutboxEntry>(
+      config.collection ?? DEFAULT_EMBED_OUTBOX_COLLECTION,
+    );
+    this.maxAttempts = config.maxAttempts ?? 5;
+    this.backoff = config.backoff ?? ((attempt) => 1000 * Math.pow(2, attempt));
+    this.lockTimeout = config.lockTimeout ?? 60_000;
+    this.logger = config.logger ?? console;
+    this.warnWithoutWorker = config.warnWithoutWorker ?? true;
+  }
+
+  /**
+   * Record that a worker drains this outbox (silences the missing worker warning)
+   */
+  markDraining(): void {
+    this.draining = true;
+  }
+
+  /**
+   * Queue propagation of a source document change
+   * Pass the session of the source write so the entry commits (or aborts) with it;
+   * pending entries for the same source and relation are coalesced
+   */
+  async enqueue(
+    sourceCollection: string,
+    sourceId: unknown,
+    target: ReverseEmbedTarget,
+    options: { session?: ClientSession; resumeAfter?: unknown } = {},
+  ): Promise<void> {
+    this.warnIfUndrained();
+    const now = new Date();
+    const key = {
+      sourceCollection,
+      sourceId,
+      targetCollection: target.targetCollectionName,
+      relationName: target.relationName,
+    };
+
+    if (options.resumeAfter !== undefined) {
+      await this.collection.insertOne(
+        {
+          _id: new ObjectId(),
+          ...key,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: now,
+          resumeAfter: options.resumeAfter,
+          createdAt: now,
+        },
+        { session: options.session },
+      );
+      return;
+    }
+
+    await this.collection.updateOne(
+      { ...key, status: 'pending', resumeAfter: { $exists: false } },
+      {
+        $setOnInsert: { _id: new ObjectId(), attempts: 0, createdAt: now },
+        $set: { nextAttemptAt: now },
+      },
+      { upsert: true, session: options.session },
+    );
+  }
+
+  /**
+   * Warn once when entries are queued but no worker was started in this process
+   * (disable with warnWithoutWorker: false when the worker runs elsewhere)
+   */
+  private warnIfUndrained(): void {
+    if (this.draining || !this.warnWithoutWorker) {
+      return;
+    }
+    this.warnWithoutWorker = false;
+    this.logger.warn(
+      `[mizzle] Queued a reverse embed change in '${this.collection.collectionName}' but ` +
+        'db.embedWorker is not running; embedded copies stay stale until it is started',
+    );
+  }
+
+  /**
+   * Claim the next due entry (or one whose claim expired)
+   */
+  async claim(): Promise<EmbedOutboxEntry | null> {
+    const now = new Date();
+    return this.collection.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'pending', nextAttemptAt: { $lte: now } },
+          { status: 'processing', lockedUntil: { $lt: now } },
+        ],
+      },
+      { $set: { status: 'processing', lockedUntil: new Date(now.getTime() + this.lockTimeout) } },
+      { sort: { nextAttemptAt: 1 }, returnDocument: 'after' },
+    );
+  }
+
+  /**
+   * Remove a processed entry
+   */
+  async complete(entry: EmbedOutboxEntry): Promise<void> {
+    await this.collection.deleteOne({ _id: entry._id });
+  }
+
+  /**
+   * Release an entry stopped by maxUpdates so the next claim continues after resumeAfter
+   */
+  async resume(entry: EmbedOutboxEntry, resumeAfter: unknown): Promise<void> {
+    await this.collection.updateOne(
+      { _id: entry._id },
+      {
+        $set: { status: 'pending', nextAttemptAt: new Date(), resumeAfter },
+        $unset: { lockedUntil: '' },
+      },
+    );
+  }
+
+  /**
+   * Schedule a retry with backoff, or dead-letter the entry after maxAttempts
+   * @returns true if the entry was dead-lettered
+   */
+  async fail(entry: EmbedOutboxEntry, error: string): Promise<boolean> {
+    const attempts = entry.attempts + 1;
+    const dead = attempts >= this.maxAttempts;
+    await this.collection.updateOne(
+      { _id: entry._id },
+      {
+        $set: {
+          status: dead ? 'dead' : 'pending',
+          attempts,
+          lastError: error,
+          nextAttemptAt: new Date(Date.now() + (dead ? 0 : this.backoff(attempts))),
+        },
+        $unset: { lockedUntil: '' },
+      },
+    );
+    return dead;
+  }
+
+  /**
+   * Record a propagation that failed outside the worker (e.g. in embed sync) as dead-lettered
+   * retryDeadLetters() hands it to the worker like any other entry
+   */
+  async deadLetter(
+    sourceCollection: string,
+    sourceId: unknown,
+    target: ReverseEmbedTarget,
+    error: string,
+    attempts: number,
+  ): Promise<void> {
+    const now = new Date();
+    await this.collection.insertOne({
+      _id: new ObjectId(),
+      sourceCollection,
+      sourceId,
+      targetCollection: target.targetCollectionName,
+      relationName: target.relationName,
+      status: 'dead',
+      attempts,
+      nextAttemptAt: now,
+      lastError: error,
+      createdAt: now,
+    });
+  }
+
+  /**
+   * Dead-lettered entries, oldest first
+   */
+  async deadLetters(limit = 100): Promise<EmbedOutboxEntry[]> {
+    return this.collection.find({ status: 'dead' }).sort({ createdAt: 1 }).limit(limit).toArray();
+  }
+
+  /**
+   * Move dead-lettered entries back to the queue with a fresh attempt budget
+   * @returns Number of requeued entries
+   */
+  async retryDeadLetters(): Promise<number> {
+    const result = await this.collection.updateMany(
+      { status: 'dead' },
+      { $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date() } },
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Create the index used to claim due entries
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ status: 1, nextAttemptAt: 1 });
+  }
+}
+
+/**
+ * Worker draining the embed outbox
+ *
+ * @example
+ * await db.embedWorker.start({ concurrency: 4 });
+ * // ...
+ * await db.embedWorker.stop();
+ */
+export class EmbedWorker {
+  private running = false;
+  private loops: Promise<void>[] = [];
+  private sleepers = new Set<() => void>();
+  private counters = { processed: 0, retried: 0, deadLettered: 0 };
+  private lastError?: string;
+
+  constructor(
+    private db: Db,
+    private outbox: EmbedOutbox,
+    private reverseEmbedRegistry: Map<string, ReverseEmbedTarget[]>,
+  ) {}
+
+  /**
+   * Start polling the outbox in the background (no-op if already running)
+   */
+  async start(options: EmbedWorkerOptions = {}): Promise<void> {
+    if (this.running) return;
+    this.outbox.markDraining();
+    await this.outbox.ensureIndexes();
+
+    this.running = true;
+    const concurrency = Math.max(options.concurrency ?? 1, 1);
+    const pollInterval = options.pollInterval ?? 1000;
+    this.loops = Array.from({ length: concurrency }, () => this.run(pollInterval));
+  }
+
+  /**
+   * Stop polling and wait for entries being processed to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    for (const wake of this.sleepers) {
+      wake();
+    }
+    await Promise.all(this.loops);
+    this.loops = [];
+  }
+
+  /**
+   * Process due entries until none are left (retries scheduled in the future are not awaited)
+   * @returns Number of entries processed, including failed attempts
+   */
+  async drain(): Promise<number> {
+    this.outbox.markDraining();
+    let processed = 0;
+    while (await this.processNext()) {
+      processed++;
+    }
+    return processed;
+  }
+
+  /**
+   * Worker counters and outbox depth
+   */
+  async metrics(): Promise<EmbedWorkerMetrics> {
+    const [pending, dead] = await Promise.all([
+      this.outbox.collection.countDocuments({ status: { $in: ['pending', 'processing'] } }),
+      this.outbox.collection.countDocuments({ status: 'dead' }),
+    ]);
+    return { running: this.running, ...this.counters, pending, dead, lastError: this.lastError };
+  }
+
+  /**
+   * Dead-lettered entries, oldest first
+   */
+  async deadLetters(limit?: number): Promise<EmbedOutboxEntry[]> {
+    return this.outbox.deadLetters(limit);
+  }
+
+  /**
+   * Requeue dead-lettered entries (after fixing the cause)
+   */
+  async retryDeadLetters(): Promise<number> {
+    return this.outbox.retryDeadLetters();
+  }
+
+  /**
+   * Poll loop of one worker slot
+   */
+  private async run(pollInterval: number): Promise<void> {
+    while (this.running) {
+      let claimed = false;
+      try {
+        claimed = await this.processNext();
+      } catch (error) {
+        // Outbox unreachable - keep polling
+        this.lastError = errorMessage(error);
+      }
+      if (!claimed && this.running) {
+        await this.sleep(pollInterval);
+      }
+    }
+  }
+
+  /**
+   * Claim and process one entry
+   * @returns false if no entry was due
+   */
+  private async processNext(): Promise<boolean> {
+    const entry = await this.outbox.claim();
+    if (!entry) {
+      return false;
+    }
+
+    try {
+      const result = await this.propagate(entry);
+      if (result && !result.done) {
+        await this.outbox.resume(entry, result.lastTargetId);
+      } else {
+        await this.outbox.complete(entry);
+      }
+      this.counters.processed++;
+    } catch (error) {
+      this.lastError = errorMessage(error);
+      const dead = await this.outbox.fail(entry, this.lastError);
+      this.counters[dead ? 'deadLettered' : 'retried']++;
+    }
+    return true;
+  }
+
+  /**
+   * Propagate the current state of the entry's source document
+   * @returns null if the source document no longer exists
+   */
+  private async propagate(entry: EmbedOutboxEntry): Promise<PropagationResult | null> {
+    const target = this.reverseEmbedRegistry
+      .get(entry.sourceCollection)
+      ?.find(
+        (candidate) =>
+          candidate.targetCollectionName === entry.targetCollection &&
+          candidate.relationName === entry.relationName,
+      );
+    if (!target) {
+      throw new Error(
+        `No reverse embed '${entry.targetCollection}.${entry.relationName}' for source '${entry.sourceCollection}'`,
+      );
+    }
+
+    const sourceDoc = await this.db
+      .collection(entry.sourceCollection)
+      .findOne({ _id: entry.sourceId as any });
+    if (!sourceDoc) {
+      return null;
+    }
+    return propagateEmbed(this.db, sourceDoc, target, { after: entry.resumeAfter });
+  }
+
+  /**
+   * Wait for the poll interval (cut short by stop())
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.sleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.sleepers.add(wake);
+    });
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,205 @@
+/**
+ * Reverse embed propagation - refresh embedded snapshots when their source document changes
+ */
+
+import { ObjectId, type ClientSession, type Db, type Document } from 'mongodb';
+import type { OrmContext } from '../types/orm';
+import { embedMatchFilter, embedRefreshWrites, toEmbedIds, type EmbedShape } from './embed-shape';
+import { rootField } from './update-operators';
+
+/**
+ * Embed relation registered against its source collection (see reverseEmbedRegistry)
+ */
+export interface ReverseEmbedTarget {
+  targetCollectionName: string;
+  relationName: string;
+  config: any; // Forward embed config with the resolved reverse config
+  shape: EmbedShape; // Where the embed is stored in target documents
+}
+
+/**
+ * Progress of a propagation run
+ */
+export interface PropagationResult {
+  updated: number; // Target documents updated
+  lastTargetId?: unknown; // _id of the last target document updated (resume point)
+  done: boolean; // false if maxUpdates stopped the run before every target was updated
+}
+
+/**
+ * Check if an update should be propagated based on watchFields
+ * Fields are compared by their top-level segment ('address.city' → 'address')
+ */
+export function shouldPropagateUpdate(config: any, updateData: Record<string, unknown>): boolean {
+  const reverseConfig = config.reverse;
+
+  // If no watchFields specified, always propagate
+  if (!reverseConfig?.watchFields || reverseConfig.watchFields.length === 0) {
+    return true;
+  }
+
+  // Check if any of the updated fields are in watchFields
+  const updatedFields = Object.keys(updateData).map(rootField);
+  const watchFields = new Set((reverseConfig.watchFields as string[]).map(rootField));
+
+  return updatedFields.some((field) => watchFields.has(field));
+}
+
+/**
+ * Extract specified fields from document for embedding
+ * ALWAYS includes the ID field from embedIdField config
+ * Without fields, all fields are embedded (like forward embeds without a projection)
+ */
+export function extractFieldsForEmbed(
+  doc: Document,
+  fields: string[] | Record<string, 1 | 0> | undefined,
+  embedIdField: string = '_id',
+): Document {
+  if (!fields) {
+    return extractFieldsForEmbed(
+      doc,
+      Object.keys(doc).filter((field) => field !== '_id'),
+      embedIdField,
+    );
+  }
+
+  if (Array.isArray(fields)) {
+    const result: Document = {};
+
+    // Always include the ID field first (convert to string)
+    if (embedIdField in doc) {
+      const idValue = doc[embedIdField];
+      result._id = idValue instanceof ObjectId ? idValue.toHexString() : String(idValue);
+    }
+
+    for (const field of fields) {
+      if (field in doc && field !== embedIdField) {
+        result[field] = doc[field];
+      }
+    }
+    return result;
+  } else {
+    // Projection syntax
+    const result: Document = {};
+
+    // Always include the ID field unless explicitly excluded (convert to string)
+    if (fields._id !== 0 && embedIdField in doc) {
+      const idValue = doc[embedIdField];
+      result._id = idValue instanceof ObjectId ? idValue.toHexString() : String(idValue);
+    }
+
+    for (const [field, include] of Object.entries(fields)) {
+      if (include === 1 && field in doc && field !== embedIdField) {
+        result[field] = doc[field];
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Merge the computed fields of the embed config's map() into a snapshot
+ */
+export function mapEmbed(
+  snapshot: Document,
+  sourceDoc: Document,
+  config: any,
+  ctx: OrmContext = {},
+): Document {
+  if (!config.map) {
+    return snapshot;
+  }
+
+  const { _id, ...computed } = config.map(sourceDoc, ctx);
+  return { ...snapshot, ...computed };
+}
+
+/**
+ * Add _embeddedAt and _revision to a snapshot if the embed config has stamp enabled
+ */
+export function stampEmbed(snapshot: Document, sourceDoc: Document, config: any): Document {
+  if (!config.stamp) {
+    return snapshot;
+  }
+
+  const revisionField =
+    (config.stamp === true ? undefined : config.stamp.revisionField) ?? 'updatedAt';
+  const stamped: Document = { ...snapshot, _embeddedAt: new Date() };
+  if (sourceDoc[revisionField] !== undefined) {
+    stamped._revision = sourceDoc[revisionField];
+  }
+  return stamped;
+}
+
+/**
+ * Refresh the embedded snapshot of a source document in one embedding collection
+ * Target documents are updated in _id-ordered batches of reverse.batchSize; a run stops
+ * after reverse.maxUpdates documents and can be resumed with `after`
+ *
+ * @param options.after - _id of the last target document already refreshed
+ */
+export async function propagateEmbed(
+  db: Db,
+  sourceDoc: Document,
+  target: ReverseEmbedTarget,
+  options: { session?: ClientSession; after?: unknown; ctx?: OrmContext } = {},
+): Promise<PropagationResult> {
+  const { targetCollectionName, config, shape } = target;
+  const batchSize = config.reverse?.batchSize ?? 100;
+  const maxUpdates = config.reverse?.maxUpdates ?? 10000;
+  const embedIdField = config.embedIdField || '_id';
+  const sourceIds = toEmbedIds([sourceDoc], embedIdField);
+  const filter = embedMatchFilter(shape, sourceIds);
+  const writes = embedRefreshWrites(
+    shape,
+    sourceIds,
+    stampEmbed(
+      mapEmbed(
+        extractFieldsForEmbed(sourceDoc, config.fields ?? config.projection, embedIdField),
+        sourceDoc,
+        config,
+        options.ctx,
+      ),
+      sourceDoc,
+      config,
+    ),
+  );
+  const targetCollection = db.collection(targetCollectionName);
+
+  const result: PropagationResult = { updated: 0, lastTargetId: options.after, done: false };
+  while (result.updated < maxUpdates) {
+    const limit = Math.min(batchSize, maxUpdates - result.updated);
+    const batchFilter =
+      result.lastTargetId === undefined
+        ? filter
+        : { $and: [filter, { _id: { $gt: result.lastTargetId } }] };
+    const ids = (
+      await targetCollection
+        .find(batchFilter, {
+          projection: { _id: 1 },
+          sort: { _id: 1 },
+          limit,
+          session: options.session,
+        })
+        .toArray()
+    ).map((doc) => doc._id);
+
+    if (ids.length > 0) {
+      // One write per embed location (array updates need their path to exist)
+      for (const { filter: writeFilter, update, arrayFilters } of writes) {
+        await targetCollection.updateMany({ $and: [{ _id: { $in: ids } }, writeFilter] }, update, {
+          arrayFilters,
+          session: options.session,
+        });
+      }
+      result.updated += ids.length;
+      result.lastTargetId = ids[ids.length - 1];
+    }
+    if (ids.length < limit) {
+      result.done = true;
+      break;
+    }
+  }
+
+  return result;
+}
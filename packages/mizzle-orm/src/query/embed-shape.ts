@@ -0,0 +1,264 @@
+/**
+ * Embed shapes - where a forward embed is stored in target documents, resolved from the
+ * embed paths and the target schema, and the writes that refresh or remove it
+ */
+
+import { ObjectId, type Document } from 'mongodb';
+import { FieldType, type FieldConfig, type SchemaDefinition } from '../types/field';
+import { PathNavigator } from '../utils/path-navigator';
+
+/**
+ * Path segment of an embed location (array segments are addressed with $[identifier])
+ */
+export interface EmbedPathSegment {
+  field: string;
+  array: boolean;
+}
+
+/**
+ * Storage of a forward embed in the target documents
+ * - separate: snapshot(s) stored in their own field (an array for array or multi-path IDs)
+ * - inplace: snapshot merged into each object holding the ID ('workflow.items[].ref._id')
+ */
+export type EmbedShape =
+  | {
+      strategy: 'separate';
+      field: string; // Embed field (into or the relation name)
+      array: boolean;
+      ref?: EmbedPathSegment & { path: string }; // ID field cleared on nullify (when addressable)
+    }
+  | {
+      strategy: 'inplace';
+      locations: EmbedPathSegment[][]; // Segments of the embedding objects, one per path
+    };
+
+/**
+ * Source document IDs as stored in embeds (separate embeds store string IDs,
+ * inplace embeds keep the original reference value)
+ */
+export interface EmbedIds {
+  strings: string[];
+  values: unknown[];
+}
+
+/**
+ * Update applied to target documents matching filter
+ */
+export interface EmbedWrite {
+  filter: Document;
+  update: Document;
+  arrayFilters?: Document[];
+}
+
+/**
+ * Resolve the embed shape of a forward embed config
+ * Array segments come from `[]` markers and from array fields declared in the target schema
+ */
+export function resolveEmbedShape(
+  config: any,
+  relationName: string,
+  targetSchema: SchemaDefinition = {},
+): EmbedShape {
+  const schema = Object.fromEntries(
+    Object.entries(targetSchema).map(([name, builder]) => [name, builder._config]),
+  );
+
+  if (PathNavigator.inferStrategy(config) === 'inplace') {
+    const paths: string[] = config.from ? [config.from] : (config.paths ?? []);
+    return {
+      strategy: 'inplace',
+      locations: paths
+        .filter((path) => path.endsWith('._id'))
+        .map((path) => resolveSegments(path.slice(0, -4), schema)),
+    };
+  }
+
+  const field = config.into || relationName;
+  if (!config.from) {
+    // Multiple paths always embed an array
+    return { strategy: 'separate', field, array: true };
+  }
+
+  const segments = resolveSegments(config.from, schema);
+  const arrayCount = segments.filter((segment) => segment.array).length;
+  const last = segments[segments.length - 1]!;
+  // The ID field can be cleared if no array precedes it ('tagIds' yes, 'items[].refId' no)
+  const addressable = arrayCount === 0 || (arrayCount === 1 && last.array);
+  return {
+    strategy: 'separate',
+    field,
+    array: arrayCount > 0,
+    ref: addressable
+      ? { ...last, path: segments.map((segment) => segment.field).join('.') }
+      : undefined,
+  };
+}
+
+/**
+ * IDs under which source documents are embedded
+ */
+export function toEmbedIds(sourceDocs: Document[], embedIdField: string = '_id'): EmbedIds {
+  const values = sourceDocs.map((doc) => doc[embedIdField]).filter((value) => value != null);
+  return {
+    strings: values.map((value) =>
+      value instanceof ObjectId ? value.toHexString() : String(value),
+    ),
+    values,
+  };
+}
+
+/**
+ * Filter matching target documents that embed any of the given IDs
+ */
+export function embedMatchFilter(shape: EmbedShape, ids: EmbedIds): Document {
+  if (shape.strategy === 'separate') {
+    return { [`${shape.field}._id`]: { $in: ids.strings } };
+  }
+
+  const filters = shape.locations.map((segments) => locationPaths(segments, ids).filter);
+  return filters.length === 1 ? filters[0]! : { $or: filters };
+}
+
+/**
+ * Writes replacing the embedded snapshot of one source document with fresh data
+ */
+export function embedRefreshWrites(
+  shape: EmbedShape,
+  ids: EmbedIds,
+  embedData: Document,
+): EmbedWrite[] {
+  if (shape.strategy === 'separate') {
+    const filter = { [`${shape.field}._id`]: { $in: ids.strings } };
+    return shape.array
+      ? [
+          {
+            filter,
+            update: { $set: { [`${shape.field}.$[elem]`]: embedData } },
+            arrayFilters: [{ 'elem._id': { $in: ids.strings } }],
+          },
+        ]
+      : [{ filter, update: { $set: { [shape.field]: embedData } } }];
+  }
+
+  // Inplace: merge fields into the embedding objects (their _id stays the reference)
+  return shape.locations.map((segments) => {
+    const { filter, updatePath, arrayFilters } = locationPaths(segments, ids);
+    const set: Document = {};
+    for (const [key, value] of Object.entries(embedData)) {
+      if (key !== '_id') {
+        set[`${updatePath}.${key}`] = value;
+      }
+    }
+    return { filter, update: { $set: set }, arrayFilters };
+  });
+}
+
+/**
+ * Writes removing the embedded snapshots of deleted source documents
+ * - nullify: remove the embed and the reference
+ * - clear: remove the embed but keep the reference (inplace: unset the embedded fields)
+ */
+export function embedRemovalWrites(
+  shape: EmbedShape,
+  ids: EmbedIds,
+  action: 'nullify' | 'clear',
+  embeddedFields: string[],
+): EmbedWrite[] {
+  if (shape.strategy === 'inplace') {
+    return shape.locations.map((segments) => {
+      const { filter, updatePath, arrayFilters } = locationPaths(segments, ids);
+      const update =
+        action === 'nullify'
+          ? { $set: { [updatePath]: null } }
+          : {
+              $unset: Object.fromEntries(
+                embeddedFields.map((field) => [`${updatePath}.${field}`, '']),
+              ),
+            };
+      return { filter, update, arrayFilters };
+    });
+  }
+
+  const filter = { [`${shape.field}._id`]: { $in: ids.strings } };
+  const ref = action === 'nullify' ? shape.ref : undefined;
+  const refValues = [...ids.values, ...ids.strings];
+
+  if (shape.array) {
+    const writes: EmbedWrite[] = [
+      { filter, update: { $pull: { [shape.field]: { _id: { $in: ids.strings } } } } },
+    ];
+    if (ref?.array) {
+      writes.push({
+        filter: { [ref.path]: { $in: refValues } },
+        update: { $pull: { [ref.path]: { $in: refValues } } },
+      });
+    }
+    return writes;
+  }
+
+  return [
+    {
+      filter,
+      update: { $set: { [shape.field]: null, ...(ref ? { [ref.path]: null } : {}) } },
+    },
+  ];
+}
+
+/**
+ * Field names copied into embeds (array or projection syntax)
+ */
+export function embeddedFieldNames(fields: string[] | Record<string, 1 | 0> = []): string[] {
+  const names = Array.isArray(fields)
+    ? fields
+    : Object.keys(fields).filter((field) => fields[field] === 1);
+  return names.filter((field) => field !== '_id');
+}
+
+/**
+ * Path segments with array flags from `[]` markers or the schema
+ */
+function resolveSegments(
+  path: string,
+  schema: Record<string, FieldConfig> | undefined,
+): EmbedPathSegment[] {
+  let fields = schema;
+  return PathNavigator.parsePath(path).map(({ field, array }) => {
+    const fieldConfig = fields?.[field];
+    const isArray = array || fieldConfig?.type === FieldType.ARRAY;
+    const inner = isArray ? fieldConfig?.arrayConfig?.itemField : fieldConfig;
+    fields = inner?.objectConfig?.schema;
+    return { field, array: isArray };
+  });
+}
+
+/**
+ * Query path, positional update path and arrayFilters of an inplace embed location
+ * e.g. workflow, items[], ref → 'workflow.items.ref._id' / 'workflow.items.$[e0].ref'
+ * with arrayFilters [{ 'e0.ref._id': ... }]
+ */
+function locationPaths(
+  segments: EmbedPathSegment[],
+  ids: EmbedIds,
+): { filter: Document; updatePath: string; arrayFilters?: Document[] } {
+  // The embedding object's _id holds the reference as stored (ObjectId or string)
+  const idMatch = { $in: [...ids.values, ...ids.strings] };
+  const fieldNames = segments.map((segment) => segment.field);
+  const updatePath: string[] = [];
+  const arrayFilters: Document[] = [];
+
+  segments.forEach((segment, index) => {
+    if (!segment.array) {
+      updatePath.push(segment.field);
+      return;
+    }
+    const identifier = `e${arrayFilters.length}`;
+    updatePath.push(`${segment.field}.$[${identifier}]`);
+    arrayFilters.push({ [[identifier, ...fieldNames.slice(index + 1), '_id'].join('.')]: idMatch });
+  });
+
+  return {
+    filter: { [`${fieldNames.join('.')}._id`]: idMatch },
+    updatePath: updatePath.join('.'),
+    arrayFilters: arrayFilters.length > 0 ? arrayFilters : undefined,
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * Change-stream synchronizer for reverse embeds
+ * Catches source writes that bypass the collection facades (other services, raw collections)
+ */
+
+import type {
+  ChangeStream,
+  ChangeStreamDocument,
+  Collection,
+  Db,
+  Document,
+  ResumeToken,
+  Timestamp,
+} from 'mongodb';
+import type { EmbedOutbox } from './embed-outbox';
+import {
+  propagateEmbed,
+  shouldPropagateUpdate,
+  type ReverseEmbedTarget,
+} from './embed-propagation';
+
+/**
+ * Default name of the collection storing change stream resume tokens
+ */
+export const DEFAULT_EMBED_SYNC_COLLECTION = '_mizzle_embed_sync';
+
+/**
+ * Options for db.startEmbedSync()
+ */
+export interface EmbedSyncOptions {
+  collection?: string; // Resume token collection (default: '_mizzle_embed_sync')
+  retryInterval?: number; // ms before a failed change stream is reopened (default: 1000)
+  maxAttempts?: number; // Failed attempts before a change is dead-lettered (default: 5)
+  onError?: (error: unknown, sourceCollection: string) => void; // Default: logger.error
+  logger?: { error: (message: string, ...args: any[]) => void }; // Default: console
+}
+
+/**
+ * Embed synchronizer counters (since it was started)
+ */
+export interface EmbedSyncMetrics {
+  running: boolean;
+  processed: number; // Source changes handled
+  propagated: number; // Target documents updated
+  deadLettered: number; // Changes skipped after maxAttempts (kept in the embed outbox)
+  lastError?: string;
+}
+
+/**
+ * Consecutive failures of the change a source collection's stream is stuck on
+ */
+interface ChangeFailure {
+  token: string;
+  attempts: number;
+}
+
+/**
+ * Persisted position of one source collection's change stream
+ */
+interface EmbedSyncState {
+  _id: string; // Source collection name
+  resumeToken: ResumeToken;
+  updatedAt: Date;
+}
+
+type SourceChange = ChangeStreamDocument<Document>;
+
+// Only changes that alter a source document's embedded fields
+const PIPELINE = [{ $match: { operationType: { $in: ['update', 'replace'] } } }];
+
+/**
+ * Propagates source document changes to embedding collections from change streams
+ * Each change is applied with the same watchFields filtering and batching as facade writes;
+ * resume tokens are stored after every change so a restarted synchronizer continues
+ * where it stopped. A change that keeps failing is dead-lettered in the embed outbox
+ * after maxAttempts so it does not block the stream
+ *
+ * @example
+ * const sync = await db.startEmbedSync();
+ * // ...
+ * await sync.stop();
+ */
+export class EmbedSync {
+  private running = false;
+  private loops: Promise<void>[] = [];
+  private streams = new Set<ChangeStream<Document, SourceChange>>();
+  private sleepers = new Set<() => void>();
+  private counters = { processed: 0, propagated: 0, deadLettered: 0 };
+  private failures = new Map<string, ChangeFailure>();
+  private lastError?: string;
+  private state!: Collection<EmbedSyncState>;
+  private options: EmbedSyncOptions = {};
+
+  constructor(
+    private db: Db,
+    private reverseEmbedRegistry: Map<string, ReverseEmbedTarget[]>,
+    private outbox?: EmbedOutbox,
+  ) {}
+
+  /**
+   * Open a change stream on every source collection (no-op if already running)
+   * Changes made after start() resolves are never missed, even on the first run
+   */
+  async start(options: EmbedSyncOptions = {}): Promise<void> {
+    if (this.running) return;
+
+    this.options = options;
+    this.state = this.db.collection<EmbedSyncState>(
+      options.collection ?? DEFAULT_EMBED_SYNC_COLLECTION,
+    );
+    this.running = true;
+
+    for (const sourceCollection of this.reverseEmbedRegistry.keys()) {
+      const startAt = await this.startPosition(sourceCollection);
+      this.loops.push(this.run(sourceCollection, startAt));
+    }
+  }
+
+  /**
+   * Close the change streams and wait for changes being applied to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    for (const wake of this.sleepers) {
+      wake();
+    }
+    await Promise.all([...this.streams].map((stream) => stream.close()));
+    await Promise.all(this.loops);
+    this.loops = [];
+  }
+
+  /**
+   * Synchronizer counters
+   */
+  metrics(): EmbedSyncMetrics {
+    return { running: this.running, ...this.counters, lastError: this.lastError };
+  }
+
+  /**
+   * Resume token of a previous run, or the current cluster time on the first run
+   */
+  private async startPosition(
+    sourceCollection: string,
+  ): Promise<{ resumeAfter: ResumeToken } | { startAtOperationTime: Timestamp }> {
+    const saved = await this.state.findOne({ _id: sourceCollection });
+    if (saved) {
+      return { resumeAfter: saved.resumeToken };
+    }
+    const { operationTime } = await this.db.command({ ping: 1 });
+    return { startAtOperationTime: operationTime };
+  }
+
+  /**
+   * Change stream loop of one source collection (reopened from the last token on errors)
+   */
+  private async run(
+    sourceCollection: string,
+    startAt: { resumeAfter: ResumeToken } | { startAtOperationTime: Timestamp },
+  ): Promise<void> {
+    while (this.running) {
+      const stream = this.db
+        .collection(sourceCollection)
+        .watch<Document, SourceChange>(PIPELINE, { fullDocument: 'updateLookup', ...startAt });
+      this.streams.add(stream);
+
+      try {
+        for await (const change of stream) {
+          await this.applyOrDeadLetter(sourceCollection, change);
+          await this.state.updateOne(
+            { _id: sourceCollection },
+            { $set: { resumeToken: change._id, updatedAt: new Date() } },
+            { upsert: true },
+          );
+          startAt = { resumeAfter: change._id };
+        }
+      } catch (error) {
+        if (!this.running) break;
+        this.reportError(error, sourceCollection);
+        await this.sleep(this.options.retryInterval ?? 1000);
+      } finally {
+        this.streams.delete(stream);
+        await stream.close();
+      }
+    }
+  }
+
+  /**
+   * Apply a change; once it has failed maxAttempts times in a row, dead-letter its
+   * targets in the embed outbox instead of rethrowing (the stream then moves past it)
+   */
+  private async applyOrDeadLetter(sourceCollection: string, change: SourceChange): Promise<void> {
+    try {
+      await this.apply(sourceCollection, change);
+      this.failures.delete(sourceCollection);
+      this.counters.processed++;
+    } catch (error) {
+      const token = JSON.stringify(change._id);
+      const failure = this.failures.get(sourceCollection);
+      const attempts = (failure?.token === token ? failure.attempts : 0) + 1;
+      if (attempts < (this.options.maxAttempts ?? 5)) {
+        this.failures.set(sourceCollection, { token, attempts });
+        throw error;
+      }
+
+      this.failures.delete(sourceCollection);
+      this.reportError(error, sourceCollection);
+      const message = error instanceof Error ? error.message : String(error);
+      const changed = this.targetsFor(sourceCollection, change);
+      for (const target of changed?.targets ?? []) {
+        const sourceId = changed?.sourceDoc._id;
+        await this.outbox?.deadLetter(sourceCollection, sourceId, target, message, attempts);
+      }
+      this.counters.deadLettered++;
+    }
+  }
+
+  /**
+   * Propagate one source change to every embedding collection watching its fields
+   */
+  private async apply(sourceCollection: string, change: SourceChange): Promise<void> {
+    const changed = this.targetsFor(sourceCollection, change);
+    if (!changed) return;
+
+    const { sourceDoc, targets } = changed;
+    for (const target of targets) {
+      const result = await propagateEmbed(this.db, sourceDoc, target);
+      this.counters.propagated += result.updated;
+      if (!result.done && this.outbox) {
+        await this.outbox.enqueue(sourceCollection, sourceDoc._id, target, {
+          resumeAfter: result.lastTargetId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Source document of a change and the embedding collections watching its changed fields
+   * @returns null if there is nothing to propagate
+   */
+  private targetsFor(
+    sourceCollection: string,
+    change: SourceChange,
+  ): { sourceDoc: Document; targets: ReverseEmbedTarget[] } | null {
+    if (change.operationType !== 'update' && change.operationType !== 'replace') return null;
+
+    // Source deleted before the change was read
+    const sourceDoc = change.fullDocument;
+    if (!sourceDoc) return null;
+
+    const changedFields =
+      change.operationType === 'update' ? toChangedFields(change.updateDescription) : sourceDoc;
+    const targets = (this.reverseEmbedRegistry.get(sourceCollection) ?? []).filter((target) =>
+      shouldPropagateUpdate(target.config, changedFields),
+    );
+    return { sourceDoc, targets };
+  }
+
+  /**
+   * Record an error and pass it to onError (or the logger)
+   */
+  private reportError(error: unknown, sourceCollection: string): void {
+    this.lastError = error instanceof Error ? error.message : String(error);
+    if (this.options.onError) {
+      this.options.onError(error, sourceCollection);
+      return;
+    }
+    (this.options.logger ?? console).error(`Embed sync failed for '${sourceCollection}':`, error);
+  }
+
+  /**
+   * Wait for the retry interval (cut short by stop())
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.sleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.sleepers.add(wake);
+    });
+  }
+}
+
+/**
+ * Top-level fields touched by an update event ('address.city' → 'address')
+ */
+function toChangedFields(description: {
+  updatedFields?: Document;
+  removedFields?: string[];
+}): Record<string, unknown> {
+  const changed: Record<string, unknown> = {};
+  for (const path of Object.keys(description.updatedFields ?? {})) {
+    changed[path.split('.')[0]!] = true;
+  }
+  for (const path of description.removedFields ?? []) {
+    changed[path.split('.')[0]!] = true;
+  }
+  return changed;
+}
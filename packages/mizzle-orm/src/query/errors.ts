@@ -0,0 +1,114 @@
+/**
+ * Error classes thrown by collection operations
+ */
+
+import { isReadOperation, type Operation } from '../types/middleware';
+
+/**
+ * Thrown by dev guardrails when a query filter can only be served by a collection scan
+ */
+export class UnindexedQueryError extends Error {
+  constructor(
+    public collection: string,
+    public operation: Operation,
+    public filterShape: Record<string, unknown>,
+    public candidateIndexes: string[],
+  ) {
+    const hint =
+      candidateIndexes.length > 0
+        ? ` Declared indexes that could serve it: ${candidateIndexes.join(', ')} (run db.syncIndexes())`
+        : ' No declared index covers the filtered fields';
+    super(
+      `Unindexed query on '${collection}'.${operation} with filter ${JSON.stringify(filterShape)}.${hint}`,
+    );
+    this.name = 'UnindexedQueryError';
+  }
+}
+
+/**
+ * Thrown by findPage when an `after` cursor is forged, malformed or built for another sort
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(`Invalid pagination cursor: ${message}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Thrown when a policy (canInsert/canUpdate/canDelete, ownership, field rules) denies an operation
+ */
+export class PolicyDeniedError extends Error {
+  constructor(
+    public operation: Operation,
+    public collection: string,
+    public reason?: string,
+  ) {
+    super(
+      `${describeOperation(operation)} not allowed by policy on '${collection}'.${operation}${reason ? `: ${reason}` : ''}`,
+    );
+    this.name = 'PolicyDeniedError';
+  }
+}
+
+/**
+ * Thrown when an operation on a tenant-scoped collection has no tenant in the context
+ * or tries to read or write another tenant's data
+ */
+export class TenantScopeError extends Error {
+  constructor(
+    public collection: string,
+    message: string,
+  ) {
+    super(`Tenant scope violation on '${collection}': ${message}`);
+    this.name = 'TenantScopeError';
+  }
+}
+
+/**
+ * Collection still referencing documents that were about to be deleted
+ */
+export interface BlockingReference {
+  collection: string; // Referencing collection
+  relation: string; // Reference relation declaring onDelete: 'restrict'
+  count: number; // Referencing documents
+}
+
+/**
+ * Thrown when a delete is blocked by a reference relation with onDelete: 'restrict'
+ */
+export class ReferentialIntegrityError extends Error {
+  constructor(
+    public collection: string,
+    public blocking: BlockingReference[],
+  ) {
+    const references = blocking
+      .map(({ collection, relation, count }) => `${collection}.${relation} (${count})`)
+      .join(', ');
+    super(`Cannot delete from '${collection}': still referenced by ${references}`);
+    this.name = 'ReferentialIntegrityError';
+  }
+}
+
+/**
+ * Human-readable kind of operation for error messages ('updateById' → 'Update')
+ */
+function describeOperation(operation: Operation): string {
+  if (isReadOperation(operation)) return 'Read';
+  switch (operation) {
+    case 'create':
+    case 'insertMany':
+      return 'Insert';
+    case 'upsert':
+      return 'Upsert';
+    case 'delete':
+    case 'deleteById':
+    case 'deleteMany':
+    case 'purgeDeleted':
+      return 'Delete';
+    case 'transferOwnership':
+      return 'Ownership transfer';
+    default:
+      return 'Update';
+  }
+}
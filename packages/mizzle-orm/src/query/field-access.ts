@@ -0,0 +1,173 @@
+/**
+ * Field-level read/write permissions driven by .readableBy() / .writableBy()
+ */
+
+import type { Document } from 'mongodb';
+import { RelationType, type CollectionDefinition } from '../types/collection';
+import type { FieldAccessRule } from '../types/field';
+import type { Operation } from '../types/middleware';
+import type { OrmContext } from '../types/orm';
+import { resolveEmbedShape } from './embed-shape';
+import { PolicyDeniedError } from './errors';
+import { getUpdatedFields } from './update-operators';
+
+/**
+ * Fields of a collection guarded by a read or write rule
+ */
+export function getFieldAccessRules(
+  collectionDef: CollectionDefinition<any, any>,
+  access: 'read' | 'write',
+): Array<[string, FieldAccessRule]> {
+  const rules: Array<[string, FieldAccessRule]> = [];
+  for (const [fieldName, fieldBuilder] of Object.entries(collectionDef._schema)) {
+    const rule = (fieldBuilder as any)._config.access?.[access];
+    if (rule) {
+      rules.push([fieldName, rule]);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Remove fields the context may not read from query results
+ * Included relations and embedded snapshots are stripped with the rules of their own
+ * collection, recursively (snapshots merged in place and aggregate() results are not)
+ *
+ * @param include - Include config the documents were loaded with
+ */
+export function stripUnreadableFields<T extends Document>(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+  docs: T[],
+  include?: unknown,
+): T[] {
+  const rules = getFieldAccessRules(collectionDef, 'read');
+  const includes = includedRelations(collectionDef, include);
+  const snapshots = embeddedSnapshots(collectionDef);
+  if (rules.length === 0 && includes.length === 0 && snapshots.length === 0) {
+    return docs;
+  }
+
+  return docs.map((doc) => {
+    const stripped: Document = { ...doc };
+    for (const [field, rule] of rules) {
+      if (field in stripped && !rule(ctx, doc)) {
+        delete stripped[field];
+      }
+    }
+
+    for (const { name, targetDef, nestedInclude } of includes) {
+      const value = stripped[name];
+      if (Array.isArray(value)) {
+        stripped[name] = stripUnreadableFields(targetDef, ctx, value, nestedInclude);
+      } else if (value && typeof value === 'object') {
+        stripped[name] = stripUnreadableFields(targetDef, ctx, [value], nestedInclude)[0];
+      }
+    }
+
+    for (const { field, sourceDef } of snapshots) {
+      const value = stripped[field];
+      if (Array.isArray(value)) {
+        stripped[field] = stripUnreadableFields(sourceDef, ctx, value);
+      } else if (value && typeof value === 'object') {
+        stripped[field] = stripUnreadableFields(sourceDef, ctx, [value])[0];
+      }
+    }
+    return stripped as T;
+  });
+}
+
+/**
+ * Reject updates touching fields the context may not write
+ *
+ * @param doc - Stored document (undefined for bulk updates)
+ * @throws PolicyDeniedError naming the protected fields
+ */
+export function assertWritableFields(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+  update: Document,
+  operation: Operation,
+  doc?: Document,
+): void {
+  const rules = getFieldAccessRules(collectionDef, 'write');
+  if (rules.length === 0) return;
+
+  const updated = new Set(getUpdatedFields(update));
+  const denied = rules
+    .filter(([field, rule]) => updated.has(field) && !rule(ctx, doc))
+    .map(([field]) => `'${field}'`);
+  if (denied.length > 0) {
+    throw new PolicyDeniedError(
+      operation,
+      collectionDef._meta.name,
+      `not allowed to write field${denied.length > 1 ? 's' : ''} ${denied.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * Reject sorting on fields the context may not read (findPage cursors carry the sort values)
+ * Rules are called without a document, as for bulk updates
+ *
+ * @throws PolicyDeniedError naming the protected fields
+ */
+export function assertReadableSort(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+  sortFields: string[],
+  operation: Operation,
+): void {
+  const rules = getFieldAccessRules(collectionDef, 'read');
+  if (rules.length === 0) return;
+
+  const sorted = new Set(sortFields.map((field) => field.split('.')[0]));
+  const denied = rules
+    .filter(([field, rule]) => sorted.has(field) && !rule(ctx))
+    .map(([field]) => `'${field}'`);
+  if (denied.length > 0) {
+    throw new PolicyDeniedError(
+      operation,
+      collectionDef._meta.name,
+      `not allowed to sort on field${denied.length > 1 ? 's' : ''} ${denied.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * Relations of an include config with their target collections
+ */
+function includedRelations(
+  collectionDef: CollectionDefinition<any, any>,
+  include: unknown,
+): Array<{ name: string; targetDef: CollectionDefinition<any, any>; nestedInclude?: unknown }> {
+  if (!include) return [];
+
+  const entries: Array<[string, unknown]> =
+    typeof include === 'string' ? [[include, true]] : Object.entries(include);
+  const relations = collectionDef._meta.relations ?? {};
+
+  return entries.flatMap(([name, config]) => {
+    const targetDef = (relations[name] as any)?._targetCollectionDef;
+    if (!targetDef) return [];
+    const nestedInclude = config === true ? undefined : (config as { include?: unknown }).include;
+    return [{ name, targetDef, nestedInclude }];
+  });
+}
+
+/**
+ * Forward embeds stored in their own field whose source collection has read rules
+ * (in-place snapshots share their objects with the embedding document's own fields)
+ */
+function embeddedSnapshots(
+  collectionDef: CollectionDefinition<any, any>,
+): Array<{ field: string; sourceDef: CollectionDefinition<any, any> }> {
+  return Object.entries(collectionDef._meta.relations ?? {}).flatMap(([name, relation]) => {
+    const { type, forward, _sourceCollectionDef: sourceDef } = relation as any;
+    if (type !== RelationType.EMBED || !forward || !sourceDef) return [];
+    if (getFieldAccessRules(sourceDef, 'read').length === 0) return [];
+
+    const shape = resolveEmbedShape(forward, name, collectionDef._schema);
+    return shape.strategy === 'separate' ? [{ field: shape.field, sourceDef }] : [];
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Ownership enforcement driven by .ownerKey() fields
+ */
+
+import { ObjectId, type Document } from 'mongodb';
+import type { CollectionDefinition } from '../types/collection';
+import { FieldType } from '../types/field';
+import type { Operation } from '../types/middleware';
+import type { OrmContext } from '../types/orm';
+import { PolicyDeniedError } from './errors';
+import { getUpdatedFields } from './update-operators';
+
+/**
+ * Name of the collection's owner key field (null if the collection has no owner)
+ */
+export function getOwnerKeyField(collectionDef: CollectionDefinition<any, any>): string | null {
+  for (const [fieldName, fieldBuilder] of Object.entries(collectionDef._schema)) {
+    if ((fieldBuilder as any)._config.isOwnerKey) {
+      return fieldName;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether the context's user has one of the collection's ownership bypass roles
+ */
+export function bypassesOwnership(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+): boolean {
+  const bypassRoles = collectionDef._meta.policies.ownership?.bypassRoles ?? [];
+  return (ctx.user?.roles ?? []).some((role) => bypassRoles.includes(role));
+}
+
+/**
+ * Convert a user ID to the type of the owner key field
+ */
+export function toOwnerValue(
+  collectionDef: CollectionDefinition<any, any>,
+  field: string,
+  userId: string | ObjectId,
+): unknown {
+  const fieldType = (collectionDef._schema[field] as any)._config.type;
+  if (fieldType !== FieldType.OBJECT_ID) {
+    return String(userId);
+  }
+  return userId instanceof ObjectId ? userId : new ObjectId(userId);
+}
+
+/**
+ * Stamp the context's user as owner of a document being inserted
+ * Users with a bypass role may create documents on behalf of another owner
+ *
+ * @throws PolicyDeniedError if there is no ctx.user or the document names another owner
+ */
+export function stampOwner<T extends Record<string, unknown>>(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+  doc: T,
+  operation: Operation = 'create',
+): T {
+  const field = getOwnerKeyField(collectionDef);
+  if (!field) return doc;
+
+  const bypass = bypassesOwnership(collectionDef, ctx);
+  if (bypass && doc[field] != null) return doc;
+
+  const userId = requireUser(collectionDef, ctx, operation);
+  if (doc[field] != null && String(doc[field]) !== userId) {
+    throw new PolicyDeniedError(
+      operation,
+      collectionDef._meta.name,
+      'cannot create documents owned by another user',
+    );
+  }
+  return { ...doc, [field]: toOwnerValue(collectionDef, field, userId) };
+}
+
+/**
+ * Ensure the context's user owns a document (or has a bypass role)
+ *
+ * @throws PolicyDeniedError if the document belongs to someone else
+ */
+export function assertOwner(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+  doc: Document,
+  operation: Operation,
+): void {
+  const field = getOwnerKeyField(collectionDef);
+  if (!field || bypassesOwnership(collectionDef, ctx)) return;
+
+  const userId = requireUser(collectionDef, ctx, operation);
+  if (String(doc[field]) !== userId) {
+    throw new PolicyDeniedError(operation, collectionDef._meta.name, 'only the owner can do this');
+  }
+}
+
+/**
+ * Filter restricting bulk writes to the context user's documents
+ * Returns null for collections without an owner key and for bypass roles
+ *
+ * @throws PolicyDeniedError if there is no ctx.user
+ */
+export function ownerFilter(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+  operation: Operation,
+): Document | null {
+  const field = getOwnerKeyField(collectionDef);
+  if (!field || bypassesOwnership(collectionDef, ctx)) return null;
+
+  const userId = requireUser(collectionDef, ctx, operation);
+  return { [field]: toOwnerValue(collectionDef, field, userId) };
+}
+
+/**
+ * Reject regular updates touching the owner key (ownership changes go through transferOwnership())
+ *
+ * @throws Error
+ */
+export function assertOwnerUnchanged(
+  collectionDef: CollectionDefinition<any, any>,
+  update: Document,
+): void {
+  const field = getOwnerKeyField(collectionDef);
+  if (field && getUpdatedFields(update).includes(field)) {
+    throw new Error(
+      `Field '${field}' is the owner key of '${collectionDef._meta.name}' - use transferOwnership() to change it`,
+    );
+  }
+}
+
+/**
+ * ID of the context's user
+ */
+function requireUser(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+  operation: Operation,
+): string {
+  if (!ctx.user?.id) {
+    throw new PolicyDeniedError(
+      operation,
+      collectionDef._meta.name,
+      'the collection is owner-keyed and ctx.user is missing',
+    );
+  }
+  return ctx.user.id;
+}
@@ -0,0 +1,215 @@
+/**
+ * Keyset (cursor) pagination - opaque, signed cursors built from the sort keys plus _id
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { BSON, type Document } from 'mongodb';
+import { InvalidCursorError } from './errors';
+
+/**
+ * Normalized sort: [field, direction] pairs, always ending with _id
+ */
+export type SortKeys = Array<[string, 1 | -1]>;
+
+/**
+ * Encodes and verifies pagination cursors
+ *
+ * Cursors are signed with an HMAC so clients cannot forge positions. One codec
+ * is shared by all facades of an ORM instance; without a configured secret a
+ * random one is generated, so cursors do not survive a restart.
+ */
+export class CursorCodec {
+  private secret: Buffer;
+
+  constructor(secret?: string) {
+    this.secret = secret ? Buffer.from(secret) : randomBytes(32);
+  }
+
+  /**
+   * Encode the sort values of a document into a cursor
+   */
+  encode(doc: Document, sortKeys: SortKeys): string {
+    const payload = BSON.EJSON.stringify({
+      s: sortFingerprint(sortKeys),
+      v: sortKeys.map(([field]) => getPath(doc, field) ?? null),
+    });
+    const body = Buffer.from(payload).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  /**
+   * Decode a cursor into the sort values it was encoded from
+   *
+   * @throws InvalidCursorError if the cursor was tampered with or was built for a different sort
+   */
+  decode(cursor: string, sortKeys: SortKeys): unknown[] {
+    const [body, signature] = cursor.split('.');
+    if (!body || !signature || !this.verify(body, signature)) {
+      throw new InvalidCursorError('Cursor signature is invalid');
+    }
+
+    let payload: { s?: string; v?: unknown[] };
+    try {
+      payload = BSON.EJSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidCursorError('Cursor is malformed');
+    }
+
+    if (payload.s !== sortFingerprint(sortKeys) || !Array.isArray(payload.v)) {
+      throw new InvalidCursorError('Cursor was created for a different sort');
+    }
+    return payload.v;
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  private verify(body: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(body));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
+
+/**
+ * Normalize a sort spec and append _id as tie-breaker
+ *
+ * @example
+ * normalizeSort({ createdAt: -1 }) // [['createdAt', -1], ['_id', -1]]
+ */
+export function normalizeSort(sort: Record<string, 1 | -1> = {}): SortKeys {
+  const keys = Object.entries(sort).filter(([field]) => field !== '_id') as SortKeys;
+  const idDirection = sort._id ?? keys[keys.length - 1]?.[1] ?? 1;
+  return [...keys, ['_id', idDirection]];
+}
+
+/**
+ * Build the filter selecting documents after the given sort values
+ *
+ * Null and missing values sort before every other value, as in MongoDB, so
+ * null boundaries and descending keys get explicit null branches.
+ *
+ * @example
+ * keysetFilter([['age', 1], ['_id', 1]], [30, id])
+ * // { $or: [{ age: { $gt: 30 } }, { age: 30, _id: { $gt: id } }] }
+ */
+export function keysetFilter(sortKeys: SortKeys, values: unknown[]): Document {
+  const branches: Document[] = [];
+  sortKeys.forEach(([field, direction], index) => {
+    const after = afterCondition(field, direction, values[index] ?? null);
+    if (!after) {
+      return;
+    }
+    const branch: Document = {};
+    for (let i = 0; i < index; i++) {
+      branch[sortKeys[i]![0]] = values[i] ?? null;
+    }
+    branches.push({ ...branch, ...after });
+  });
+  return branches.length === 1 ? branches[0]! : { $or: branches };
+}
+
+/**
+ * Sort spec object from normalized sort keys
+ */
+export function toSortSpec(sortKeys: SortKeys): Record<string, 1 | -1> {
+  return Object.fromEntries(sortKeys);
+}
+
+/**
+ * Widen a root select so results keep the sort values their cursors are built from
+ * Returns the projection to query with and the paths to remove from the results once
+ * the cursor is encoded
+ *
+ * @example
+ * selectWithSortKeys({ name: 1 }, [['age', 1], ['_id', 1]])
+ * // { select: { name: 1, age: 1 }, hidden: ['age'] }
+ */
+export function selectWithSortKeys(
+  select: Record<string, 0 | 1 | boolean> | undefined,
+  sortKeys: SortKeys,
+): { select?: Record<string, 0 | 1 | boolean>; hidden: string[] } {
+  if (!select || Object.keys(select).length === 0) {
+    return { select, hidden: [] };
+  }
+
+  const widened = { ...select };
+  const hidden: string[] = [];
+  const isInclusion = Object.entries(select).some(
+    ([field, value]) => field !== '_id' && isSelected(value),
+  );
+  const covers = (path: string, field: string) => field === path || field.startsWith(`${path}.`);
+
+  for (const [field] of sortKeys) {
+    if (isInclusion && field !== '_id') {
+      const included = Object.keys(widened).some(
+        (path) => isSelected(widened[path]) && covers(path, field),
+      );
+      if (!included) {
+        widened[field] = 1;
+        hidden.push(field);
+      }
+      continue;
+    }
+    // Exclusions (and an excluded _id) are lifted from the sort field and its parents
+    for (const path of Object.keys(widened)) {
+      if (!isSelected(widened[path]) && covers(path, field)) {
+        delete widened[path];
+        hidden.push(path);
+      }
+    }
+  }
+  return { select: widened, hidden };
+}
+
+/**
+ * Remove dotted paths from documents (in place)
+ */
+export function unsetPaths(docs: Document[], paths: string[]): void {
+  for (const doc of docs) {
+    for (const path of paths) {
+      const segments = path.split('.');
+      const parent = getPath(doc, segments.slice(0, -1).join('.'));
+      if (parent && typeof parent === 'object') {
+        delete (parent as Document)[segments[segments.length - 1]!];
+      }
+    }
+  }
+}
+
+/**
+ * Condition selecting the values of one sort key that come after the boundary
+ *
+ * Returns undefined when nothing can follow (a null boundary sorted descending).
+ */
+function afterCondition(field: string, direction: 1 | -1, value: unknown): Document | undefined {
+  if (value === null) {
+    return direction === 1 ? { [field]: { $ne: null } } : undefined;
+  }
+  const range = { [field]: { [direction === 1 ? '$gt' : '$lt']: value } };
+  // Descending, null and missing values follow every other value; _id is never null
+  return direction === 1 || field === '_id' ? range : { $or: [range, { [field]: null }] };
+}
+
+/**
+ * Stable identifier of a sort (cursors are only valid for the sort they were built with)
+ */
+function sortFingerprint(sortKeys: SortKeys): string {
+  return sortKeys.map(([field, direction]) => `${field}:${direction}`).join(',');
+}
+
+/**
+ * Read a dotted path from a document (the document itself for an empty path)
+ */
+function getPath(doc: Document, path: string): unknown {
+  if (!path) return doc;
+  return path.split('.').reduce<any>((value, segment) => value?.[segment], doc);
+}
+
+/**
+ * Whether a projection value includes its field
+ */
+function isSelected(value: unknown): boolean {
+  return value !== 0 && value !== false;
+}
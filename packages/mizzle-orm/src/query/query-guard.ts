@@ -0,0 +1,156 @@
+/**
+ * Dev guardrails - detects collection scans by explaining query filters
+ */
+
+import type { ClientSession, Collection, Document } from 'mongodb';
+import type { CollectionDefinition } from '../types/collection';
+import type { DevGuardrailsConfig } from '../types/orm';
+import type { Operation } from '../types/middleware';
+import { toIndexSpec } from '../indexes/index-sync';
+import { UnindexedQueryError } from './errors';
+
+/**
+ * Explains query filters and warns or throws when the winning plan is a COLLSCAN
+ *
+ * One guard is shared by all facades of an ORM instance, so each filter shape
+ * is explained only once per collection and operation. The guard is off when
+ * NODE_ENV is 'production' unless enableInProduction is set.
+ */
+export class QueryGuard {
+  private checked = new Map<string, boolean>();
+
+  constructor(private config: DevGuardrailsConfig = {}) {}
+
+  /**
+   * Whether any guardrail is enabled in the current environment
+   */
+  get enabled(): boolean {
+    if (process.env.NODE_ENV === 'production' && !this.config.enableInProduction) {
+      return false;
+    }
+    return Boolean(this.config.requireIndexedQueries || this.config.warnOnUnindexed);
+  }
+
+  /**
+   * Check that a filter can be served by an index
+   *
+   * @param collection - MongoDB collection the query runs against
+   * @param collectionDef - Collection definition (for declared indexes)
+   * @param operation - Operation being guarded
+   * @param filter - Final filter (after policies)
+   * @param session - Session of the current context (explain is skipped inside transactions)
+   */
+  async check(
+    collection: Collection<any>,
+    collectionDef: CollectionDefinition<any, any>,
+    operation: Operation,
+    filter: Document,
+    session?: ClientSession,
+  ): Promise<void> {
+    if (!this.enabled) return;
+
+    // An empty filter reads the whole collection on purpose
+    const shape = filterShape(filter) as Record<string, unknown>;
+    if (Object.keys(shape).length === 0) return;
+
+    // explain is not allowed in multi-document transactions
+    if (session?.inTransaction()) return;
+
+    const cacheKey = `${collectionDef._meta.name}:${operation}:${JSON.stringify(shape)}`;
+    let scans = this.checked.get(cacheKey);
+    if (scans === undefined) {
+      const explanation = await collection.find(filter, { session }).explain('queryPlanner');
+      scans = hasCollectionScan(explanation.queryPlanner?.winningPlan);
+      this.checked.set(cacheKey, scans);
+    }
+
+    if (!scans) return;
+
+    const error = new UnindexedQueryError(
+      collectionDef._meta.name,
+      operation,
+      shape,
+      candidateIndexes(collectionDef, filter),
+    );
+
+    if (this.config.requireIndexedQueries) {
+      throw error;
+    }
+
+    const logger = this.config.logger || console;
+    logger.warn(`[Guardrails] ${error.message}`);
+  }
+}
+
+/**
+ * Replace filter values with their types, keeping field names and operators
+ *
+ * @example
+ * filterShape({ email: 'a@b.c', age: { $gt: 18 } })
+ * // { email: 'string', age: { $gt: 'number' } }
+ */
+export function filterShape(filter: unknown): unknown {
+  if (Array.isArray(filter)) {
+    return filter.map(filterShape);
+  }
+  if (filter === null) return 'null';
+  if (typeof filter !== 'object') return typeof filter;
+  if (filter instanceof Date) return 'date';
+  if (filter instanceof RegExp) return 'regex';
+  if ((filter as { _bsontype?: string })._bsontype) {
+    return (filter as { _bsontype: string })._bsontype;
+  }
+
+  const shape: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(filter as Record<string, unknown>)) {
+    shape[key] = filterShape(value);
+  }
+  return shape;
+}
+
+/**
+ * Check whether a query plan tree contains a COLLSCAN stage
+ */
+function hasCollectionScan(plan: Document | undefined): boolean {
+  if (!plan) return false;
+  if (plan.stage === 'COLLSCAN') return true;
+
+  const children: Document[] = [
+    plan.inputStage,
+    plan.queryPlan, // SBE plans
+    ...(plan.inputStages || []),
+    ...(plan.shards || []).map((shard: Document) => shard.winningPlan),
+  ].filter(Boolean);
+
+  return children.some(hasCollectionScan);
+}
+
+/**
+ * Collect field names used by a filter (top level, $and and $or branches)
+ */
+function filterFields(filter: Document): Set<string> {
+  const fields = new Set<string>();
+  for (const [key, value] of Object.entries(filter)) {
+    if ((key === '$and' || key === '$or') && Array.isArray(value)) {
+      for (const branch of value) {
+        for (const field of filterFields(branch)) fields.add(field);
+      }
+    } else if (!key.startsWith('$')) {
+      fields.add(key);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Names of declared indexes whose leading field is used by the filter
+ */
+function candidateIndexes(
+  collectionDef: CollectionDefinition<any, any>,
+  filter: Document,
+): string[] {
+  const fields = filterFields(filter);
+  return collectionDef._meta.indexes
+    .filter((def) => def.fields[0] !== undefined && fields.has(def.fields[0]))
+    .map((def) => toIndexSpec(def).name);
+}
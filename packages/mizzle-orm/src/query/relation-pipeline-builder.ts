@@ -3,9 +3,27 @@
  */
 
 import type { Document } from 'mongodb';
-import type { CollectionDefinition, RelationTargets, AnyRelation, LookupRelation, FieldProjection } from '../types/collection';
+import type {
+  CollectionDefinition,
+  RelationTargets,
+  AnyRelation,
+  LookupRelation,
+  ManyToManyRelation,
+  FieldProjection,
+} from '../types/collection';
 import type { IncludeConfig, NestedIncludeConfig } from '../types/include';
 
+/**
+ * Options applied to every $lookup of a pipeline (including nested ones)
+ */
+export interface PipelineOptions {
+  /**
+   * Filter restricting the documents of a target collection (e.g. tenant scoping)
+   * Return null to leave the target unrestricted
+   */
+  scopeFilter?: (targetCollection: CollectionDefinition<any, any>) => Document | null;
+}
+
 /**
  * Builds aggregation pipeline stages for including relations via $lookup
  */
@@ -15,10 +33,12 @@ export class RelationPipelineBuilder {
    *
    * @param collectionDef - Collection definition
    * @param include - Include configuration
+   * @param options - Options applied to every lookup
    */
   static buildPipeline<TRelationTargets extends RelationTargets>(
     collectionDef: CollectionDefinition<any, TRelationTargets>,
     include: IncludeConfig<TRelationTargets>,
+    options: PipelineOptions = {},
   ): Document[] {
     const stages: Document[] = [];
     const relations = collectionDef._meta.relations;
@@ -29,7 +49,7 @@ export class RelationPipelineBuilder {
       if (!relation) {
         throw new Error(`Relation '${include}' not found`);
       }
-      stages.push(...this.buildLookupStages(include, relation, undefined));
+      stages.push(...this.buildLookupStages(include, relation, undefined, options));
     } else if (typeof include === 'object') {
       // Multiple relations: { authorData: true, comments: true }
       for (const [relationName, config] of Object.entries(include)) {
@@ -39,7 +59,7 @@ export class RelationPipelineBuilder {
         }
 
         const nestedConfig = config === true ? undefined : (config as NestedIncludeConfig<any>);
-        stages.push(...this.buildLookupStages(relationName, relation, nestedConfig));
+        stages.push(...this.buildLookupStages(relationName, relation, nestedConfig, options));
       }
     }
 
@@ -52,7 +72,8 @@ export class RelationPipelineBuilder {
   private static buildLookupStages(
     relationName: string,
     relation: AnyRelation,
-    queryConfig?: NestedIncludeConfig<any>,
+    queryConfig: NestedIncludeConfig<any> | undefined,
+    options: PipelineOptions,
   ): Document[] {
     const stages: Document[] = [];
 
@@ -60,46 +81,7 @@ export class RelationPipelineBuilder {
       const lookupRelation = relation as LookupRelation;
 
       // Build the lookup pipeline
-      const pipeline: Document[] = [];
-
-      // STEP 1: Merge where clauses (default AND query-time)
-      const whereClause = this.mergeWhereClause(
-        lookupRelation.where, // Default from relation
-        queryConfig?.where,    // Query-time override
-      );
-
-      if (whereClause) {
-        pipeline.push({ $match: whereClause });
-      }
-
-      // STEP 2: Sort (query-time replaces default)
-      const sortClause = queryConfig?.sort ?? lookupRelation.sort;
-      if (sortClause) {
-        pipeline.push({ $sort: sortClause });
-      }
-
-      // STEP 3: Limit (query-time replaces default)
-      const limitValue = queryConfig?.limit ?? lookupRelation.limit;
-      if (limitValue) {
-        pipeline.push({ $limit: limitValue });
-      }
-
-      // STEP 4: Field projection (query-time replaces default)
-      const projectionFields = queryConfig?.projection ?? lookupRelation.projection;
-      if (projectionFields) {
-        const projection = this.buildProjection(projectionFields);
-        pipeline.push({ $project: projection });
-      }
-
-      // STEP 5: Nested includes (recursively build pipeline)
-      if (queryConfig?.include && lookupRelation._targetCollectionDef) {
-        const targetCollection = lookupRelation._targetCollectionDef;
-        const nestedStages = this.buildPipeline(
-          targetCollection,
-          queryConfig.include,
-        );
-        pipeline.push(...nestedStages);
-      }
+      const pipeline = this.buildTargetPipeline(lookupRelation, queryConfig, options);
 
       // Build the $lookup stage
       const lookupStage: Document = {
@@ -139,6 +121,11 @@ export class RelationPipelineBuilder {
         },
       };
 
+      const scope = this.scopeFor(relation._targetCollectionDef, options);
+      if (scope) {
+        lookupStage.$lookup.pipeline = [{ $match: scope }];
+      }
+
       stages.push(lookupStage);
 
       // Unwind to single document
@@ -148,6 +135,8 @@ export class RelationPipelineBuilder {
           preserveNullAndEmptyArrays: true,
         },
       });
+    } else if (relation.type === 'manyToMany') {
+      stages.push(this.buildManyToManyLookup(relationName, relation, queryConfig, options));
     } else if (relation.type === 'embed') {
       // Embed relations are denormalized, no lookup needed
       // Skip for now
@@ -156,6 +145,97 @@ export class RelationPipelineBuilder {
     return stages;
   }
 
+  /**
+   * Build the pipeline applied to the target documents of a lookup or many-to-many relation
+   */
+  private static buildTargetPipeline(
+    relation: LookupRelation | ManyToManyRelation,
+    queryConfig: NestedIncludeConfig<any> | undefined,
+    options: PipelineOptions,
+  ): Document[] {
+    const pipeline: Document[] = [];
+
+    // STEP 1: Merge where clauses (default AND query-time AND scope)
+    const whereClause = this.mergeWhereClause(
+      this.scopeFor(relation._targetCollectionDef, options),
+      this.mergeWhereClause(
+        relation.where, // Default from relation
+        queryConfig?.where, // Query-time override
+      ),
+    );
+
+    if (whereClause) {
+      pipeline.push({ $match: whereClause });
+    }
+
+    // STEP 2: Sort (query-time replaces default)
+    const sortClause = queryConfig?.sort ?? relation.sort;
+    if (sortClause) {
+      pipeline.push({ $sort: sortClause });
+    }
+
+    // STEP 3: Limit (query-time replaces default)
+    const limitValue = queryConfig?.limit ?? relation.limit;
+    if (limitValue) {
+      pipeline.push({ $limit: limitValue });
+    }
+
+    // STEP 4: Field projection (query-time replaces default)
+    const projectionFields = queryConfig?.projection ?? relation.projection;
+    if (projectionFields) {
+      const projection = this.buildProjection(projectionFields);
+      pipeline.push({ $project: projection });
+    }
+
+    // STEP 5: Nested includes (recursively build pipeline)
+    if (queryConfig?.include && relation._targetCollectionDef) {
+      const nestedStages = this.buildPipeline(
+        relation._targetCollectionDef,
+        queryConfig.include,
+        options,
+      );
+      pipeline.push(...nestedStages);
+    }
+
+    return pipeline;
+  }
+
+  /**
+   * Build the nested $lookup of a many-to-many relation:
+   * join documents of each source document → their target documents
+   * The target pipeline runs on the joined targets, so sort and limit apply per source document
+   */
+  private static buildManyToManyLookup(
+    relationName: string,
+    relation: ManyToManyRelation,
+    queryConfig: NestedIncludeConfig<any> | undefined,
+    options: PipelineOptions,
+  ): Document {
+    const joinScope = this.scopeFor(relation._throughCollectionDef, options);
+
+    return {
+      $lookup: {
+        from: relation.through,
+        localField: relation.localField ?? '_id',
+        foreignField: relation.sourceKey,
+        as: relationName,
+        pipeline: [
+          ...(joinScope ? [{ $match: joinScope }] : []),
+          {
+            $lookup: {
+              from: relation.targetCollection,
+              localField: relation.targetKey,
+              foreignField: relation.foreignField ?? '_id',
+              as: 'target',
+            },
+          },
+          { $unwind: '$target' }, // Drops join documents whose target no longer exists
+          { $replaceRoot: { newRoot: '$target' } },
+          ...this.buildTargetPipeline(relation, queryConfig, options),
+        ],
+      },
+    };
+  }
 
   /**
    * Build MongoDB projection from field projection config
@@ -177,6 +257,17 @@ export class RelationPipelineBuilder {
     return result;
   }
 
+  /**
+   * Scope filter for a lookup target (null if unscoped or the target is unknown)
+   */
+  private static scopeFor(
+    targetCollection: CollectionDefinition<any, any> | undefined,
+    options: PipelineOptions,
+  ): Document | null {
+    if (!targetCollection || !options.scopeFilter) return null;
+    return options.scopeFilter(targetCollection);
+  }
+
   /**
    * Merge where clauses (AND together)
    * Default where clause is ANDed with query-time where clause
@@ -2,7 +2,13 @@
  * Relation handling for collections
  */
 
-import { ObjectId as MongoObjectId, type Db, type Document, type ObjectId } from 'mongodb';
+import {
+  ObjectId as MongoObjectId,
+  type ClientSession,
+  type Db,
+  type Document,
+  type ObjectId,
+} from 'mongodb';
 import type { OrmContext } from '../types/orm';
 import type {
   ReferenceRelation,
@@ -14,6 +20,7 @@ import type {
 } from '../types/collection';
 import type { SchemaDefinition } from '../types/field';
 import { PathNavigator } from '../utils/path-navigator';
+import { mapEmbed, stampEmbed } from './embed-propagation';
 
 /**
  * Populate a LOOKUP relation
@@ -23,6 +30,7 @@ export async function populateLookup<TDoc extends Document>(
   docs: TDoc[],
   relation: LookupRelation,
   as: string,
+  session?: ClientSession,
 ): Promise<TDoc[]> {
   if (docs.length === 0) return docs;
 
@@ -44,9 +52,12 @@ export async function populateLookup<TDoc extends Document>(
   // Fetch related documents
   const relatedDocs = await db
     .collection(relation.targetCollection)
-    .find({
-      [relation.foreignField]: { $in: lookupValues },
-    })
+    .find(
+      {
+        [relation.foreignField]: { $in: lookupValues },
+      },
+      { session },
+    )
     .toArray();
 
   // Create lookup map
@@ -79,6 +90,7 @@ export async function validateReference(
   db: Db,
   relation: ReferenceRelation,
   value: ObjectId | string | null | undefined,
+  session?: ClientSession,
 ): Promise<boolean> {
   if (value == null) return true;
 
@@ -93,9 +105,12 @@ export async function validateReference(
 
   const exists = await db
     .collection(relation.targetCollection)
-    .findOne({
-      [relation.foreignField]: lookupValue,
-    });
+    .findOne(
+      {
+        [relation.foreignField]: lookupValue,
+      },
+      { session },
+    );
 
   return exists !== null;
 }
@@ -108,6 +123,7 @@ export async function embedRelation<TDoc extends Document>(
   docs: TDoc[],
   relation: EmbedRelation,
   as: string,
+  session?: ClientSession,
 ): Promise<TDoc[]> {
   if (docs.length === 0 || !relation.extractIds) return docs;
 
@@ -123,9 +139,12 @@ export async function embedRelation<TDoc extends Document>(
   // Fetch related documents
   const relatedDocs = await db
     .collection(relation.sourceCollection)
-    .find({
-      _id: { $in: objectIds as any },
-    })
+    .find(
+      {
+        _id: { $in: objectIds as any },
+      },
+      { session },
+    )
     .toArray();
 
   // Create map for lookup
@@ -150,10 +169,14 @@ export async function embedRelation<TDoc extends Document>(
  * Relation helper - provides convenient methods for working with relations
  */
 export class RelationHelper<TDoc extends Document> {
+  /**
+   * @param scopeFilter - Restricts the documents read from related collections (e.g. tenant scoping)
+   */
   constructor(
     private db: Db,
     private collectionDef: CollectionDefinition<SchemaDefinition>,
-    _ctx: OrmContext,
+    private ctx: OrmContext,
+    private scopeFilter?: (collectionDef: CollectionDefinition<any, any>) => Document | null,
   ) {}
 
   /**
@@ -174,9 +197,9 @@ export class RelationHelper<TDoc extends Document> {
       }
 
       if (relation.type === 'lookup') {
-        result = await populateLookup(this.db, result, relation, name);
+        result = await populateLookup(this.db, result, relation, name, this.ctx.session);
       } else if (relation.type === 'embed') {
-        result = await embedRelation(this.db, result, relation, name);
+        result = await embedRelation(this.db, result, relation, name, this.ctx.session);
       }
       // REFERENCE relations don't need population (they're just foreign keys)
     }
@@ -188,19 +211,49 @@ export class RelationHelper<TDoc extends Document> {
    * Validate REFERENCE relations before insert/update
    */
   async validateReferences(doc: Partial<TDoc>): Promise<void> {
+    await this.validateReferencesMany([doc]);
+  }
+
+  /**
+   * Validate REFERENCE relations for a batch of documents
+   * Runs one $in query per reference relation instead of one query per document
+   */
+  async validateReferencesMany(docs: Partial<TDoc>[]): Promise<void> {
     const relations = this.collectionDef._meta.relations || {};
 
     for (const [_name, relation] of Object.entries(relations)) {
       const typedRelation = relation as AnyRelation;
-      if (typedRelation.type === 'reference') {
+      if (typedRelation.type !== 'reference') continue;
+
+      const values = new Map<string, unknown>();
+      for (const doc of docs) {
         const value = (doc as any)[typedRelation.localField];
-        if (value !== undefined) {
-          const isValid = await validateReference(this.db, typedRelation, value);
-          if (!isValid) {
-            throw new Error(
-              `Invalid reference: ${typedRelation.localField} references non-existent document in ${typedRelation.targetCollection}`
-            );
-          }
+        if (value == null) continue;
+        // Convert to ObjectId if the foreign field is _id and value is a string
+        const lookupValue =
+          typedRelation.foreignField === '_id' && typeof value === 'string'
+            ? new MongoObjectId(value)
+            : value;
+        values.set(String(lookupValue), lookupValue);
+      }
+      if (values.size === 0) continue;
+
+      const existing = await this.db
+        .collection(typedRelation.targetCollection)
+        .find(
+          this.scoped(typedRelation._targetCollectionDef, {
+            [typedRelation.foreignField]: { $in: [...values.values()] },
+          }),
+          { projection: { [typedRelation.foreignField]: 1 }, session: this.ctx.session },
+        )
+        .toArray();
+      const found = new Set(existing.map((doc) => String(doc[typedRelation.foreignField])));
+
+      for (const key of values.keys()) {
+        if (!found.has(key)) {
+          throw new Error(
+            `Invalid reference: ${typedRelation.localField} references non-existent document in ${typedRelation.targetCollection}`
+          );
         }
       }
     }
@@ -213,8 +266,22 @@ export class RelationHelper<TDoc extends Document> {
    * @param onlyRelations - Optional array of relation names to process (processes all if not specified)
    */
   async processForwardEmbeds(doc: Partial<TDoc>, onlyRelations?: string[]): Promise<Partial<TDoc>> {
+    const [result] = await this.processForwardEmbedsMany([doc], onlyRelations);
+    return result!;
+  }
+
+  /**
+   * Process forward embeds for many documents
+   * Source documents are fetched with one $in query per relation for the whole batch
+   * @param docs - The documents to process
+   * @param onlyRelations - Optional array of relation names to process (processes all if not specified)
+   */
+  async processForwardEmbedsMany(
+    docs: Partial<TDoc>[],
+    onlyRelations?: string[],
+  ): Promise<Partial<TDoc>[]> {
     const relations = (this.collectionDef._meta.relations || {}) as Record<string, AnyRelation>;
-    let result = { ...doc };
+    let results = docs.map((doc) => ({ ...doc }));
 
     for (const [relationName, relation] of Object.entries(relations)) {
       const typedRelation = relation as AnyRelation;
@@ -225,30 +292,127 @@ export class RelationHelper<TDoc extends Document> {
 
       // New forward embed config
       if (typedRelation.forward) {
-        result = await this.processForwardEmbed(
-          result,
+        results = await this.processForwardEmbed(
+          results,
           relationName,
           typedRelation.forward,
           typedRelation.sourceCollection,
+          typedRelation._sourceCollectionDef,
         );
       }
     }
 
-    return result;
+    return results;
+  }
+
+  /**
+   * Re-embed forward relations whose ID fields were changed without a $set
+   * (e.g. $push to an ID array). Returns the $set payload for the refreshed
+   * embed fields, or null if no relation is affected.
+   * @param doc - The document after the update
+   * @param changedFields - Root fields changed by the update
+   */
+  async reembedChangedFields(doc: TDoc, changedFields: string[]): Promise<Document | null> {
+    const relations = (this.collectionDef._meta.relations || {}) as Record<string, AnyRelation>;
+    const affected: string[] = [];
+    // Target field → value when no ID is left (separate strategy only)
+    const emptyValues = new Map<string, unknown>();
+    const source: Document = { ...doc };
+
+    for (const [relationName, relation] of Object.entries(relations)) {
+      if (relation.type !== 'embed' || !relation.forward) continue;
+      const sourceFields = PathNavigator.sourceRootFields(relation.forward);
+      if (!sourceFields.some((field) => changedFields.includes(field))) continue;
+
+      affected.push(relationName);
+      for (const field of PathNavigator.targetRootFields(relation.forward, relationName)) {
+        if (PathNavigator.inferStrategy(relation.forward) === 'separate') {
+          // Drop the old embed so removed IDs do not leave stale entries behind
+          delete source[field];
+          const isArray =
+            !!relation.forward.paths || sourceFields.some((f) => Array.isArray(source[f]));
+          emptyValues.set(field, isArray ? [] : null);
+        } else {
+          emptyValues.set(field, undefined);
+        }
+      }
+    }
+
+    if (affected.length === 0) return null;
+
+    const embedded = (await this.processForwardEmbeds(source as Partial<TDoc>, affected)) as Document;
+    return Object.fromEntries(
+      [...emptyValues].map(([field, empty]) => [field, embedded[field] ?? empty]),
+    );
   }
 
   /**
-   * Process a single forward embed relation
+   * Current snapshots of source documents for an embed relation, by source ID
+   * Source documents that no longer exist (or are out of scope) are absent from the map
+   */
+  async loadEmbedSnapshots(relationName: string, ids: string[]): Promise<Map<string, Document>> {
+    const relations = (this.collectionDef._meta.relations || {}) as Record<string, AnyRelation>;
+    const relation = relations[relationName];
+    if (relation?.type !== 'embed' || !relation.forward) {
+      throw new Error(`Relation '${relationName}' is not an EMBED relation`);
+    }
+    return this.fetchSnapshots(
+      ids,
+      relation.forward,
+      relation.sourceCollection,
+      relation._sourceCollectionDef,
+    );
+  }
+
+  /**
+   * Process a single forward embed relation for a batch of documents
    */
   private async processForwardEmbed(
-    doc: Partial<TDoc>,
+    docs: Partial<TDoc>[],
     relationName: string,
     config: ForwardEmbedConfig,
     sourceCollectionName: string,
-  ): Promise<Partial<TDoc>> {
-    // Extract IDs from document
-    const ids = PathNavigator.extractIds(doc as Document, config);
-    if (ids.length === 0) return doc;
+    sourceCollectionDef?: CollectionDefinition<any, any>,
+  ): Promise<Partial<TDoc>[]> {
+    // Extract IDs from all documents (deduplicated)
+    const ids = [
+      ...new Set(docs.flatMap((doc) => PathNavigator.extractIds(doc as Document, config))),
+    ];
+    if (ids.length === 0) return docs;
+
+    const embedMap = await this.fetchSnapshots(
+      ids,
+      config,
+      sourceCollectionName,
+      sourceCollectionDef,
+    );
+
+    if (embedMap.size === 0) {
+      // No source documents found - log warning but continue
+      console.warn(
+        `Forward embed '${relationName}': No source documents found for IDs: ${ids.join(', ')}`
+      );
+      return docs;
+    }
+
+    // Apply embeds to each document
+    return docs.map(
+      (doc) =>
+        PathNavigator.applyEmbeds(doc as Document, config, embedMap, relationName) as Partial<TDoc>,
+    );
+  }
+
+  /**
+   * Fetch source documents and build their snapshots (ID → embedded fields)
+   */
+  private async fetchSnapshots(
+    ids: string[],
+    config: ForwardEmbedConfig,
+    sourceCollectionName: string,
+    sourceCollectionDef?: CollectionDefinition<any, any>,
+  ): Promise<Map<string, Document>> {
+    const embedMap = new Map<string, Document>();
+    if (ids.length === 0) return embedMap;
 
     // Determine which field to use for lookup
     const embedIdField = config.embedIdField || '_id';
@@ -270,23 +434,23 @@ export class RelationHelper<TDoc extends Document> {
 
     const sourceDocs = await this.db
       .collection(sourceCollectionName)
-      .find({ [lookupField]: { $in: lookupValues } })
+      .find(this.scoped(sourceCollectionDef, { [lookupField]: { $in: lookupValues } }), {
+        session: this.ctx.session,
+      })
       .toArray();
 
-    if (sourceDocs.length === 0) {
-      // No source documents found - log warning but continue
-      console.warn(
-        `Forward embed '${relationName}': No source documents found for IDs: ${ids.join(', ')}`
-      );
-      return doc;
-    }
-
-    // Build embed map (ID → embedded fields)
     // Map by the field value that was extracted from the document
-    const embedMap = new Map<string, Document>();
-
     for (const sourceDoc of sourceDocs) {
-      const embedded = this.extractFields(sourceDoc, config.projection, embedIdField);
+      const embedded = stampEmbed(
+        mapEmbed(
+          this.extractFields(sourceDoc, config.projection, embedIdField),
+          sourceDoc,
+          config,
+          this.ctx,
+        ),
+        sourceDoc,
+        config,
+      );
       // Map by the lookup field value (converted to string)
       const lookupValue = sourceDoc[lookupField];
       const sourceId =
@@ -294,15 +458,18 @@ export class RelationHelper<TDoc extends Document> {
       embedMap.set(sourceId, embedded);
     }
 
-    // Apply embeds to document
-    const result = PathNavigator.applyEmbeds(
-      doc as Document,
-      config,
-      embedMap,
-      relationName,
-    );
+    return embedMap;
+  }
 
-    return result as Partial<TDoc>;
+  /**
+   * AND the scope filter of a related collection into a query
+   */
+  private scoped(
+    collectionDef: CollectionDefinition<any, any> | undefined,
+    filter: Document,
+  ): Document {
+    const scope = collectionDef && this.scopeFilter?.(collectionDef);
+    return scope ? { $and: [filter, scope] } : filter;
   }
 
   /**
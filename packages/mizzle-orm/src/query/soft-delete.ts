@@ -0,0 +1,41 @@
+/**
+ * Soft-delete scoping driven by .softDeleteFlag() fields
+ */
+
+import type { Document } from 'mongodb';
+import type { CollectionDefinition } from '../types/collection';
+import type { SoftDeleteOptions } from '../types/orm';
+
+/**
+ * Name of the collection's soft-delete flag field (null if soft delete is not configured)
+ */
+export function getSoftDeleteField(collectionDef: CollectionDefinition<any, any>): string | null {
+  for (const [fieldName, fieldBuilder] of Object.entries(collectionDef._schema)) {
+    if ((fieldBuilder as any)._config.isSoftDeleteFlag) {
+      return fieldName;
+    }
+  }
+  return null;
+}
+
+/**
+ * Filter selecting live or deleted documents of a soft-deletable collection
+ * Deleted documents are hidden unless withDeleted/onlyDeleted is set; returns null
+ * for collections without a soft-delete flag and for withDeleted
+ *
+ * @throws Error if withDeleted and onlyDeleted are combined
+ */
+export function softDeleteFilter(
+  collectionDef: CollectionDefinition<any, any>,
+  options: SoftDeleteOptions = {},
+): Document | null {
+  if (options.withDeleted && options.onlyDeleted) {
+    throw new Error('withDeleted and onlyDeleted cannot be combined');
+  }
+
+  const field = getSoftDeleteField(collectionDef);
+  if (!field || options.withDeleted) return null;
+
+  // null also matches documents without the field (created before the flag existed)
+  return options.onlyDeleted ? { [field]: { $ne: null } } : { [field]: null };
+}
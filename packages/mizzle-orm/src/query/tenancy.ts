@@ -0,0 +1,116 @@
+/**
+ * Multi-tenancy scoping driven by .tenantKey() fields
+ */
+
+import { ObjectId, type Document } from 'mongodb';
+import type { CollectionDefinition } from '../types/collection';
+import { FieldType } from '../types/field';
+import type { OrmContext } from '../types/orm';
+import { TenantScopeError } from './errors';
+import { getSetFields, getUpdatedFields } from './update-operators';
+
+/**
+ * Name of the collection's tenant key field (null if the collection is not tenant-scoped)
+ */
+export function getTenantKeyField(collectionDef: CollectionDefinition<any, any>): string | null {
+  for (const [fieldName, fieldBuilder] of Object.entries(collectionDef._schema)) {
+    if ((fieldBuilder as any)._config.isTenantKey) {
+      return fieldName;
+    }
+  }
+  return null;
+}
+
+/**
+ * Filter restricting a query to the context's tenant
+ * Returns null for collections without a tenant key
+ *
+ * @throws TenantScopeError if the collection is tenant-scoped and ctx.tenantId is missing
+ */
+export function tenantFilter(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+): Document | null {
+  const field = getTenantKeyField(collectionDef);
+  if (!field) return null;
+  return { [field]: tenantValue(collectionDef, field, ctx) };
+}
+
+/**
+ * Stamp the context's tenant into a document being inserted
+ *
+ * @throws TenantScopeError if the document already belongs to another tenant
+ */
+export function stampTenant<T extends Record<string, unknown>>(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+  doc: T,
+): T {
+  const field = getTenantKeyField(collectionDef);
+  if (!field) return doc;
+
+  const tenant = tenantValue(collectionDef, field, ctx);
+  const current = doc[field];
+  if (current != null && String(current) !== String(tenant)) {
+    throw new TenantScopeError(
+      collectionDef._meta.name,
+      `cannot insert a document for tenant '${String(current)}' from tenant '${String(tenant)}'`,
+    );
+  }
+  return { ...doc, [field]: tenant };
+}
+
+/**
+ * Reject updates that would move documents to another tenant
+ * Setting the key to the context's own tenant is allowed; $unset, $rename etc. are not
+ *
+ * @throws TenantScopeError
+ */
+export function assertTenantUpdate(
+  collectionDef: CollectionDefinition<any, any>,
+  ctx: OrmContext,
+  update: Document,
+): void {
+  const field = getTenantKeyField(collectionDef);
+  if (!field) return;
+
+  if (getUpdatedFields(update, { excludeSet: true }).includes(field)) {
+    throw new TenantScopeError(
+      collectionDef._meta.name,
+      `the tenant key '${field}' can only be changed with $set`,
+    );
+  }
+
+  const setFields = getSetFields(update);
+  if (field in setFields) {
+    const tenant = tenantValue(collectionDef, field, ctx);
+    if (String(setFields[field]) !== String(tenant)) {
+      throw new TenantScopeError(
+        collectionDef._meta.name,
+        `cannot move a document to tenant '${String(setFields[field])}'`,
+      );
+    }
+  }
+}
+
+/**
+ * Tenant value matching the type of the tenant key field
+ */
+function tenantValue(
+  collectionDef: CollectionDefinition<any, any>,
+  field: string,
+  ctx: OrmContext,
+): unknown {
+  if (!ctx.tenantId) {
+    throw new TenantScopeError(
+      collectionDef._meta.name,
+      'ctx.tenantId is required (use unscoped() for cross-tenant jobs)',
+    );
+  }
+
+  const fieldType = (collectionDef._schema[field] as any)._config.type;
+  if (fieldType === FieldType.OBJECT_ID) {
+    return ctx.tenantIdObjectId ?? new ObjectId(ctx.tenantId);
+  }
+  return ctx.tenantId;
+}
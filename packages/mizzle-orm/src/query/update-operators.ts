@@ -0,0 +1,99 @@
+/**
+ * Helpers for facade updates given as a partial document or as update operators
+ */
+
+import type { Document } from 'mongodb';
+
+/**
+ * Check whether an update is written with operators ($inc, $push, ...)
+ * A plain object is treated as the $set payload
+ *
+ * @throws Error if operators and plain fields are mixed
+ */
+export function isOperatorUpdate(update: Document): boolean {
+  const keys = Object.keys(update);
+  const operatorKeys = keys.filter((key) => key.startsWith('$'));
+  if (operatorKeys.length > 0 && operatorKeys.length < keys.length) {
+    throw new Error(
+      `Cannot mix update operators (${operatorKeys.join(', ')}) with plain fields - move the fields into $set`,
+    );
+  }
+  return operatorKeys.length > 0;
+}
+
+/**
+ * Convert an update to operator form (a plain object becomes { $set })
+ */
+export function toUpdateOperators(update: Document): Document {
+  return isOperatorUpdate(update) ? update : { $set: update };
+}
+
+/**
+ * Fields set to explicit values by an update ($set payload, or the update itself if plain)
+ */
+export function getSetFields(update: Document): Document {
+  return isOperatorUpdate(update) ? (update.$set ?? {}) : update;
+}
+
+/**
+ * Root field names touched by an update
+ *
+ * @param update - Plain or operator update
+ * @param options.excludeSet - Skip fields of the $set payload
+ */
+export function getUpdatedFields(
+  update: Document,
+  options: { excludeSet?: boolean } = {},
+): string[] {
+  if (!isOperatorUpdate(update)) {
+    return options.excludeSet ? [] : Object.keys(update).map(rootField);
+  }
+
+  const fields = new Set<string>();
+  for (const [operator, payload] of Object.entries(update)) {
+    if (options.excludeSet && operator === '$set') continue;
+    for (const [path, value] of Object.entries(payload ?? {})) {
+      fields.add(rootField(path));
+      // $rename also changes the destination field
+      if (operator === '$rename' && typeof value === 'string') {
+        fields.add(rootField(value));
+      }
+    }
+  }
+  return [...fields];
+}
+
+/**
+ * Add fields to the $set payload of an update
+ * Fields already targeted by another operator (e.g. $currentDate) are left to that operator
+ */
+export function withSetFields(update: Document, fields: Document): Document {
+  if (!isOperatorUpdate(update)) {
+    return { ...update, ...fields };
+  }
+
+  const taken = new Set(getUpdatedFields(update, { excludeSet: true }));
+  const extra = Object.fromEntries(Object.entries(fields).filter(([field]) => !taken.has(field)));
+  if (Object.keys(extra).length === 0) {
+    return update;
+  }
+  return { ...update, $set: { ...update.$set, ...extra } };
+}
+
+/**
+ * Replace the $set payload of an update (or the update itself if plain)
+ */
+export function replaceSetFields(update: Document, setFields: Document): Document {
+  if (!isOperatorUpdate(update)) {
+    return setFields;
+  }
+  const { $set: _previous, ...operators } = update;
+  return Object.keys(setFields).length > 0 ? { ...operators, $set: setFields } : operators;
+}
+
+/**
+ * Root field of a dotted path ('stats.views' → 'stats', 'tags.$' → 'tags')
+ */
+export function rootField(path: string): string {
+  return path.split('.')[0]!;
+}
@@ -10,6 +10,7 @@ import type {
   SearchConfig,
   AuditConfig,
   DefaultValue,
+  FieldAccessRule,
 } from '../types/field';
 import type { FieldConfigState } from '../types/field-config';
 
@@ -74,9 +75,10 @@ export class FieldBuilder<
   /**
    * Add an index to this field
    */
-  index(config: Omit<IndexConfig, 'type'> = {}): TSelf {
+  index(config: IndexConfig = {}): TSelf {
     this._config.index = {
       type: 'asc',
+      ...this._config.index,
       ...config,
     };
     return this as unknown as TSelf;
@@ -88,6 +90,7 @@ export class FieldBuilder<
   unique(config: Omit<IndexConfig, 'unique'> = {}): TSelf {
     this._config.index = {
       type: 'asc',
+      ...this._config.index,
       unique: true,
       ...config,
     };
@@ -110,6 +113,22 @@ export class FieldBuilder<
     return this as unknown as TSelf;
   }
 
+  /**
+   * Only return this field to contexts the rule allows (stripped from results otherwise)
+   */
+  readableBy(rule: FieldAccessRule): TSelf {
+    this._config.access = { ...this._config.access, read: rule };
+    return this as unknown as TSelf;
+  }
+
+  /**
+   * Only let contexts the rule allows update this field
+   */
+  writableBy(rule: FieldAccessRule): TSelf {
+    this._config.access = { ...this._config.access, write: rule };
+    return this as unknown as TSelf;
+  }
+
   /**
    * Mark this field as a tenant key (for multi-tenancy)
    */
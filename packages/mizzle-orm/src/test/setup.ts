@@ -1,13 +1,14 @@
 /**
  * Test setup utilities for MongoDB Memory Server
+ * Runs a single-node replica set so transactions work in tests
  */
 
 import { MongoClient, Db } from 'mongodb';
-import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
 import { mizzle } from '../orm/orm';
 import type { Mizzle } from '../types/orm';
 
-let mongoServer: MongoMemoryServer | null = null;
+let mongoServer: MongoMemoryReplSet | null = null;
 let mongoClient: MongoClient | null = null;
 let db: Db | null = null;
 let testOrms: Mizzle<any>[] = [];
@@ -18,7 +19,7 @@ let testOrms: Mizzle<any>[] = [];
 export async function setupTestDb(): Promise<{ client: MongoClient; db: Db; uri: string }> {
   // Reuse existing server if already created
   if (!mongoServer) {
-    mongoServer = await MongoMemoryServer.create();
+    mongoServer = await MongoMemoryReplSet.create({ replSet: { count: 1 } });
   }
 
   const uri = mongoServer.getUri();
@@ -3,10 +3,9 @@
  */
 
 import type { Document } from 'mongodb';
-import type { SchemaDefinition } from './field';
-// import type { IndexConfig, AuditConfig } from './field'; // Used in field definitions
+import type { SchemaDefinition, IndexConfig } from './field';
 import type { InferDocument, InferInsert, InferUpdate } from './inference';
-import type { OrmContext } from './orm';
+import type { OrmContext, ValidationConfig } from './orm';
 import type { Middleware } from './middleware';
 
 /**
@@ -34,6 +33,7 @@ export interface IndexDefBuilder {
   name(name: string): IndexDef;
   partial(filter: Record<string, unknown>): IndexDef;
   background(): IndexDef;
+  type(type: NonNullable<IndexConfig['type']>): IndexDef;
 }
 
 /**
@@ -41,6 +41,7 @@ export interface IndexDefBuilder {
  */
 export interface IndexDef {
   fields: string[];
+  type?: IndexConfig['type']; // Applied to every field (default: 'asc')
   options: {
     unique?: boolean;
     sparse?: boolean;
@@ -58,6 +59,7 @@ export enum RelationType {
   REFERENCE = 'reference',
   EMBED = 'embed',
   LOOKUP = 'lookup',
+  MANY_TO_MANY = 'manyToMany',
 }
 
 /**
@@ -68,7 +70,7 @@ export interface ReferenceRelation {
   targetCollection: string;
   localField: string;
   foreignField: string;
-  onDelete?: 'cascade' | 'restrict' | 'set-null';
+  onDelete?: 'cascade' | 'restrict' | 'set-null'; // Applied when the referenced document is deleted
   embed?: {
     field: string; // Field name where embedded data is stored
     fields: string[]; // Fields to embed from target
@@ -85,8 +87,8 @@ export interface ReverseEmbedConfig {
   enabled?: boolean;
   strategy?: 'sync' | 'async' | 'manual'; // Default: 'async'
   watchFields?: string[]; // Only trigger if these fields change
-  batchSize?: number; // Default: 100
-  maxUpdates?: number; // Default: 10000
+  batchSize?: number; // Target documents updated per write (default: 100)
+  maxUpdates?: number; // Per-run cap; the outbox worker resumes the rest (default: 10000)
 }
 
 /**
@@ -127,6 +129,12 @@ export interface ForwardEmbedConfig<
     ? Record<string, 1 | 0>
     : FieldProjection;
 
+  // ==== Computed Fields (Optional) ====
+  map?: (source: TTargetDoc, ctx: OrmContext) => Record<string, unknown>;
+  // Derived fields merged over the projected ones (the snapshot _id is kept)
+  // Example: (user) => ({ fullName: `${user.firstName} ${user.lastName}` })
+  // Background propagation (outbox worker, embed sync) passes an empty context
+
   // ==== ID Field Configuration ====
   embedIdField?: string; // Default: '_id'
   // Which field to use as _id in embedded object
@@ -135,6 +143,11 @@ export interface ForwardEmbedConfig<
   // ==== Storage (Auto-Inferred) ====
   into?: string; // Where to store embed (for separate strategy). Defaults to relation name
 
+  // ==== Snapshot Stamps (Optional) ====
+  stamp?: boolean | { revisionField?: string };
+  // Adds _embeddedAt (snapshot time) and _revision (the source's revisionField,
+  // default: 'updatedAt') to each snapshot so checkEmbeds() can detect stale embeds
+
   // ==== Reverse Updates (Optional) ====
   keepFresh?: boolean; // Shorthand for reverse: { enabled: true, strategy: 'async' }
   reverse?: ReverseEmbedConfig;
@@ -223,10 +236,38 @@ export interface LookupRelation {
   _targetCollectionDef?: CollectionDefinition<any, any>;
 }
 
+/**
+ * Many-to-many relation configuration (virtual, through a join collection)
+ * Each join document links one source document (sourceKey) to one target document (targetKey)
+ */
+export interface ManyToManyRelation {
+  type: RelationType.MANY_TO_MANY;
+  targetCollection: string;
+  through: string; // Join collection name
+  sourceKey: string; // Join field holding the source document's localField
+  targetKey: string; // Join field holding the target document's foreignField
+  localField?: string; // Default: '_id'
+  foreignField?: string; // Default: '_id'
+
+  // Default query options on the target documents (can be overridden at query time)
+  projection?: FieldProjection; // Default fields to include
+  where?: any; // Default filter (ANDed with query-time filter)
+  sort?: Record<string, 1 | -1>; // Default sort order
+  limit?: number; // Default limit
+
+  // Runtime references to the target and join collection definitions
+  _targetCollectionDef?: CollectionDefinition<any, any>;
+  _throughCollectionDef?: CollectionDefinition<any, any>;
+}
+
 /**
  * Any relation type
  */
-export type AnyRelation = ReferenceRelation | EmbedRelation<any, any> | LookupRelation;
+export type AnyRelation =
+  | ReferenceRelation
+  | EmbedRelation<any, any>
+  | LookupRelation
+  | ManyToManyRelation;
 
 /**
  * Relations definition
@@ -247,6 +288,18 @@ export type TypedRelation<
   readonly _relConfig?: TConfig; // Phantom type for tracking config (never exists at runtime)
 };
 
+/**
+ * Names of the MANY_TO_MANY relations of a collection (see attach/detach/sync)
+ */
+export type ManyToManyRelationKeys<TRelationTargets> = {
+  [K in keyof TRelationTargets]: TRelationTargets[K] extends {
+    type: RelationType.MANY_TO_MANY;
+  }
+    ? K
+    : never;
+}[keyof TRelationTargets] &
+  string;
+
 /**
  * Extract relation targets from a typed relations object
  * Now preserves the full TypedRelation for better type inference
@@ -287,12 +340,20 @@ export interface PolicyBuilder<TSchema extends SchemaDefinition> {
   canDelete(fn: (ctx: OrmContext, doc: InferDocument<TSchema>) => boolean | Promise<boolean>): this;
 }
 
+/**
+ * Ownership settings for collections with an .ownerKey() field
+ */
+export interface OwnershipPolicy {
+  bypassRoles?: string[]; // Roles (ctx.user.roles) allowed to write and transfer documents they do not own
+}
+
 /**
  * Policy configuration
  */
 export interface PolicyConfig<TSchema extends SchemaDefinition> {
   readFilter?: PolicyFilterFn;
   writeFilter?: PolicyFilterFn;
+  ownership?: OwnershipPolicy;
   canInsert?: (ctx: OrmContext, doc: InferInsert<TSchema>) => boolean | Promise<boolean>;
   canUpdate?: (
     ctx: OrmContext,
@@ -323,6 +384,24 @@ export interface Hooks<TSchema extends SchemaDefinition> {
   ) => void | Promise<void>;
   beforeDelete?: (ctx: OrmContext, doc: InferDocument<TSchema>) => void | Promise<void>;
   afterDelete?: (ctx: OrmContext, doc: InferDocument<TSchema>) => void | Promise<void>;
+
+  // Bulk hooks (updateMany/deleteMany in 'set' mode, see BulkWriteConfig)
+  beforeUpdateMany?: (
+    ctx: OrmContext,
+    filter: Document,
+    update: Document,
+  ) => Document | Promise<Document>;
+  afterUpdateMany?: (
+    ctx: OrmContext,
+    filter: Document,
+    modifiedCount: number,
+  ) => void | Promise<void>;
+  beforeDeleteMany?: (ctx: OrmContext, filter: Document) => void | Promise<void>;
+  afterDeleteMany?: (
+    ctx: OrmContext,
+    filter: Document,
+    deletedCount: number,
+  ) => void | Promise<void>;
 }
 
 /**
@@ -354,6 +433,21 @@ export interface HookBuilder<TSchema extends SchemaDefinition> {
   afterDelete(fn: (ctx: OrmContext, doc: InferDocument<TSchema>) => void | Promise<void>): this;
 }
 
+/**
+ * How updateMany/deleteMany apply hooks, policies and embed side effects
+ * - 'set' (default): bulk hooks run once per call with the final filter and update
+ * - 'per-document': matching documents are loaded in batches and beforeUpdate/canUpdate/
+ *   afterUpdate (or beforeDelete/canDelete/afterDelete) run for each one
+ * updateMany always runs per document when canUpdate is declared (deleteMany: canDelete),
+ * so those policies are never skipped
+ * Both modes refresh reverse embeds and apply onSourceDelete for every affected document
+ */
+export interface BulkWriteConfig {
+  mode?: 'set' | 'per-document';
+  concurrency?: number; // Parallel hook calls in 'per-document' mode (default: 10, 1 in transactions)
+  batchSize?: number; // Documents loaded per batch (default: 100)
+}
+
 /**
  * Collection-level audit configuration
  */
@@ -381,6 +475,8 @@ export interface CollectionOptions<
   audit?: CollectionAuditConfig;
   hooks?: Hooks<TSchema>;
   middlewares?: Middleware[];
+  validation?: ValidationConfig; // Overrides the global validation config
+  bulkWrites?: BulkWriteConfig;
 }
 
 /**
@@ -399,6 +495,8 @@ export interface CollectionMeta<
   audit: CollectionAuditConfig;
   hooks: Hooks<TSchema>;
   middlewares: Middleware[];
+  validation?: ValidationConfig;
+  bulkWrites?: BulkWriteConfig;
 }
 
 /**
@@ -2,8 +2,9 @@
  * Core field type definitions and builder interfaces
  */
 
-import type { ObjectId, Decimal128, Binary } from 'mongodb';
+import type { ObjectId, Decimal128, Binary, Document } from 'mongodb';
 import type { FieldConfigState, EmptyConfig } from './field-config';
+import type { OrmContext } from './orm';
 // import type { z } from 'zod'; // Will be used for validation later
 
 /**
@@ -61,6 +62,20 @@ export interface AuditConfig {
   trackChanges?: boolean;
 }
 
+/**
+ * Field-level access rule
+ * Receives the stored document when one is available (reads, single-document updates)
+ */
+export type FieldAccessRule = (ctx: OrmContext, doc?: Document) => boolean;
+
+/**
+ * Field-level read/write permissions
+ */
+export interface FieldAccessConfig {
+  read?: FieldAccessRule;
+  write?: FieldAccessRule;
+}
+
 /**
  * Default value configuration
  */
@@ -77,6 +92,7 @@ export interface FieldConfig<TType = unknown> {
   index?: IndexConfig;
   search?: SearchConfig;
   audit?: AuditConfig;
+  access?: FieldAccessConfig;
 
   // Special field markers
   isInternalId?: boolean; // _id field
@@ -159,7 +175,7 @@ export interface BaseFieldBuilder<TType, TConfig extends FieldConfigState, TSelf
   ): BaseFieldBuilder<TType, TConfig & { hasDefault: true }, TSelf>;
 
   // Indexing
-  index(config?: Omit<IndexConfig, 'type'>): TSelf;
+  index(config?: IndexConfig): TSelf;
   unique(config?: Omit<IndexConfig, 'unique'>): TSelf;
 
   // Search
@@ -168,6 +184,10 @@ export interface BaseFieldBuilder<TType, TConfig extends FieldConfigState, TSelf
   // Audit
   audit(config: AuditConfig): TSelf;
 
+  // Field-level permissions
+  readableBy(rule: FieldAccessRule): TSelf;
+  writableBy(rule: FieldAccessRule): TSelf;
+
   // Special markers
   tenantKey(): BaseFieldBuilder<TType, TConfig & { isTenantKey: true }, TSelf>;
   ownerKey(): BaseFieldBuilder<TType, TConfig & { isOwnerKey: true }, TSelf>;
@@ -26,6 +26,20 @@ type ExtractTarget<TRelation> = TRelation extends { _targetCollection?: infer T
  */
 type ExtractIdType<TDoc> = TDoc extends { _id: infer TId } ? TId : any;
 
+/**
+ * Keys selected with 1/true (ignoring _id)
+ */
+type InclusiveKeys<TSelect> = {
+  [K in keyof TSelect]: K extends '_id' ? never : TSelect[K] extends 0 | false ? never : K;
+}[keyof TSelect];
+
+/**
+ * Keys excluded with 0/false
+ */
+type ExcludedKeys<TSelect> = {
+  [K in keyof TSelect]: TSelect[K] extends 0 | false ? K : never;
+}[keyof TSelect];
+
 /**
  * Apply field projection to a document type
  * Supports MongoDB projection syntax:
@@ -35,23 +49,26 @@ type ExtractIdType<TDoc> = TDoc extends { _id: infer TId } ? TId : any;
  * Note: MongoDB always includes _id unless explicitly excluded with _id: 0
  * Nested paths like 'profile.avatar' work at runtime but have limited type safety
  */
-type ApplyFieldSelection<TDoc, TSelect> = TSelect extends Record<string, any>
-  ? // MongoDB projection syntax: { name: 1, email: 1, password: 0 }
-    {
-      // Include fields marked with 1 or true
-      [K in keyof TDoc as K extends keyof TSelect
-        ? TSelect[K] extends 0 | false
-          ? never
-          : K
-        : never]: TDoc[K];
-    } & {
-      // Always include _id unless explicitly excluded with _id: 0
-      _id: '_id' extends keyof TSelect
-        ? TSelect['_id'] extends 0 | false
-          ? never
-          : ExtractIdType<TDoc>
-        : ExtractIdType<TDoc>;
-    }
+export type ApplyFieldSelection<TDoc, TSelect> = TSelect extends Record<string, any>
+  ? [InclusiveKeys<TSelect>] extends [never]
+    ? // Exclusion (or empty) projection: { password: 0 }
+      Omit<TDoc, ExcludedKeys<TSelect>>
+    : // Inclusion projection: { name: 1, email: 1 }
+      {
+        // Include fields marked with 1 or true
+        [K in keyof TDoc as K extends keyof TSelect
+          ? TSelect[K] extends 0 | false
+            ? never
+            : K
+          : never]: TDoc[K];
+      } & {
+        // Always include _id unless explicitly excluded with _id: 0
+        _id: '_id' extends keyof TSelect
+          ? TSelect['_id'] extends 0 | false
+            ? never
+            : ExtractIdType<TDoc>
+          : ExtractIdType<TDoc>;
+      }
   : TDoc; // No projection specified: return full document
 
 /**
@@ -121,6 +138,15 @@ export type IncludeConfig<TRelationTargets extends RelationTargets> =
         | NestedIncludeConfig<TRelationTargets[K]>;
     };
 
+/**
+ * Many-to-many relations populate an array of target documents
+ */
+type WrapRelationCardinality<TRelation, TPopulated> = TRelation extends {
+  type: RelationType.MANY_TO_MANY;
+}
+  ? Array<NonNullable<TPopulated>>
+  : TPopulated;
+
 /**
  * Add a single populated relation field to a document type
  * Handles both field projection and nested includes
@@ -133,7 +159,7 @@ type AddPopulatedField<
   TConfig,
 > = ExtractTarget<TRelation> extends CollectionDefinition<infer TSchema, infer TNestedRelations>
   ? TDoc & {
-      [K in TRelationName]: (
+      [K in TRelationName]: WrapRelationCardinality<TRelation, (
         TConfig extends true
           ? // Check if relation has a default projection
             ExtractDefaultProjection<TRelation> extends infer TDefaultProj
@@ -154,7 +180,7 @@ type AddPopulatedField<
               : TConfig extends { projection: any }
                 ? ApplyFieldSelection<InferDocument<CollectionDefinition<TSchema, TNestedRelations>>, TConfig['projection']>
                 : InferDocument<CollectionDefinition<TSchema, TNestedRelations>> | null
-      );
+      )>;
     }
   : TDoc & {
       [K in TRelationName]: any;
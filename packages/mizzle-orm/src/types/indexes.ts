@@ -0,0 +1,77 @@
+/**
+ * Index synchronization types
+ */
+
+/**
+ * Value of a single key in an index specification
+ */
+export type IndexKeyValue = 1 | -1 | 'text' | '2dsphere' | 'hashed';
+
+/**
+ * Resolved index specification (what gets sent to createIndexes)
+ */
+export interface IndexSpec {
+  name: string;
+  key: Record<string, IndexKeyValue>;
+  options: {
+    unique?: boolean;
+    sparse?: boolean;
+    expireAfterSeconds?: number;
+    partialFilterExpression?: Record<string, unknown>;
+    background?: boolean;
+  };
+}
+
+/**
+ * Action planned for a single index
+ * - create: declared in the schema but missing from the database
+ * - drop: exists in the database but is not declared (only with dropUnknown)
+ * - rebuild: declared, but the existing index has a different key or options
+ * - unchanged: declared and already up to date
+ * - unmanaged: exists in the database but is not declared (kept)
+ */
+export type IndexAction = 'create' | 'drop' | 'rebuild' | 'unchanged' | 'unmanaged';
+
+/**
+ * A single entry of an index sync plan
+ */
+export interface IndexPlanEntry {
+  action: IndexAction;
+  name: string;
+  key: Record<string, unknown>;
+  spec?: IndexSpec; // Declared spec (create, rebuild, unchanged)
+  existing?: Record<string, unknown>; // Index as reported by listIndexes (drop, rebuild, unchanged, unmanaged)
+  reason?: string; // Why a rebuild is needed
+}
+
+/**
+ * Index sync plan/report for one collection
+ */
+export interface CollectionIndexReport {
+  collection: string;
+  entries: IndexPlanEntry[];
+}
+
+/**
+ * Options for db.syncIndexes()
+ */
+export interface SyncIndexesOptions {
+  dryRun?: boolean; // Compute the plan without touching the database (default: false)
+  dropUnknown?: boolean; // Drop indexes that are not declared in the schema (default: false)
+  collections?: string[]; // Only sync these collections (default: all)
+}
+
+/**
+ * Result of db.syncIndexes()
+ */
+export interface IndexSyncReport {
+  dryRun: boolean;
+  collections: CollectionIndexReport[];
+  summary: {
+    created: number;
+    dropped: number;
+    rebuilt: number;
+    unchanged: number;
+    unmanaged: number;
+  };
+}
@@ -73,6 +73,17 @@ type ExtractEmbedProjection<TConfig> = TConfig extends { forward: { projection:
     ? TProj
     : never;
 
+/**
+ * Extract the computed fields returned by the embed config's map()
+ */
+type ExtractEmbedMap<TConfig> = TConfig extends {
+  forward?: { map?: (...args: any[]) => infer TMapped };
+}
+  ? [unknown] extends [TMapped]
+    ? {}
+    : Omit<TMapped, '_id'>
+  : {};
+
 /**
  * Apply field projection to embedded document type
  * Similar to ApplyFieldSelection but always converts _id to string
@@ -104,13 +115,13 @@ type EmbeddedDocType<TTarget, TRel = never, TConfig = never> = TTarget extends C
   ? [TRel] extends [never]
     ? // No relation config provided, return all fields
       Partial<Omit<InferDocument<TTarget>, '_id'>> & { _id: string }
-    : // Apply field projection from config
+    : // Apply field projection from config, plus computed fields from map()
       ExtractEmbedProjection<TConfig> extends infer TProj
       ? [TProj] extends [never]
         ? // No projection specified, return all fields
-          Partial<Omit<InferDocument<TTarget>, '_id'>> & { _id: string }
+          Partial<Omit<InferDocument<TTarget>, '_id'>> & { _id: string } & ExtractEmbedMap<TConfig>
         : // Apply field projection
-          ApplyEmbedFieldProjection<InferDocument<TTarget>, TProj>
+          ApplyEmbedFieldProjection<InferDocument<TTarget>, TProj> & ExtractEmbedMap<TConfig>
       : never
   : never;
 
@@ -204,8 +215,9 @@ type IsOptional<T extends AnyFieldBuilder> = T extends { _configState: { optiona
 
 /**
  * Helper to check if a field has a default value
- * Now checks the type-level _configState for hasDefault, hasDefaultNow, hasOnUpdateNow, or isSoftDeleteFlag
+ * Now checks the type-level _configState for hasDefault, hasDefaultNow, hasOnUpdateNow, isSoftDeleteFlag, isTenantKey or isOwnerKey
  * Soft delete flags implicitly default to null when creating records
+ * Tenant and owner keys are stamped from ctx.tenantId and ctx.user.id
  */
 type HasDefault<T extends AnyFieldBuilder> = T extends {
   _configState: { hasDefault: true };
@@ -217,7 +229,11 @@ type HasDefault<T extends AnyFieldBuilder> = T extends {
       ? true
       : T extends { _configState: { isSoftDeleteFlag: true } }
         ? true
-        : false;
+        : T extends { _configState: { isTenantKey: true } }
+          ? true
+          : T extends { _configState: { isOwnerKey: true } }
+            ? true
+            : false;
 
 /**
  * Helper to check if a field is auto-generated (like _id or publicId)
@@ -325,26 +341,66 @@ export type FilterOperators<T> = {
   $options?: string;
 };
 
+/**
+ * Keys of T whose (non-nullable) value type extends V
+ */
+type KeysMatching<T, V> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends V ? K : never;
+}[keyof T];
+
+/**
+ * Element type of an array field
+ */
+type ArrayElement<T> = NonNullable<T> extends readonly (infer E)[] ? E : never;
+
+/**
+ * $push modifiers
+ */
+export type PushModifiers<E> = {
+  $each: E[];
+  $position?: number;
+  $slice?: number;
+  $sort?: 1 | -1 | Record<string, 1 | -1>;
+};
+
+/**
+ * $pull condition - a value to remove or a condition on the array elements
+ */
+export type PullCondition<E> = E | (E extends Record<string, any> ? Filter<E> : FilterOperators<E>);
+
 /**
  * MongoDB update operators
  */
 export type UpdateOperators<T> = {
   $set?: Partial<T>;
   $unset?: { [K in keyof T]?: '' | 1 | true };
-  $inc?: { [K in keyof T]?: number };
-  $mul?: { [K in keyof T]?: number };
+  $inc?: { [K in KeysMatching<T, number>]?: number };
+  $mul?: { [K in KeysMatching<T, number>]?: number };
   $rename?: { [K in keyof T]?: string };
   $min?: Partial<T>;
   $max?: Partial<T>;
   $currentDate?: {
-    [K in keyof T]?: true | { $type: 'date' | 'timestamp' };
+    [K in KeysMatching<T, Date>]?: true | { $type: 'date' | 'timestamp' };
   };
-  $push?: any;
-  $pull?: any;
-  $addToSet?: any;
-  $pop?: any;
+  $push?: {
+    [K in KeysMatching<T, readonly unknown[]>]?:
+      | ArrayElement<T[K]>
+      | PushModifiers<ArrayElement<T[K]>>;
+  };
+  $addToSet?: {
+    [K in KeysMatching<T, readonly unknown[]>]?: ArrayElement<T[K]> | { $each: ArrayElement<T[K]>[] };
+  };
+  $pull?: {
+    [K in KeysMatching<T, readonly unknown[]>]?: PullCondition<ArrayElement<T[K]>>;
+  };
+  $pop?: { [K in KeysMatching<T, readonly unknown[]>]?: 1 | -1 };
 };
 
+/**
+ * Update payload accepted by facade updates - a partial document ($set) or update operators
+ */
+export type UpdateData<TUpdate> = TUpdate | UpdateOperators<TUpdate>;
+
 /**
  * Sort direction
  */
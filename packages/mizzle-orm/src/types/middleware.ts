@@ -9,26 +9,46 @@ export type Operation =
   | 'findOne'
   | 'findById'
   | 'findMany'
+  | 'findPage'
+  | 'stream'
   | 'create'
   | 'insertMany'
   | 'update'
   | 'updateById'
   | 'updateMany'
+  | 'upsert'
   | 'delete'
   | 'deleteById'
   | 'deleteMany'
   | 'softDelete'
   | 'restore'
+  | 'softDeleteMany'
+  | 'restoreMany'
+  | 'purgeDeleted'
+  | 'transferOwnership'
+  | 'attach'
+  | 'detach'
+  | 'sync'
   | 'aggregate'
   | 'count';
 
 /**
  * Read operations (queries that don't modify data)
  */
-export type ReadOperation = Extract<
-  Operation,
-  'findOne' | 'findById' | 'findMany' | 'aggregate' | 'count'
->;
+export const READ_OPERATIONS = [
+  'findOne',
+  'findById',
+  'findMany',
+  'findPage',
+  'stream',
+  'aggregate',
+  'count',
+] as const satisfies readonly Operation[];
+
+/**
+ * Read operations (queries that don't modify data)
+ */
+export type ReadOperation = (typeof READ_OPERATIONS)[number];
 
 /**
  * Write operations (queries that modify data)
@@ -130,9 +150,7 @@ export type ConditionalMiddleware = {
  * Type guard to check if operation is a read operation
  */
 export function isReadOperation(op: Operation): op is ReadOperation {
-  return ['findOne', 'findById', 'findMany', 'aggregate', 'count'].includes(
-    op,
-  );
+  return (READ_OPERATIONS as readonly Operation[]).includes(op);
 }
 
 /**
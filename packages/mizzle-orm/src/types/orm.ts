@@ -2,11 +2,32 @@
  * ORM configuration and context types
  */
 
-import type { MongoClient, ClientSession, ObjectId } from 'mongodb';
-import type { RelationTargets, CollectionDefinition } from './collection';
-import type { IncludeConfig, WithIncluded } from './include';
-import type { Filter, InferDocument, InferInsert, InferUpdate } from './inference';
+import type {
+  MongoClient,
+  ClientSession,
+  ObjectId,
+  ReadConcernLike,
+  ReadPreferenceLike,
+  WriteConcern,
+} from 'mongodb';
+import type {
+  RelationTargets,
+  CollectionDefinition,
+  ManyToManyRelationKeys,
+} from './collection';
+import type { ApplyFieldSelection, IncludeConfig, WithIncluded } from './include';
+import type {
+  Filter,
+  InferDocument,
+  InferInsert,
+  InferUpdate,
+  Projection,
+  UpdateData,
+} from './inference';
 import type { Middleware } from './middleware';
+import type { IndexSyncReport, SyncIndexesOptions } from './indexes';
+import type { EmbedWorker } from '../query/embed-outbox';
+import type { EmbedSync, EmbedSyncOptions } from '../query/embed-sync';
 
 /**
  * User context for RLS and audit
@@ -51,11 +72,15 @@ export type OrmMiddleware = Middleware;
 
 /**
  * Validation strategy
+ * - none: no automatic validation
+ * - zod: validate the payload (insert/update data, or documents read)
+ * - both: additionally validate the complete document before it is written
  */
 export type ValidationStrategy = 'none' | 'zod' | 'both';
 
 /**
  * Validation configuration
+ * Set globally on mizzle() and overridable per collection
  */
 export interface ValidationConfig {
   onWrite?: ValidationStrategy;
@@ -71,12 +96,35 @@ export interface AuditOrmConfig {
   defaultRetentionDays?: number;
 }
 
+/**
+ * Cursor pagination configuration
+ */
+export interface PaginationConfig {
+  cursorSecret?: string; // HMAC secret for cursors (default: random per process - set it when running several instances)
+}
+
 /**
  * Dev guardrails configuration
+ * Filters of findOne/findMany/count/updateMany/deleteMany are explained and
+ * collection scans (COLLSCAN) are reported
  */
 export interface DevGuardrailsConfig {
-  requireIndexedQueries?: boolean;
-  warnOnUnindexed?: boolean;
+  requireIndexedQueries?: boolean; // Throw UnindexedQueryError on a collection scan
+  warnOnUnindexed?: boolean; // Log a warning on a collection scan
+  enableInProduction?: boolean; // Keep the checks on when NODE_ENV is 'production' (default: false)
+  logger?: { warn: (message: string, ...args: any[]) => void }; // Default: console
+}
+
+/**
+ * Durable outbox for reverse embeds with strategy: 'async' (drained by db.embedWorker)
+ */
+export interface EmbedOutboxConfig {
+  collection?: string; // Default: '_mizzle_embed_outbox'
+  maxAttempts?: number; // Failed attempts before an entry is dead-lettered (default: 5)
+  backoff?: (attempt: number) => number; // ms before the given retry (default: 1000 * 2^attempt)
+  lockTimeout?: number; // ms before entries of a crashed worker are retried (default: 60000)
+  warnWithoutWorker?: boolean; // Warn when entries are queued but no worker runs (default: true)
+  logger?: { warn: (message: string, ...args: any[]) => void }; // Default: console
 }
 
 /**
@@ -91,6 +139,8 @@ export interface OrmConfig<TCollections = Record<string, CollectionDefinition>>
   validation?: ValidationConfig;
   audit?: AuditOrmConfig;
   devGuardrails?: DevGuardrailsConfig;
+  pagination?: PaginationConfig;
+  embedOutbox?: EmbedOutboxConfig;
 
   // MongoDB client (provide for connection pooling)
   client?: MongoClient;
@@ -99,17 +149,122 @@ export interface OrmConfig<TCollections = Record<string, CollectionDefinition>>
   clientOptions?: Parameters<typeof MongoClient.connect>[1];
 }
 
+/**
+ * Soft-delete visibility for reads on collections with a .softDeleteFlag() field
+ * Deleted documents are excluded by default
+ */
+export interface SoftDeleteOptions {
+  withDeleted?: boolean; // Include soft-deleted documents (also in include lookups)
+  onlyDeleted?: boolean; // Return only soft-deleted documents
+}
+
+/**
+ * Options for purgeDeleted
+ */
+export interface PurgeDeletedOptions {
+  olderThan?: Date; // Only purge documents soft-deleted before this date
+}
+
+/**
+ * Options for softDeleteMany / restoreMany
+ */
+export interface SoftDeleteManyOptions {
+  cascade?: boolean; // Also soft delete (or restore) documents embedding these via onSourceDelete: 'cascade'
+  batchSize?: number; // Documents checked and written per batch (default: bulkWrites.batchSize)
+}
+
+/**
+ * Result of softDeleteMany / restoreMany
+ */
+export interface SoftDeleteManyResult {
+  modified: number; // Documents soft-deleted or restored in this collection
+  cascaded: Record<string, number>; // Documents soft-deleted or restored per embedding collection
+}
+
 /**
  * Query options for find operations
  */
-export interface QueryOptions<TRelationTargets extends RelationTargets = {}> {
+export interface QueryOptions<TRelationTargets extends RelationTargets = {}>
+  extends SoftDeleteOptions {
   sort?: Record<string, 1 | -1>;
   limit?: number;
   skip?: number;
   include?: IncludeConfig<TRelationTargets>;
+  select?: Record<string, 0 | 1 | boolean>; // Root projection (e.g. { name: 1, email: 1 } or { password: 0 })
   refreshEmbeds?: Array<keyof TRelationTargets & string>; // Re-fetch fresh embed data (read-only, not persisted)
 }
 
+/**
+ * Root projection of a query, typed against the document
+ * Nested paths like 'profile.avatar' are accepted but not reflected in the result type
+ */
+export type SelectConfig<TDoc> = Projection<TDoc> & {
+  [path: `${string}.${string}`]: 0 | 1 | boolean;
+};
+
+/**
+ * Options for streaming reads
+ */
+export interface StreamOptions<TRelationTargets extends RelationTargets = {}>
+  extends QueryOptions<TRelationTargets> {
+  batchSize?: number; // Documents fetched per round-trip and processed per batch (default: 100)
+}
+
+/**
+ * Options for cursor pagination (findPage)
+ */
+export interface FindPageOptions<TRelationTargets extends RelationTargets = {}>
+  extends Omit<QueryOptions<TRelationTargets>, 'skip' | 'limit'> {
+  first?: number; // Page size (default: 20)
+  after?: string | null; // endCursor of the previous page
+}
+
+/**
+ * Pagination state of a page
+ */
+export interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null; // Pass as `after` to fetch the next page (null for an empty page)
+}
+
+/**
+ * A page of documents returned by findPage
+ */
+export interface Page<TDoc> {
+  items: TDoc[];
+  pageInfo: PageInfo;
+}
+
+/**
+ * Options for createMany
+ */
+export interface CreateManyOptions {
+  ordered?: boolean; // Stop at the first failed insert (default: true)
+}
+
+/**
+ * Options for updateOne
+ */
+export interface UpdateOneOptions {
+  upsert?: boolean; // Create the document from the update data if none matches (default: false)
+}
+
+/**
+ * Data for both branches of an upsert
+ */
+export interface UpsertData<TInsert = any, TUpdate = any> {
+  create: TInsert; // Used when no document matches (defaults are applied)
+  update: TUpdate; // Used when a document matches
+}
+
+/**
+ * Result of an upsert
+ */
+export interface UpsertResult<TDoc = any> {
+  doc: TDoc;
+  inserted: boolean; // true if the document was created, false if it was updated
+}
+
 /**
  * Options for manual embed refresh
  */
@@ -117,6 +272,10 @@ export interface RefreshEmbedsOptions<TDoc = any> {
   filter?: Filter<TDoc>; // Optional filter for which documents to refresh
   batchSize?: number; // Process in batches (default: 100)
   dryRun?: boolean; // Preview changes without persisting (default: false)
+  onlyStale?: boolean; // Only rewrite documents with stale or missing snapshots (see checkEmbeds)
+  concurrency?: number; // Batches refreshed in parallel (default: 1, always 1 in a transaction)
+  checkpoint?: string; // Save progress under this name; a rerun with the same name resumes
+  onProgress?: (progress: RefreshProgress) => void | Promise<void>; // Called after each batch
 }
 
 /**
@@ -125,8 +284,74 @@ export interface RefreshEmbedsOptions<TDoc = any> {
 export interface RefreshStats {
   matched: number; // Documents that matched the filter
   updated: number; // Documents successfully updated
-  errors: number; // Errors encountered
-  skipped: number; // Documents skipped (source not found)
+  errors: RefreshError[]; // Documents that could not be refreshed
+  skipped: number; // Documents skipped (source not found, or up to date with onlyStale)
+}
+
+/**
+ * Document that failed to refresh
+ */
+export interface RefreshError {
+  _id: unknown;
+  error: string;
+}
+
+/**
+ * Refresh statistics so far and the last _id processed (every earlier document is done)
+ */
+export interface RefreshProgress extends RefreshStats {
+  lastId: unknown;
+}
+
+/**
+ * Options for attach() and sync()
+ */
+export interface AttachOptions {
+  data?: Record<string, unknown>; // Extra fields of the created join documents (e.g. a role)
+}
+
+/**
+ * Result of sync()
+ */
+export interface SyncRelationResult {
+  attached: number; // Join documents created
+  detached: number; // Join documents deleted
+}
+
+/**
+ * Options for checkEmbeds()
+ */
+export interface CheckEmbedsOptions<TDoc = any> {
+  filter?: Filter<TDoc>; // Documents to check (default: all)
+  batchSize?: number; // Documents checked per batch (default: 100)
+  limit?: number; // Max issues listed in the report; counts are always complete (default: 100)
+}
+
+/**
+ * Embedded snapshot problem
+ * - stale: differs from its source (by _revision when stamped)
+ * - orphaned: the source document no longer exists
+ * - missing: the document references a source but holds no snapshot of it
+ */
+export type EmbedIssueStatus = 'stale' | 'orphaned' | 'missing';
+
+export interface EmbedIssue {
+  _id: unknown; // Document holding the embed
+  sourceId: string; // Referenced source document
+  status: EmbedIssueStatus;
+}
+
+/**
+ * Snapshot health of an embed relation (counts are per referenced source)
+ */
+export interface EmbedCheckReport {
+  relation: string;
+  checked: number; // Documents checked
+  healthy: number;
+  stale: number;
+  orphaned: number;
+  missing: number;
+  issues: EmbedIssue[]; // First `limit` issues
 }
 
 /**
@@ -134,29 +359,83 @@ export interface RefreshStats {
  */
 export interface CollectionFacade<TDoc = any, TInsert = any, TUpdate = any, TRelationTargets extends RelationTargets = {}> {
   // Basic queries
+  findById<TInclude extends IncludeConfig<TRelationTargets>, TSelect extends SelectConfig<TDoc>>(
+    id: string | ObjectId,
+    options: QueryOptions<TRelationTargets> & { include: TInclude; select: TSelect },
+  ): Promise<WithIncluded<ApplyFieldSelection<TDoc, TSelect>, TInclude, TRelationTargets> | null>;
+  findById<TSelect extends SelectConfig<TDoc>>(
+    id: string | ObjectId,
+    options: Omit<QueryOptions<TRelationTargets>, 'include'> & { select: TSelect },
+  ): Promise<ApplyFieldSelection<TDoc, TSelect> | null>;
   findById(id: string | ObjectId, options?: Omit<QueryOptions<TRelationTargets>, 'include'>): Promise<TDoc | null>;
   findById<TInclude extends IncludeConfig<TRelationTargets>>(
     id: string | ObjectId,
     options: QueryOptions<TRelationTargets> & { include: TInclude },
   ): Promise<WithIncluded<TDoc, TInclude, TRelationTargets> | null>;
 
+  findOne<TInclude extends IncludeConfig<TRelationTargets>, TSelect extends SelectConfig<TDoc>>(
+    filter: Filter<TDoc>,
+    options: QueryOptions<TRelationTargets> & { include: TInclude; select: TSelect },
+  ): Promise<WithIncluded<ApplyFieldSelection<TDoc, TSelect>, TInclude, TRelationTargets> | null>;
+  findOne<TSelect extends SelectConfig<TDoc>>(
+    filter: Filter<TDoc>,
+    options: Omit<QueryOptions<TRelationTargets>, 'include'> & { select: TSelect },
+  ): Promise<ApplyFieldSelection<TDoc, TSelect> | null>;
   findOne(filter: Filter<TDoc>, options?: Omit<QueryOptions<TRelationTargets>, 'include'>): Promise<TDoc | null>;
   findOne<TInclude extends IncludeConfig<TRelationTargets>>(
     filter: Filter<TDoc>,
     options: QueryOptions<TRelationTargets> & { include: TInclude },
   ): Promise<WithIncluded<TDoc, TInclude, TRelationTargets> | null>;
 
+  findMany<TInclude extends IncludeConfig<TRelationTargets>, TSelect extends SelectConfig<TDoc>>(
+    filter: Filter<TDoc> | undefined,
+    options: QueryOptions<TRelationTargets> & { include: TInclude; select: TSelect },
+  ): Promise<WithIncluded<ApplyFieldSelection<TDoc, TSelect>, TInclude, TRelationTargets>[]>;
+  findMany<TSelect extends SelectConfig<TDoc>>(
+    filter: Filter<TDoc> | undefined,
+    options: Omit<QueryOptions<TRelationTargets>, 'include'> & { select: TSelect },
+  ): Promise<ApplyFieldSelection<TDoc, TSelect>[]>;
   findMany(filter?: Filter<TDoc>, options?: Omit<QueryOptions<TRelationTargets>, 'include'>): Promise<TDoc[]>;
   findMany<TInclude extends IncludeConfig<TRelationTargets>>(
     filter: Filter<TDoc> | undefined,
     options: QueryOptions<TRelationTargets> & { include: TInclude },
   ): Promise<WithIncluded<TDoc, TInclude, TRelationTargets>[]>;
 
+  findPage<TInclude extends IncludeConfig<TRelationTargets>, TSelect extends SelectConfig<TDoc>>(
+    filter: Filter<TDoc> | undefined,
+    options: FindPageOptions<TRelationTargets> & { include: TInclude; select: TSelect },
+  ): Promise<Page<WithIncluded<ApplyFieldSelection<TDoc, TSelect>, TInclude, TRelationTargets>>>;
+  findPage<TSelect extends SelectConfig<TDoc>>(
+    filter: Filter<TDoc> | undefined,
+    options: Omit<FindPageOptions<TRelationTargets>, 'include'> & { select: TSelect },
+  ): Promise<Page<ApplyFieldSelection<TDoc, TSelect>>>;
+  findPage(filter?: Filter<TDoc>, options?: Omit<FindPageOptions<TRelationTargets>, 'include'>): Promise<Page<TDoc>>;
+  findPage<TInclude extends IncludeConfig<TRelationTargets>>(
+    filter: Filter<TDoc> | undefined,
+    options: FindPageOptions<TRelationTargets> & { include: TInclude },
+  ): Promise<Page<WithIncluded<TDoc, TInclude, TRelationTargets>>>;
+
+  stream<TInclude extends IncludeConfig<TRelationTargets>, TSelect extends SelectConfig<TDoc>>(
+    filter: Filter<TDoc> | undefined,
+    options: StreamOptions<TRelationTargets> & { include: TInclude; select: TSelect },
+  ): AsyncIterable<WithIncluded<ApplyFieldSelection<TDoc, TSelect>, TInclude, TRelationTargets>>;
+  stream<TSelect extends SelectConfig<TDoc>>(
+    filter: Filter<TDoc> | undefined,
+    options: Omit<StreamOptions<TRelationTargets>, 'include'> & { select: TSelect },
+  ): AsyncIterable<ApplyFieldSelection<TDoc, TSelect>>;
+  stream(filter?: Filter<TDoc>, options?: Omit<StreamOptions<TRelationTargets>, 'include'>): AsyncIterable<TDoc>;
+  stream<TInclude extends IncludeConfig<TRelationTargets>>(
+    filter: Filter<TDoc> | undefined,
+    options: StreamOptions<TRelationTargets> & { include: TInclude },
+  ): AsyncIterable<WithIncluded<TDoc, TInclude, TRelationTargets>>;
+
   // Mutations
   create(data: TInsert): Promise<TDoc>;
-  updateById(id: string | ObjectId, data: TUpdate): Promise<TDoc | null>;
-  updateOne(filter: Filter<TDoc>, data: TUpdate): Promise<TDoc | null>;
-  updateMany(filter: Filter<TDoc>, data: TUpdate): Promise<number>;
+  createMany(data: TInsert[], options?: CreateManyOptions): Promise<TDoc[]>;
+  updateById(id: string | ObjectId, data: UpdateData<TUpdate>): Promise<TDoc | null>;
+  updateOne(filter: Filter<TDoc>, data: UpdateData<TUpdate>, options?: UpdateOneOptions): Promise<TDoc | null>;
+  upsert(filter: Filter<TDoc>, data: UpsertData<TInsert, UpdateData<TUpdate>>): Promise<UpsertResult<TDoc>>;
+  updateMany(filter: Filter<TDoc>, data: UpdateData<TUpdate>): Promise<number>;
   deleteById(id: string | ObjectId): Promise<boolean>;
   deleteOne(filter: Filter<TDoc>): Promise<boolean>;
   deleteMany(filter: Filter<TDoc>): Promise<number>;
@@ -164,9 +443,34 @@ export interface CollectionFacade<TDoc = any, TInsert = any, TUpdate = any, TRel
   // Soft delete
   softDelete(id: string | ObjectId): Promise<TDoc | null>;
   restore(id: string | ObjectId): Promise<TDoc | null>;
+  softDeleteMany(filter: Filter<TDoc>, options?: SoftDeleteManyOptions): Promise<SoftDeleteManyResult>;
+  restoreMany(filter: Filter<TDoc>, options?: SoftDeleteManyOptions): Promise<SoftDeleteManyResult>;
+  purgeDeleted(options?: PurgeDeletedOptions): Promise<number>;
+
+  // Ownership
+  transferOwnership(id: string | ObjectId, newOwnerId: string | ObjectId): Promise<TDoc | null>;
+
+  // Many-to-many links
+  attach(
+    id: string | ObjectId,
+    relationName: ManyToManyRelationKeys<TRelationTargets>,
+    targetIds: Array<string | ObjectId>,
+    options?: AttachOptions
+  ): Promise<number>;
+  detach(
+    id: string | ObjectId,
+    relationName: ManyToManyRelationKeys<TRelationTargets>,
+    targetIds?: Array<string | ObjectId>
+  ): Promise<number>;
+  sync(
+    id: string | ObjectId,
+    relationName: ManyToManyRelationKeys<TRelationTargets>,
+    targetIds: Array<string | ObjectId>,
+    options?: AttachOptions
+  ): Promise<SyncRelationResult>;
 
   // Aggregation
-  count(filter?: Filter<TDoc>): Promise<number>;
+  count(filter?: Filter<TDoc>, options?: SoftDeleteOptions): Promise<number>;
   aggregate(pipeline: any[]): Promise<any[]>;
 
   // Embed refresh
@@ -174,6 +478,13 @@ export interface CollectionFacade<TDoc = any, TInsert = any, TUpdate = any, TRel
     relationName: keyof TRelationTargets & string,
     options?: RefreshEmbedsOptions<TDoc>
   ): Promise<RefreshStats>;
+  checkEmbeds(
+    relationName: keyof TRelationTargets & string,
+    options?: CheckEmbedsOptions<TDoc>
+  ): Promise<EmbedCheckReport>;
+
+  // Tenancy
+  unscoped(): CollectionFacade<TDoc, TInsert, TUpdate, TRelationTargets>;
 
   // Raw access
   rawCollection(): any;
@@ -193,17 +504,47 @@ export type DbFacade<TCollections> = {
     : never;
 };
 
+/**
+ * Transaction options
+ */
+export interface TransactionOptions {
+  readConcern?: ReadConcernLike;
+  writeConcern?: WriteConcern;
+  readPreference?: ReadPreferenceLike;
+  maxCommitTimeMS?: number;
+
+  /**
+   * Retries of the whole callback on TransientTransactionError
+   * (and of the commit on UnknownTransactionCommitResult)
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay in ms before the given retry attempt
+   * @default Exponential backoff: 50ms * 2^attempt
+   */
+  backoff?: (attempt: number) => number;
+}
+
 /**
  * Transaction helper
  */
 export interface TransactionHelper {
-  <T>(ctx: OrmContext, fn: (tx: MongoOrmTransaction) => Promise<T>): Promise<T>;
+  <T>(
+    ctx: OrmContext,
+    fn: (tx: MongoOrmTransaction) => Promise<T>,
+    options?: TransactionOptions,
+  ): Promise<T>;
 }
 
 /**
  * ORM transaction instance
+ * Every facade created through withContext() is bound to the transaction session
  */
 export interface MongoOrmTransaction {
+  session: ClientSession;
+
   withContext<TCollections extends Record<string, any>>(
     ctx: OrmContext,
   ): DbFacade<TCollections>;
@@ -220,6 +561,13 @@ export interface MongoOrm<TCollections extends Record<string, any> = any> {
   // Transactions
   tx: TransactionHelper;
 
+  // Indexes
+  syncIndexes(options?: SyncIndexesOptions): Promise<IndexSyncReport>;
+
+  // Async embed propagation
+  embedWorker: EmbedWorker;
+  startEmbedSync(options?: EmbedSyncOptions): Promise<EmbedSync>;
+
   // Utilities
   rawClient(): MongoClient;
   close(): Promise<void>;
@@ -255,6 +603,8 @@ export interface MizzleConfig<TSchema extends Record<string, any> = Record<strin
   validation?: ValidationConfig;
   audit?: AuditOrmConfig;
   devGuardrails?: DevGuardrailsConfig;
+  pagination?: PaginationConfig;
+  embedOutbox?: EmbedOutboxConfig;
 
   // MongoDB client (provide for connection pooling)
   client?: MongoClient;
@@ -283,7 +633,11 @@ export interface MizzleTransactionFunction<TSchema extends Record<string, any>>
  * Uses a callable transaction function instead of MongoOrmTransaction
  */
 export interface MizzleTransactionHelper<TSchema extends Record<string, any>> {
-  <T>(ctx: OrmContext, fn: (tx: MizzleTransactionFunction<TSchema>) => Promise<T>): Promise<T>;
+  <T>(
+    ctx: Partial<OrmContext>,
+    fn: (tx: MizzleTransactionFunction<TSchema>) => Promise<T>,
+    options?: TransactionOptions,
+  ): Promise<T>;
 }
 
 /**
@@ -299,6 +653,15 @@ export interface MizzleProperties<TSchema extends Record<string, any>> {
   /** Transaction helper */
   tx: MizzleTransactionHelper<TSchema>;
 
+  /** Create, drop or rebuild indexes to match the declared schema indexes */
+  syncIndexes(options?: SyncIndexesOptions): Promise<IndexSyncReport>;
+
+  /** Worker draining the outbox of reverse embeds with strategy: 'async' */
+  embedWorker: EmbedWorker;
+
+  /** Propagate reverse embeds from change streams (covers writes that bypass the ORM) */
+  startEmbedSync(options?: EmbedSyncOptions): Promise<EmbedSync>;
+
   /** Close database connection */
   close(): Promise<void>;
 
@@ -0,0 +1,49 @@
+/**
+ * Bounded-concurrency utility tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should return results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(
+      Array.from({ length: 10 }, (_, i) => i),
+      3,
+      async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+      },
+    );
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should handle empty input and run sequentially below 1', async () => {
+    expect(await mapWithConcurrency([], 4, async (x) => x)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], 0, async (x) => x + 1)).toEqual([2, 3]);
+  });
+
+  it('should reject with the first error', async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (x) => {
+        if (x === 2) throw new Error('boom');
+        return x;
+      }),
+    ).rejects.toThrow('boom');
+  });
+});
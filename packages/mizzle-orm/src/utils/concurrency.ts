@@ -0,0 +1,33 @@
+/**
+ * Bounded-concurrency async utilities
+ */
+
+/**
+ * Map items through an async function with at most `concurrency` calls in flight
+ * @param items - Items to process
+ * @param concurrency - Maximum parallel calls (values below 1 run sequentially)
+ * @param fn - Async mapper
+ * @returns Results in input order
+ *
+ * @example
+ * const users = await mapWithConcurrency(ids, 5, (id) => fetchUser(id));
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  const workers = Math.min(Math.max(concurrency, 1), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -48,6 +48,44 @@ export class PathNavigator {
     }
   }
 
+  /**
+   * Collect embedded snapshots of a document by source ID
+   * (separate: entries of the embed field; inplace: the objects holding the IDs)
+   */
+  static extractEmbeds(
+    doc: Document,
+    config: ForwardEmbedConfig,
+    relationName: string,
+  ): Map<string, Document> {
+    const embeds = new Map<string, Document>();
+    const add = (value: any) => {
+      if (value && typeof value === 'object' && value._id != null) {
+        embeds.set(this.toStringId(value._id), value);
+      }
+    };
+
+    if (this.inferStrategy(config) === 'separate') {
+      const value = doc[config.into || relationName];
+      (Array.isArray(value) ? value : [value]).forEach(add);
+      return embeds;
+    }
+
+    const paths = config.from ? [config.from] : config.paths || [];
+    for (const path of paths) {
+      if (!path.endsWith('._id')) continue;
+      let values: any[] = [doc];
+      for (const { field } of this.parsePath(path.slice(0, -4))) {
+        values = values.flatMap((value) => {
+          const next = value?.[field];
+          if (next == null) return [];
+          return Array.isArray(next) ? next : [next];
+        });
+      }
+      values.forEach(add);
+    }
+    return embeds;
+  }
+
   /**
    * Infer strategy from path
    */
@@ -59,6 +97,34 @@ export class PathNavigator {
     return path.includes('._id') ? 'inplace' : 'separate';
   }
 
+  /**
+   * Root fields holding the IDs of a forward embed ('workflow.items[].refId' → 'workflow')
+   */
+  static sourceRootFields(config: ForwardEmbedConfig): string[] {
+    const paths = config.from ? [config.from] : config.paths || [];
+    return [...new Set(paths.map((path) => path.split('.')[0]!.replace(/\[\]$/, '')))];
+  }
+
+  /**
+   * Root fields written by a forward embed (the embed field, or the source roots for inplace)
+   */
+  static targetRootFields(config: ForwardEmbedConfig, relationName: string): string[] {
+    return this.inferStrategy(config) === 'inplace'
+      ? this.sourceRootFields(config)
+      : [config.into || relationName];
+  }
+
+  /**
+   * Split a path into fields ('workflow.items[].refId' → workflow, items (array), refId)
+   */
+  static parsePath(path: string): Array<{ field: string; array: boolean }> {
+    return path.split('.').map((segment) =>
+      segment.endsWith('[]')
+        ? { field: segment.slice(0, -2), array: true }
+        : { field: segment, array: false },
+    );
+  }
+
   /**
    * Extract values at path (handles arrays with [])
    */
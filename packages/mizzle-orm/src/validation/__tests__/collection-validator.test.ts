@@ -0,0 +1,129 @@
+/**
+ * Automatic write/read validation tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { setupTestDb, teardownTestDb, clearTestDb } from '../../test/setup';
+import { mongoCollection } from '../../collection/collection';
+import { string, number, date, objectId, publicId } from '../../schema/fields';
+import { ValidationError } from '../../middlewares/index';
+import { mizzle } from '../../orm/orm';
+import {
+  getCollectionSchemas,
+  resolveValidationConfig,
+  validateAgainstSchema,
+} from '../collection-validator';
+
+describe('Collection Validation', () => {
+  const users = mongoCollection('validated_users', {
+    _id: objectId().internalId(),
+    id: publicId('user'),
+    email: string().email(),
+    age: number().int().min(0).optional(),
+    deletedAt: date().softDeleteFlag().optional(),
+  });
+
+  describe('getCollectionSchemas()', () => {
+    it('should cache compiled schemas per collection', () => {
+      expect(getCollectionSchemas(users)).toBe(getCollectionSchemas(users));
+    });
+  });
+
+  describe('resolveValidationConfig()', () => {
+    it('should default to no validation', () => {
+      expect(resolveValidationConfig(undefined, users)).toEqual({
+        onWrite: 'none',
+        onRead: 'none',
+      });
+    });
+
+    it('should let collections override the global config', () => {
+      const strict = mongoCollection(
+        'strict',
+        { name: string() },
+        { validation: { onWrite: 'both' } },
+      );
+
+      expect(resolveValidationConfig({ onWrite: 'zod', onRead: 'zod' }, strict)).toEqual({
+        onWrite: 'both',
+        onRead: 'zod',
+      });
+    });
+  });
+
+  describe('validateAgainstSchema()', () => {
+    it('should report field paths in ValidationError', () => {
+      let error: unknown;
+      try {
+        validateAgainstSchema(users, 'insert', { email: 'not-an-email', age: -1 });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ValidationError);
+      const errors = (error as ValidationError).errors;
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toMatch(/^email: /);
+      expect(errors[1]).toMatch(/^age: /);
+    });
+
+    it('should allow a missing internal _id before the document is written', () => {
+      expect(() =>
+        validateAgainstSchema(users, 'writeDocument', { id: 'user_abc', email: 'a@example.com' }),
+      ).not.toThrow();
+    });
+
+    it('should accept null for soft delete flags', () => {
+      expect(() => validateAgainstSchema(users, 'update', { deletedAt: null })).not.toThrow();
+    });
+  });
+
+  describe('facade integration', () => {
+    let db: any;
+
+    beforeAll(async () => {
+      const { uri } = await setupTestDb();
+      db = await mizzle({
+        uri,
+        dbName: 'test',
+        schema: { users },
+        validation: { onWrite: 'both', onRead: 'zod' },
+      });
+    });
+
+    afterAll(async () => {
+      await db?.close();
+      await teardownTestDb();
+    });
+
+    beforeEach(async () => {
+      await clearTestDb();
+    });
+
+    it('should reject invalid inserts', async () => {
+      await expect(db().users.create({ email: 'nope' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject invalid updates', async () => {
+      const user = await db().users.create({ email: 'alice@example.com' });
+
+      await expect(db().users.updateById(user._id, { age: 1.5 })).rejects.toThrow(ValidationError);
+      await expect(db().users.updateMany({}, { email: 'nope' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should validate documents on read', async () => {
+      await db().users.rawCollection().insertOne({ id: 'user_raw', email: 'broken' });
+
+      await expect(db().users.findOne({ id: 'user_raw' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should still allow soft delete and restore', async () => {
+      const user = await db().users.create({ email: 'bob@example.com' });
+
+      await db().users.softDelete(user._id);
+      const restored = await db().users.restore(user._id);
+
+      expect(restored.deletedAt).toBeNull();
+    });
+  });
+});
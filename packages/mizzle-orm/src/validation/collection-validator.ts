@@ -0,0 +1,109 @@
+/**
+ * Automatic validation of collection writes and reads (MizzleConfig.validation)
+ */
+
+import type { z } from 'zod';
+import type { CollectionDefinition } from '../types/collection';
+import type { ValidationConfig, ValidationStrategy } from '../types/orm';
+import { ValidationError } from '../middlewares/index';
+import {
+  generateDocumentSchema,
+  generateInsertSchema,
+  generateUpdateSchema,
+} from './zod-schema-generator';
+
+/**
+ * Compiled Zod schemas of a collection
+ */
+export interface CollectionSchemas {
+  insert: z.ZodObject<any>;
+  update: z.ZodObject<any>;
+  document: z.ZodObject<any>;
+  /** Full document before it is written (internal ID fields may still be missing) */
+  writeDocument: z.ZodObject<any>;
+  /** Document read with a projection (every field optional) */
+  projectedDocument: z.ZodObject<any>;
+}
+
+/**
+ * Which payload is being validated
+ */
+export type ValidationTarget = keyof CollectionSchemas;
+
+/**
+ * Compiled schemas, cached per collection definition
+ */
+const schemaCache = new WeakMap<CollectionDefinition<any, any>, CollectionSchemas>();
+
+/**
+ * Get the (cached) Zod schemas for a collection
+ */
+export function getCollectionSchemas(
+  collectionDef: CollectionDefinition<any, any>,
+): CollectionSchemas {
+  let schemas = schemaCache.get(collectionDef);
+  if (!schemas) {
+    const document = generateDocumentSchema(collectionDef._schema);
+    const internalIdFields = Object.entries(collectionDef._schema)
+      .filter(([, fieldBuilder]) => (fieldBuilder as any)._config.isInternalId)
+      .map(([fieldName]) => [fieldName, true] as const);
+
+    schemas = {
+      insert: generateInsertSchema(collectionDef._schema),
+      update: generateUpdateSchema(collectionDef._schema),
+      document,
+      writeDocument:
+        internalIdFields.length > 0
+          ? document.partial(Object.fromEntries(internalIdFields))
+          : document,
+      projectedDocument: document.partial(),
+    };
+    schemaCache.set(collectionDef, schemas);
+  }
+  return schemas;
+}
+
+/**
+ * Resolve the effective validation config (collection-level settings override global ones)
+ */
+export function resolveValidationConfig(
+  global: ValidationConfig | undefined,
+  collectionDef: CollectionDefinition<any, any>,
+): Required<ValidationConfig> {
+  const collection = collectionDef._meta.validation;
+  return {
+    onWrite: collection?.onWrite ?? global?.onWrite ?? 'none',
+    onRead: collection?.onRead ?? global?.onRead ?? 'none',
+  };
+}
+
+/**
+ * Whether a strategy validates at all
+ */
+export function isValidationEnabled(strategy: ValidationStrategy): boolean {
+  return strategy === 'zod' || strategy === 'both';
+}
+
+/**
+ * Validate data against one of the collection schemas
+ *
+ * @throws ValidationError with one "path: message" entry per issue
+ */
+export function validateAgainstSchema(
+  collectionDef: CollectionDefinition<any, any>,
+  target: ValidationTarget,
+  data: unknown,
+): void {
+  const result = getCollectionSchemas(collectionDef)[target].safeParse(data);
+  if (result.success) return;
+
+  const errors = result.error.issues.map((issue) => {
+    const path = issue.path.map(String).join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+
+  throw new ValidationError(
+    errors,
+    `Validation failed for '${collectionDef._meta.name}' (${target}): ${errors.join('; ')}`,
+  );
+}
@@ -114,7 +114,8 @@ function fieldConfigToZod(fieldConfig: FieldConfig<any>): z.ZodTypeAny {
   if (fieldConfig.optional) {
     schema = schema.optional();
   }
-  if (fieldConfig.nullable) {
+  // Soft delete flags are cleared with null on restore
+  if (fieldConfig.nullable || fieldConfig.isSoftDeleteFlag) {
     schema = schema.nullable();
   }
 